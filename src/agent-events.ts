@@ -0,0 +1,96 @@
+/**
+ * Agent Events - Typed, subscribable subagent lifecycle events, forwarded to
+ * Pi's shared event bus so other extensions can react to them
+ */
+
+import type { TaskResult, TaskTier } from "./types";
+import type { BudgetWarning } from "./budget-tracker";
+
+/** Channel prefix on pi.events, e.g. "sirdar:completed" */
+export const PI_EVENT_PREFIX = "sirdar:";
+
+/**
+ * The agent an event is about, as plain data
+ */
+export interface AgentEventSubject {
+  taskId: string;
+  description: string;
+  tier: TaskTier;
+  attempt: number;
+  batchId?: string;
+}
+
+export interface AgentEventMap {
+  /** Accepted by the pool; blocked tasks are waiting on dependencies */
+  queued: AgentEventSubject & { status: "queued" | "blocked" };
+  started: AgentEventSubject;
+  output: { taskId: string; delta: string };
+  "tool-call": { taskId: string; toolName: string; args: unknown };
+  "budget-warning": { taskId: string; warning: BudgetWarning };
+  completed: AgentEventSubject & { result: TaskResult };
+  failed: AgentEventSubject & { error: string; result?: TaskResult };
+  cancelled: AgentEventSubject;
+  /** The agent's branch was merged */
+  merged: AgentEventSubject;
+  /** The agent's worktree and branch were removed without merging */
+  discarded: AgentEventSubject;
+}
+
+export type AgentEventType = keyof AgentEventMap;
+
+export const AGENT_EVENT_TYPES: AgentEventType[] = [
+  "queued", "started", "output", "tool-call", "budget-warning",
+  "completed", "failed", "cancelled", "merged", "discarded",
+];
+
+type AnyHandler = <K extends AgentEventType>(type: K, payload: AgentEventMap[K]) => void;
+
+/**
+ * Minimal typed pub/sub. A throwing subscriber is logged and skipped, so it
+ * can never break the pool or the other subscribers.
+ */
+export class AgentEventBus {
+  private handlers: Map<AgentEventType, Set<(payload: any) => void>> = new Map();
+  private anyHandlers: Set<AnyHandler> = new Set();
+
+  /**
+   * Subscribe to one event type
+   * @returns Unsubscribe function
+   */
+  on<K extends AgentEventType>(type: K, handler: (payload: AgentEventMap[K]) => void): () => void {
+    const handlers = this.handlers.get(type) ?? new Set();
+    handlers.add(handler);
+    this.handlers.set(type, handlers);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Subscribe to every event type
+   * @returns Unsubscribe function
+   */
+  onAny(handler: AnyHandler): () => void {
+    this.anyHandlers.add(handler);
+    return () => {
+      this.anyHandlers.delete(handler);
+    };
+  }
+
+  emit<K extends AgentEventType>(type: K, payload: AgentEventMap[K]): void {
+    for (const handler of this.handlers.get(type) ?? []) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Agent event handler for ${type} failed:`, error);
+      }
+    }
+    for (const handler of this.anyHandlers) {
+      try {
+        handler(type, payload);
+      } catch (error) {
+        console.error(`Agent event handler for ${type} failed:`, error);
+      }
+    }
+  }
+}
@@ -8,6 +8,8 @@ export interface AgentMetadata {
   tier: string;
   branchName: string;
   repoPath: string;
+  /** Commit the agent's worktree was created at; absent for agents recorded before it was tracked */
+  baseSha?: string;
   status: "completed" | "failed";
   completedAt: number; // Date.now()
 }
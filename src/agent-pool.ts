@@ -2,12 +2,18 @@
  * Agent Pool - Manages concurrent subagent execution with a max pool size
  */
 
-import type { TaskDefinition, TaskResult, TaskTier } from "./types";
+import type { TaskDefinition, TaskResult, TaskTier, TaskOutcome, TaskPriority, RetryableOutcome } from "./types";
 import type { BudgetTracker, BudgetWarning } from "./budget-tracker";
-import type { LifecycleManager } from "./lifecycle-manager";
+import type { LifecycleManager, RateLimitEvent } from "./lifecycle-manager";
 import { TaskQueue } from "./task-queue";
+import { getNextTier, selectModel } from "./model-selector";
+import { RateLimiter, type RateLimits } from "./rate-limit";
+import { findLockConflict, type LockConflict } from "./resource-locks";
+import { AgentEventBus, type AgentEventSubject } from "./agent-events";
 
-export type AgentStatus = "running" | "completed" | "failed" | "queued";
+const DEFAULT_RETRY_ON: RetryableOutcome[] = ["failed", "timeout"];
+
+export type AgentStatus = "running" | "completed" | "failed" | "queued" | "cancelled" | "blocked" | "interrupted";
 
 export interface AgentInfo {
   taskId: string;
@@ -17,18 +23,102 @@ export interface AgentInfo {
   startTime?: number; // when execution started
   endTime?: number; // when execution finished
   result?: TaskResult; // populated on completion
+  attempt: number; // 1 for the first run, incremented by each retry or continuation
+  attempts: AttemptRecord[]; // finished runs, oldest first
+  merged?: boolean; // set by markMerged once the agent's branch is merged
+  batchId?: string; // the spawn_agents batch this agent belongs to
+}
+
+export interface AttemptRecord {
+  attempt: number;
+  tier: TaskTier;
+  outcome: TaskOutcome;
+  error?: string;
+  costEstimate: number;
+  durationMs: number;
 }
 
 export interface AgentPoolEvents {
   onComplete: (info: AgentInfo) => void;
   onFailed: (info: AgentInfo) => void;
+  /** Called when a queued or running task is cancelled (not a failure) */
+  onCancelled?: (info: AgentInfo) => void;
+  /** Called when a failed attempt is being retried (instead of onFailed) */
+  onRetry?: (info: AgentInfo, failed: AttemptRecord) => void;
+  /**
+   * Admit a retry before it is queued (e.g. against spend ceilings).
+   * Rejecting ends the task as failed instead, with the reason appended to its error.
+   */
+  onBeforeRetry?: (task: TaskDefinition, info: AgentInfo) => Promise<void>;
   onWarning: (warning: BudgetWarning) => void;
   onOutput?: (taskId: string, delta: string) => void;
+  /** Ask whether a task that crossed its hard budget may keep running */
+  onHardLimit?: (info: AgentInfo, warning: BudgetWarning) => Promise<boolean>;
+  /** Called when a provider throttled a running task and its turn will be retried */
+  onRateLimited?: (info: AgentInfo, event: RateLimitEvent) => void;
+  /** Called whenever a task is added, starts, finishes or changes priority, so pool state can be persisted */
+  onStateChange?: () => void;
+}
+
+/**
+ * A task's pool state, as saved by getSnapshot and restored after a restart
+ */
+export interface PoolSnapshotEntry {
+  task: TaskDefinition;
+  status: AgentStatus;
+  attempt: number;
+  attempts: AttemptRecord[];
+  merged?: boolean;
+  startTime?: number;
+  endTime?: number;
+}
+
+export type TierLimits = Partial<Record<TaskTier, number>>;
+
+export interface PoolLimits {
+  maxConcurrent: number;
+  /** Per-tier caps on running tasks; tiers without an entry are only bound by maxConcurrent */
+  tierLimits: TierLimits;
+}
+
+export interface SubmitOptions {
+  /** Caller's abort signal. An already-aborted signal rejects the submission. */
+  signal?: AbortSignal;
+  /** Cancel the task if the signal aborts after submission (ties it to the caller's turn) */
+  cancelOnAbort?: boolean;
+  /**
+   * Runs once a blocked task's dependencies are satisfied, before it is
+   * queued (e.g. to create its worktree from a dependency's branch).
+   * Throwing fails the task with that error.
+   */
+  prepare?: (task: TaskDefinition) => Promise<TaskDefinition>;
+  /**
+   * Undoes prepare for a task cancelled while prepare ran (e.g. removes the
+   * worktree it created), given the task prepare returned. Reports its own
+   * failures; the pool ignores them.
+   */
+  discard?: (prepared: TaskDefinition) => Promise<void>;
 }
 
 export class AgentPool {
+  /** Lifecycle events for any number of subscribers, alongside the owner's callbacks */
+  readonly bus: AgentEventBus = new AgentEventBus();
   private agents: Map<string, AgentInfo> = new Map();
+  // Task definitions as last submitted, for continuations
+  private tasks: Map<string, TaskDefinition> = new Map();
   private taskQueue: TaskQueue = new TaskQueue();
+  // Warning types already reported live while a task was running
+  private liveWarnings: Map<string, Set<BudgetWarning["type"]>> = new Map();
+  // Settles once a running task has been fully handled
+  private runs: Map<string, Promise<void>> = new Map();
+  // Detach functions for abort listeners of tasks tied to a caller's signal
+  private abortListeners: Map<string, () => void> = new Map();
+  // Tasks waiting on dependencies, with their prepare and discard hooks
+  private blocked: Map<string, Pick<SubmitOptions, "prepare" | "discard">> = new Map();
+  private tierLimits: TierLimits = {};
+  private rateLimiter: RateLimiter = new RateLimiter();
+  // Wakes the queue once a provider's rate limit window frees up
+  private rateLimitTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private maxConcurrent: number = 3,
@@ -37,30 +127,362 @@ export class AgentPool {
     private events: AgentPoolEvents
   ) {}
 
+  /**
+   * Change the concurrency limits. Raising a limit starts queued tasks
+   * right away; lowering one never stops running tasks, they drain as
+   * they finish. A tier limit of null removes that tier's cap.
+   * Throws on a limit that is not a whole number (maxConcurrent must be at least 1).
+   */
+  setLimits(limits: { maxConcurrent?: number; tierLimits?: Partial<Record<TaskTier, number | null>> }): PoolLimits {
+    if (limits.maxConcurrent !== undefined) {
+      if (!Number.isInteger(limits.maxConcurrent) || limits.maxConcurrent < 1) {
+        throw new Error(`Invalid maxConcurrent: ${limits.maxConcurrent} (must be a whole number >= 1)`);
+      }
+    }
+    for (const [tier, limit] of Object.entries(limits.tierLimits ?? {})) {
+      if (limit !== null && limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+        throw new Error(`Invalid limit for tier ${tier}: ${limit} (must be a whole number >= 0)`);
+      }
+    }
+
+    if (limits.maxConcurrent !== undefined) {
+      this.maxConcurrent = limits.maxConcurrent;
+    }
+    for (const [tier, limit] of Object.entries(limits.tierLimits ?? {}) as [TaskTier, number | null | undefined][]) {
+      if (limit === null) {
+        delete this.tierLimits[tier];
+      } else if (limit !== undefined) {
+        this.tierLimits[tier] = limit;
+      }
+    }
+
+    this.startNextQueuedTask();
+    return this.getLimits();
+  }
+
+  /**
+   * Current concurrency limits
+   */
+  getLimits(): PoolLimits {
+    return { maxConcurrent: this.maxConcurrent, tierLimits: { ...this.tierLimits } };
+  }
+
+  /**
+   * Set per-provider requests/tokens per minute. Queued tasks whose
+   * provider is at its limit wait instead of starting into throttling.
+   */
+  setRateLimits(limits: RateLimits): void {
+    this.rateLimiter.setLimits(limits);
+    this.startNextQueuedTask();
+  }
+
+  getRateLimits(): RateLimits {
+    return this.rateLimiter.getLimits();
+  }
+
   /**
    * Submit a task. Runs immediately if pool has capacity, queues otherwise.
-   * Returns the AgentInfo (status will be "running" or "queued")
+   * Tasks with dependsOn start out "blocked" until every dependency has
+   * completed (and been merged, with waitForMerge).
+   * Returns the AgentInfo (status will be "running", "queued" or "blocked")
+   * Throws if options.signal is already aborted or a dependency is unknown
+   * or has already failed.
    */
-  async submit(task: TaskDefinition): Promise<AgentInfo> {
+  async submit(task: TaskDefinition, options?: SubmitOptions): Promise<AgentInfo> {
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw new Error("Task submission aborted");
+    }
+
+    for (const dependencyId of task.dependsOn ?? []) {
+      const dependency = this.agents.get(dependencyId);
+      if (!dependency) {
+        throw new Error(`Unknown dependency: ${dependencyId}`);
+      }
+      if (dependency.status === "failed" || dependency.status === "cancelled") {
+        throw new Error(`Dependency ${dependencyId} is ${dependency.status}`);
+      }
+    }
+
     // Create AgentInfo with initial status "queued"
     const info: AgentInfo = {
       taskId: task.id,
       description: task.description,
       status: "queued",
       tier: task.tier,
+      attempt: 1,
+      attempts: [],
+      batchId: task.batchId,
     };
 
     this.agents.set(task.id, info);
 
+    if (task.dependsOn && task.dependsOn.length > 0) {
+      info.status = "blocked";
+      this.tasks.set(task.id, task);
+      this.blocked.set(task.id, { prepare: options?.prepare, discard: options?.discard });
+      this.attachAbortListener(task.id, options);
+      this.bus.emit("queued", { ...this.subject(info), status: "blocked" });
+      this.releaseIfReady(task.id);
+      this.stateChanged();
+      return info;
+    }
+
+    this.schedule(task, info, options);
+
+    return info;
+  }
+
+  /**
+   * Unfinished tasks (queued, blocked, running, interrupted) in submission
+   * order, plus any finished tasks they depend on
+   */
+  getSnapshot(): PoolSnapshotEntry[] {
+    const unfinished = new Set<string>();
+    const needed = new Set<string>();
+    for (const info of this.agents.values()) {
+      if (["queued", "blocked", "running", "interrupted"].includes(info.status)) {
+        unfinished.add(info.taskId);
+        needed.add(info.taskId);
+        for (const dependencyId of this.tasks.get(info.taskId)?.dependsOn ?? []) {
+          needed.add(dependencyId);
+        }
+      }
+    }
+
+    const entries: PoolSnapshotEntry[] = [];
+    for (const info of this.agents.values()) {
+      const task = this.tasks.get(info.taskId);
+      if (!task || !needed.has(info.taskId)) continue;
+      entries.push({
+        task,
+        status: info.status,
+        attempt: info.attempt,
+        attempts: info.attempts,
+        merged: info.merged,
+        startTime: info.startTime,
+        endTime: info.endTime,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Re-add a task saved by getSnapshot before a restart. Queued tasks are
+   * queued again and blocked tasks wait on their dependencies again (restore
+   * dependencies first). Tasks that were running come back "interrupted":
+   * their session ended with the old process, so they wait for
+   * resumeInterrupted, retryInterrupted or cancel. Finished tasks are kept
+   * as-is for their dependents.
+   * Throws if a task with the same ID is already in the pool.
+   */
+  restore(entry: PoolSnapshotEntry, options?: SubmitOptions): AgentInfo {
+    const { task } = entry;
+    if (this.agents.has(task.id)) {
+      throw new Error(`Agent already exists: ${task.id}`);
+    }
+
+    const info: AgentInfo = {
+      taskId: task.id,
+      description: task.description,
+      status: entry.status,
+      tier: task.tier,
+      attempt: entry.attempt,
+      attempts: entry.attempts,
+      merged: entry.merged,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      batchId: task.batchId,
+    };
+    this.agents.set(task.id, info);
+    this.tasks.set(task.id, task);
+
+    if (entry.status === "queued") {
+      info.startTime = undefined;
+      this.schedule(task, info, options);
+    } else if (entry.status === "blocked") {
+      this.blocked.set(task.id, { prepare: options?.prepare, discard: options?.discard });
+      this.attachAbortListener(task.id, options);
+      const lost = (task.dependsOn ?? []).find((id) => !this.agents.has(id));
+      if (lost) {
+        this.failBlocked(task, info, `Dependency ${lost} was lost on restart`);
+      } else {
+        this.releaseIfReady(task.id);
+      }
+    } else if (entry.status === "running" || entry.status === "interrupted") {
+      info.status = "interrupted";
+    }
+
+    this.stateChanged();
+    return info;
+  }
+
+  /**
+   * Resume an interrupted task from its saved session with a prompt telling
+   * it to carry on. Throws if the task is not interrupted.
+   */
+  resumeInterrupted(taskId: string, sessionFile: string, prompt: string, options?: SubmitOptions): AgentInfo {
+    const { info, previous } = this.getInterrupted(taskId, options);
+    const task: TaskDefinition = {
+      ...previous,
+      prompt,
+      contextFiles: undefined,
+      resumeSessionFile: sessionFile,
+    };
+    this.restartInterrupted(task, info, options);
+    return info;
+  }
+
+  /**
+   * Run an interrupted task again from its original prompt, in the same
+   * working directory. Throws if the task is not interrupted.
+   */
+  retryInterrupted(taskId: string, options?: SubmitOptions): AgentInfo {
+    const { info, previous } = this.getInterrupted(taskId, options);
+    this.restartInterrupted(previous, info, options);
+    return info;
+  }
+
+  private getInterrupted(taskId: string, options?: SubmitOptions): { info: AgentInfo; previous: TaskDefinition } {
+    const info = this.agents.get(taskId);
+    const previous = this.tasks.get(taskId);
+    if (!info || !previous) {
+      throw new Error(`Agent not found: ${taskId}`);
+    }
+    if (info.status !== "interrupted") {
+      throw new Error(`Agent is ${info.status}, can only resume or retry interrupted agents`);
+    }
+    if (options?.signal?.aborted) {
+      throw new Error("Task submission aborted");
+    }
+    return { info, previous };
+  }
+
+  private restartInterrupted(task: TaskDefinition, info: AgentInfo, options?: SubmitOptions): void {
+    info.status = "queued";
+    info.attempt += 1;
+    info.startTime = undefined;
+    info.endTime = undefined;
+    this.schedule(task, info, options);
+  }
+
+  /**
+   * Record that a completed agent's branch has been merged, releasing
+   * dependents that wait for the merge
+   */
+  markMerged(taskId: string): void {
+    const info = this.agents.get(taskId);
+    if (!info) return;
+    info.merged = true;
+    this.bus.emit("merged", this.subject(info));
+    this.resolveDependents(taskId);
+    this.stateChanged();
+  }
+
+  /**
+   * Report that a finished or cancelled agent's work was thrown away
+   * (its worktree and branch removed without merging)
+   */
+  markDiscarded(taskId: string): void {
+    const info = this.agents.get(taskId);
+    if (!info) return;
+    this.bus.emit("discarded", this.subject(info));
+  }
+
+  /**
+   * Describe what a blocked task is still waiting for
+   */
+  getBlockers(taskId: string): string[] {
+    const task = this.tasks.get(taskId);
+    if (!task || !this.blocked.has(taskId)) {
+      return [];
+    }
+    return (task.dependsOn ?? [])
+      .filter((id) => !this.isSatisfied(id, task.waitForMerge))
+      .map((id) => {
+        const dependency = this.agents.get(id);
+        return dependency?.status === "completed" ? `${id} (not merged)` : `${id} (${dependency?.status ?? "unknown"})`;
+      });
+  }
+
+  /**
+   * Send a follow-up prompt to a completed or failed task as a new attempt
+   * of the same task ID. The saved session is reopened in the task's
+   * original working directory; cost accrues to the same budget record.
+   * Throws if the task is unknown, not finished, or has no saved session.
+   */
+  async continueTask(taskId: string, prompt: string, options?: SubmitOptions): Promise<AgentInfo> {
+    const info = this.agents.get(taskId);
+    const previous = this.tasks.get(taskId);
+    if (!info || !previous) {
+      throw new Error(`Agent not found: ${taskId}`);
+    }
+    if (info.status !== "completed" && info.status !== "failed") {
+      throw new Error(`Agent is ${info.status}, can only continue completed or failed agents`);
+    }
+    const sessionFile = info.result?.transcriptPath;
+    if (!sessionFile) {
+      throw new Error(`Agent ${taskId} has no saved session to continue`);
+    }
+    if (options?.signal?.aborted) {
+      throw new Error("Task submission aborted");
+    }
+
+    const task: TaskDefinition = {
+      ...previous,
+      prompt,
+      contextFiles: undefined,
+      resumeSessionFile: sessionFile,
+      retry: undefined,
+    };
+
+    info.status = "queued";
+    info.attempt += 1;
+    info.startTime = undefined;
+    info.endTime = undefined;
+    info.result = undefined;
+
+    this.schedule(task, info, options);
+
+    return info;
+  }
+
+  /**
+   * Run a task now if there is capacity, otherwise queue it
+   */
+  private schedule(task: TaskDefinition, info: AgentInfo, options?: SubmitOptions): void {
+    this.tasks.set(task.id, task);
+    this.attachAbortListener(task.id, options);
+    this.bus.emit("queued", { ...this.subject(info), status: "queued" });
+
     // Check if we have capacity to run immediately
-    if (this.runningCount() < this.maxConcurrent) {
+    if (this.hasCapacity() && this.hasTierCapacity(task.tier) && !this.getLockConflict(task) && this.getRateLimitWait(task) === 0) {
       this.startTask(task, info);
     } else {
-      // Pool is full, add to queue
+      // Pool or tier is full, a resource is locked or the provider is at its rate limit, add to queue
       this.taskQueue.enqueue(task);
+      this.scheduleRateLimitWake();
     }
+    this.stateChanged();
+  }
 
-    return info;
+  private stateChanged(): void {
+    this.events.onStateChange?.();
+  }
+
+  private subject(info: AgentInfo): AgentEventSubject {
+    return {
+      taskId: info.taskId,
+      description: info.description,
+      tier: info.tier,
+      attempt: info.attempt,
+      batchId: info.batchId,
+    };
+  }
+
+  private warn(warning: BudgetWarning): void {
+    this.events.onWarning(warning);
+    this.bus.emit("budget-warning", { taskId: warning.taskId, warning });
   }
 
   /**
@@ -70,13 +492,35 @@ export class AgentPool {
     // Update status to running
     info.status = "running";
     info.startTime = Date.now();
+    this.bus.emit("started", this.subject(info));
 
     // Start the task (fire and forget)
-    this.lifecycleManager
-      .runTask(task, (delta: string) => {
-        // Forward output to the events callback
-        this.events.onOutput?.(task.id, delta);
-      })
+    const run = this.lifecycleManager
+      .runTask(
+        task,
+        (delta: string) => {
+          // Forward output to the events callback
+          this.events.onOutput?.(task.id, delta);
+          this.bus.emit("output", { taskId: task.id, delta });
+        },
+        {
+          onToolCall: (toolName, args) => this.bus.emit("tool-call", { taskId: task.id, toolName, args }),
+          // Continuations resume the same work, so its earlier spend counts; retries start over
+          priorCost: task.resumeSessionFile ? this.budgetTracker.getTaskRecord(task.id)?.costEstimate : undefined,
+          onRequest: (tokens) => this.rateLimiter.record(this.getProvider(task), tokens),
+          onRateLimited: (event) => {
+            // Hold back other starts on this provider while it recovers
+            this.rateLimiter.pause(this.getProvider(task), event.delayMs);
+            this.events.onRateLimited?.(info, event);
+          },
+          onBudgetWarning: (warning) => this.reportLiveWarning(warning),
+          onHardLimit: async (warning) => {
+            this.reportLiveWarning(warning);
+            if (!this.events.onHardLimit) return false;
+            return this.events.onHardLimit(info, warning);
+          },
+        }
+      )
       .then((result) => {
         this.handleTaskComplete(task, info, result);
       })
@@ -93,7 +537,47 @@ export class AgentPool {
           error: error instanceof Error ? error.message : String(error),
         };
         this.handleTaskComplete(task, info, result);
+      })
+      .finally(() => {
+        this.runs.delete(task.id);
       });
+    this.runs.set(task.id, run);
+    this.stateChanged();
+  }
+
+  /**
+   * Cancel a task. Queued tasks are removed from the queue; running tasks
+   * are aborted and the returned promise settles once they have stopped.
+   * Interrupted tasks are discarded the same way as queued ones.
+   * @returns true if the task was queued, blocked, interrupted or running, false otherwise
+   */
+  async cancel(taskId: string): Promise<boolean> {
+    const info = this.agents.get(taskId);
+    if (!info) {
+      return false;
+    }
+
+    if (info.status === "queued" || info.status === "blocked" || info.status === "interrupted") {
+      this.taskQueue.remove(taskId);
+      this.blocked.delete(taskId);
+      this.detachAbortListener(taskId);
+      info.status = "cancelled";
+      info.endTime = Date.now();
+      this.events.onCancelled?.(info);
+      this.bus.emit("cancelled", this.subject(info));
+      this.resolveDependents(taskId);
+      this.stateChanged();
+      return true;
+    }
+
+    if (info.status === "running") {
+      const run = this.runs.get(taskId);
+      this.lifecycleManager.cancel(taskId);
+      await run;
+      return true;
+    }
+
+    return false;
   }
 
   /**
@@ -107,38 +591,323 @@ export class AgentPool {
     // Update agent info
     info.endTime = Date.now();
     info.result = result;
-    info.status = result.success ? "completed" : "failed";
+    const cancelled = result.outcome === "cancelled";
+    info.status = result.success ? "completed" : cancelled ? "cancelled" : "failed";
 
-    // Record in budget tracker
+    const attempt: AttemptRecord = {
+      attempt: info.attempt,
+      tier: task.tier,
+      outcome: result.outcome ?? (result.success ? "success" : "failed"),
+      error: result.error,
+      costEstimate: result.costEstimate,
+      durationMs: result.durationMs,
+    };
+    info.attempts.push(attempt);
+
+    // Record in budget tracker (skip warnings already reported live)
     const warning = this.budgetTracker.recordTask(result, task.tier);
-    if (warning) {
-      this.events.onWarning(warning);
+    const reported = this.liveWarnings.get(task.id);
+    this.liveWarnings.delete(task.id);
+    if (warning && !reported?.has(warning.type)) {
+      this.warn(warning);
     }
 
+    // Retry instead of reporting the failure while the policy allows it
+    const retryTask = this.getRetryTask(task, info, attempt);
+    if (retryTask) {
+      info.status = "queued";
+      info.attempt += 1;
+      info.tier = retryTask.tier;
+      info.startTime = undefined;
+      info.endTime = undefined;
+      this.events.onRetry?.(info, attempt);
+      if (!this.events.onBeforeRetry) {
+        this.schedule(retryTask, info);
+        this.startNextQueuedTask();
+        return;
+      }
+
+      // The freed slot goes to the queue while the retry waits for admission
+      this.startNextQueuedTask();
+      this.events.onBeforeRetry(retryTask, info).then(
+        () => {
+          // Cancelled while waiting
+          if (info.status !== "queued") return;
+          this.schedule(retryTask, info);
+        },
+        (error) => {
+          if (info.status !== "queued") return;
+          info.status = "failed";
+          info.attempt -= 1;
+          info.tier = task.tier;
+          info.endTime = Date.now();
+          const reason = error instanceof Error ? error.message : String(error);
+          info.result = { ...result, error: `${result.error || "Unknown error"} (not retried: ${reason})` };
+          this.finishTask(task, info, info.result);
+        }
+      );
+      return;
+    }
+
+    this.finishTask(task, info, result);
+  }
+
+  /**
+   * Report a task's final outcome and move on to its dependents and the queue
+   */
+  private finishTask(task: TaskDefinition, info: AgentInfo, result: TaskResult): void {
+    const cancelled = result.outcome === "cancelled";
+    this.detachAbortListener(task.id);
+
     // Call appropriate callback
     if (result.success) {
       this.events.onComplete(info);
+      this.bus.emit("completed", { ...this.subject(info), result });
+    } else if (cancelled) {
+      this.events.onCancelled?.(info);
+      this.bus.emit("cancelled", this.subject(info));
     } else {
       this.events.onFailed(info);
+      this.bus.emit("failed", { ...this.subject(info), error: result.error || "Unknown error", result });
     }
 
+    this.resolveDependents(task.id);
+
     // Check if there are queued tasks and start the next one
     this.startNextQueuedTask();
+    this.stateChanged();
+  }
+
+  /**
+   * Build the next attempt of a failed task if its retry policy allows one.
+   * It runs in the same cwd, so with a worktree it builds on whatever the
+   * failed attempt left there; nothing is reset between attempts.
+   */
+  private getRetryTask(
+    task: TaskDefinition,
+    info: AgentInfo,
+    failed: AttemptRecord
+  ): TaskDefinition | null {
+    const policy = task.retry;
+    if (!policy || failed.outcome === "success" || failed.outcome === "cancelled") {
+      return null;
+    }
+    if (info.attempt >= policy.maxAttempts) {
+      return null;
+    }
+    if (!(policy.retryOn ?? DEFAULT_RETRY_ON).includes(failed.outcome)) {
+      return null;
+    }
+
+    const tier = policy.escalate ? getNextTier(task.tier) ?? task.tier : task.tier;
+    return { ...task, tier };
+  }
+
+  /**
+   * Whether a dependency no longer blocks its dependents
+   */
+  private isSatisfied(dependencyId: string, waitForMerge?: boolean): boolean {
+    const dependency = this.agents.get(dependencyId);
+    return dependency?.status === "completed" && (!waitForMerge || dependency.merged === true);
+  }
+
+  /**
+   * Re-check every blocked task that depends on a task whose state changed
+   */
+  private resolveDependents(taskId: string): void {
+    for (const blockedId of Array.from(this.blocked.keys())) {
+      if (this.tasks.get(blockedId)?.dependsOn?.includes(taskId)) {
+        this.releaseIfReady(blockedId);
+      }
+    }
+  }
+
+  /**
+   * Fail a blocked task whose dependency failed or was cancelled, or queue
+   * it once all its dependencies are satisfied
+   */
+  private releaseIfReady(taskId: string): void {
+    const task = this.tasks.get(taskId);
+    const info = this.agents.get(taskId);
+    if (!task || !info || !this.blocked.has(taskId)) return;
+
+    for (const dependencyId of task.dependsOn ?? []) {
+      const dependency = this.agents.get(dependencyId);
+      if (dependency?.status === "failed" || dependency?.status === "cancelled") {
+        this.failBlocked(task, info, `Dependency ${dependencyId} ${dependency.status}`);
+        return;
+      }
+    }
+
+    if (!(task.dependsOn ?? []).every((id) => this.isSatisfied(id, task.waitForMerge))) {
+      return;
+    }
+
+    const { prepare, discard } = this.blocked.get(taskId) ?? {};
+    this.blocked.delete(taskId);
+
+    (prepare ? prepare(task) : Promise.resolve(task)).then(
+      (prepared) => {
+        // Cancelled while preparing: nothing will run in what was prepared
+        if (info.status !== "blocked") {
+          // Failures are the hook's to report
+          discard?.(prepared).catch(() => undefined);
+          return;
+        }
+        info.status = "queued";
+        this.schedule(prepared, info);
+      },
+      (error) => {
+        if (info.status !== "blocked") return;
+        this.failBlocked(task, info, error instanceof Error ? error.message : String(error));
+      }
+    );
+  }
+
+  /**
+   * Fail a task that never started, then cascade to its own dependents
+   */
+  private failBlocked(task: TaskDefinition, info: AgentInfo, error: string): void {
+    this.blocked.delete(task.id);
+    this.detachAbortListener(task.id);
+    info.status = "failed";
+    info.endTime = Date.now();
+    info.result = {
+      taskId: task.id,
+      success: false,
+      output: "",
+      filesChanged: [],
+      tokenUsage: { input: 0, output: 0 },
+      costEstimate: 0,
+      durationMs: 0,
+      error,
+      outcome: "failed",
+    };
+    this.events.onFailed(info);
+    this.bus.emit("failed", { ...this.subject(info), error, result: info.result });
+    this.resolveDependents(task.id);
+    this.stateChanged();
+  }
+
+  /**
+   * Cancel the task when the caller's signal aborts, if asked to
+   */
+  private attachAbortListener(taskId: string, options?: SubmitOptions): void {
+    const signal = options?.signal;
+    if (!signal || !options?.cancelOnAbort) return;
+    const onAbort = () => {
+      this.cancel(taskId);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    this.abortListeners.set(taskId, () => signal.removeEventListener("abort", onAbort));
+  }
+
+  /**
+   * Stop listening to a finished task's caller signal
+   */
+  private detachAbortListener(taskId: string): void {
+    this.abortListeners.get(taskId)?.();
+    this.abortListeners.delete(taskId);
+  }
+
+  /**
+   * Forward a threshold crossing that happened while the task was running
+   */
+  private reportLiveWarning(warning: BudgetWarning): void {
+    const reported = this.liveWarnings.get(warning.taskId) ?? new Set();
+    reported.add(warning.type);
+    this.liveWarnings.set(warning.taskId, reported);
+    this.warn(warning);
   }
 
   /**
    * Start the next queued task if there is one and we have capacity
    */
   private startNextQueuedTask(): void {
-    if (this.hasCapacity() && !this.taskQueue.isEmpty()) {
-      const nextTask = this.taskQueue.dequeue();
-      if (nextTask) {
-        const info = this.agents.get(nextTask.id);
-        if (info) {
-          this.startTask(nextTask, info);
-        }
+    // Start queued tasks in priority order while there is capacity,
+    // skipping any whose tier is full, whose resources are locked by a
+    // running task or whose provider is at its rate limit
+    for (const nextTask of this.taskQueue.getAll()) {
+      if (!this.hasCapacity()) break;
+      if (!this.hasTierCapacity(nextTask.tier)) continue;
+      if (this.getLockConflict(nextTask)) continue;
+      if (this.getRateLimitWait(nextTask) > 0) continue;
+
+      this.taskQueue.remove(nextTask.id);
+      const info = this.agents.get(nextTask.id);
+      if (info) {
+        this.startTask(nextTask, info);
       }
     }
+    this.scheduleRateLimitWake();
+  }
+
+  /**
+   * The provider a task's tier runs on
+   */
+  private getProvider(task: TaskDefinition): string {
+    return selectModel(task.tier).provider;
+  }
+
+  private getRateLimitWait(task: TaskDefinition): number {
+    return this.rateLimiter.getWaitMs(this.getProvider(task));
+  }
+
+  /**
+   * Re-check the queue when the soonest rate-limited task may start.
+   * Only needed while a task is held back by its provider's limit alone.
+   */
+  private scheduleRateLimitWake(): void {
+    if (this.rateLimitTimer) {
+      clearTimeout(this.rateLimitTimer);
+      this.rateLimitTimer = null;
+    }
+    const waits = this.taskQueue
+      .getAll()
+      .map((task) => this.getRateLimitWait(task))
+      .filter((wait) => wait > 0);
+    if (waits.length === 0) return;
+
+    this.rateLimitTimer = setTimeout(() => {
+      this.rateLimitTimer = null;
+      this.startNextQueuedTask();
+    }, Math.min(...waits));
+    this.rateLimitTimer.unref?.();
+  }
+
+  /**
+   * Find a resource the task needs that a running task holds
+   */
+  private getLockConflict(task: TaskDefinition): LockConflict | undefined {
+    const held = this.getRunning()
+      .map((info) => this.tasks.get(info.taskId))
+      .filter((running): running is TaskDefinition => running !== undefined && running.id !== task.id);
+    return findLockConflict(task.resources, held);
+  }
+
+  /**
+   * Why a queued task has not started yet
+   * @returns e.g. "waiting for lock on src/api (held by task-1)", or undefined if not queued
+   */
+  getWaitReason(taskId: string): string | undefined {
+    const info = this.agents.get(taskId);
+    const task = this.tasks.get(taskId);
+    if (info?.status !== "queued" || !task) {
+      return undefined;
+    }
+    const tierLimit = this.tierLimits[task.tier];
+    if (this.hasCapacity() && !this.hasTierCapacity(task.tier)) {
+      return `waiting for ${task.tier} tier slot (${this.runningTierCount(task.tier)}/${tierLimit} running)`;
+    }
+    const conflict = this.getLockConflict(task);
+    if (conflict) {
+      return `waiting for lock on ${conflict.key} (held by ${conflict.heldBy})`;
+    }
+    const rateLimitWait = this.getRateLimitWait(task);
+    if (this.hasCapacity() && rateLimitWait > 0) {
+      return `waiting for ${this.getProvider(task)} rate limit (${Math.ceil(rateLimitWait / 1000)}s)`;
+    }
+    return "waiting for capacity";
   }
 
   /**
@@ -148,6 +917,36 @@ export class AgentPool {
     return this.agents.get(taskId);
   }
 
+  /**
+   * Change the priority of a queued task
+   * @returns true if the task was queued, false otherwise
+   */
+  reprioritize(taskId: string, priority: TaskPriority): boolean {
+    if (!this.taskQueue.reprioritize(taskId, priority)) {
+      return false;
+    }
+    const task = this.tasks.get(taskId);
+    if (task) {
+      this.tasks.set(taskId, { ...task, priority });
+    }
+    this.stateChanged();
+    return true;
+  }
+
+  /**
+   * Get a queued task's 1-based position in the queue
+   */
+  getQueuePosition(taskId: string): number | undefined {
+    return this.taskQueue.position(taskId);
+  }
+
+  /**
+   * Get the task definition an agent last ran with
+   */
+  getTask(taskId: string): TaskDefinition | undefined {
+    return this.tasks.get(taskId);
+  }
+
   /**
    * Get all agents by status
    */
@@ -157,10 +956,14 @@ export class AgentPool {
     );
   }
 
+  /**
+   * Queued agents, in the order they will start
+   */
   getQueued(): AgentInfo[] {
-    return Array.from(this.agents.values()).filter(
-      (info) => info.status === "queued"
-    );
+    return this.taskQueue
+      .getAll()
+      .map((task) => this.agents.get(task.id))
+      .filter((info): info is AgentInfo => info?.status === "queued");
   }
 
   getCompleted(): AgentInfo[] {
@@ -173,6 +976,13 @@ export class AgentPool {
     return Array.from(this.agents.values());
   }
 
+  /**
+   * Agents spawned together in a batch, in submission order
+   */
+  getBatch(batchId: string): AgentInfo[] {
+    return this.getAll().filter((info) => info.batchId === batchId);
+  }
+
   /**
    * Current counts
    */
@@ -190,4 +1000,19 @@ export class AgentPool {
   hasCapacity(): boolean {
     return this.runningCount() < this.maxConcurrent;
   }
+
+  /**
+   * Check if a tier is below its cap (always true for uncapped tiers)
+   */
+  hasTierCapacity(tier: TaskTier): boolean {
+    const limit = this.tierLimits[tier];
+    return limit === undefined || this.runningTierCount(tier) < limit;
+  }
+
+  /**
+   * Number of running tasks on a tier
+   */
+  runningTierCount(tier: TaskTier): number {
+    return this.getRunning().filter((info) => info.tier === tier).length;
+  }
 }
@@ -0,0 +1,89 @@
+/**
+ * Agent report - Structured completion protocol for subagents
+ *
+ * Subagents end their final message with a JSON report wrapped in
+ * <report> tags. These helpers describe, parse and format that report.
+ */
+
+import type { AgentReport, ReportConfidence } from "./types";
+
+const REPORT_PATTERN = /<report>\s*([\s\S]*?)\s*<\/report>/g;
+const CONFIDENCE_LEVELS: ReportConfidence[] = ["high", "medium", "low"];
+
+/**
+ * Instructions appended to the subagent system prompt
+ */
+export const REPORT_INSTRUCTIONS = `After committing, end your final message with a report in exactly this format (valid JSON inside the tags):
+<report>
+{"summary": "one or two sentences on what you did", "filesTouched": ["path/to/file"], "testsRun": ["command — result"], "openQuestions": ["anything you were unsure about"], "confidence": "high | medium | low", "followUps": ["suggested next tasks"]}
+</report>`;
+
+function toStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === "string");
+}
+
+/**
+ * Parse the last <report> block in an agent's output.
+ *
+ * @param text - The agent's streamed text output
+ * @returns The report, or undefined if none is present or it is malformed
+ */
+export function parseAgentReport(text: string): AgentReport | undefined {
+  const matches = Array.from(text.matchAll(REPORT_PATTERN));
+  const last = matches[matches.length - 1];
+  if (!last) {
+    return undefined;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(last[1]);
+  } catch {
+    return undefined;
+  }
+
+  if (!data || typeof data !== "object" || typeof data.summary !== "string") {
+    return undefined;
+  }
+
+  // An unrecognised confidence is treated as the most cautious level
+  const confidence: ReportConfidence = CONFIDENCE_LEVELS.includes(data.confidence)
+    ? data.confidence
+    : "low";
+
+  return {
+    summary: data.summary,
+    filesTouched: toStringArray(data.filesTouched),
+    testsRun: toStringArray(data.testsRun),
+    openQuestions: toStringArray(data.openQuestions),
+    confidence,
+    followUps: toStringArray(data.followUps),
+  };
+}
+
+/**
+ * Format a report as readable text for notifications and tool output
+ */
+export function formatAgentReport(report: AgentReport): string {
+  const lines = [
+    `Summary: ${report.summary}`,
+    `Confidence: ${report.confidence}`,
+  ];
+
+  const sections: Array<[string, string[]]> = [
+    ["Files touched", report.filesTouched],
+    ["Tests run", report.testsRun],
+    ["Open questions", report.openQuestions],
+    ["Suggested follow-ups", report.followUps],
+  ];
+
+  for (const [label, items] of sections) {
+    if (items.length > 0) {
+      lines.push(`${label}:`);
+      lines.push(...items.map(item => `  - ${item}`));
+    }
+  }
+
+  return lines.join("\n");
+}
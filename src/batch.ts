@@ -0,0 +1,65 @@
+/**
+ * Batches - Fan one prompt template out over a list of items, and summarize
+ * the resulting group of agents
+ */
+
+import type { AgentInfo, AgentStatus } from "./agent-pool";
+import { isTerminal } from "./wait";
+
+export type BatchItem = Record<string, string>;
+
+export interface BatchSummary {
+  batchId: string;
+  total: number;
+  counts: Partial<Record<AgentStatus, number>>;
+  done: boolean;         // every agent completed, failed or was cancelled
+  costEstimate: number;
+}
+
+/**
+ * Count a batch's agents by status
+ */
+export function summarizeBatch(batchId: string, agents: AgentInfo[]): BatchSummary {
+  const counts: Partial<Record<AgentStatus, number>> = {};
+  let costEstimate = 0;
+  for (const agent of agents) {
+    counts[agent.status] = (counts[agent.status] ?? 0) + 1;
+    costEstimate += agent.attempts.reduce((sum, attempt) => sum + attempt.costEstimate, 0);
+  }
+
+  return {
+    batchId,
+    total: agents.length,
+    counts,
+    done: agents.length > 0 && agents.every(isTerminal),
+    costEstimate,
+  };
+}
+
+/**
+ * One-line summary, e.g. "batch-1: 12 agents — 3 completed, 9 running ($0.42)"
+ */
+export function formatBatchSummary(summary: BatchSummary): string {
+  const counts = Object.entries(summary.counts)
+    .map(([status, count]) => `${count} ${status}`)
+    .join(", ");
+  return `${summary.batchId}: ${summary.total} agents — ${counts} ($${summary.costEstimate.toFixed(2)})`;
+}
+
+/**
+ * One line per agent with its outcome: report summary for completed agents,
+ * the error for failed ones
+ */
+export function formatBatchTable(agents: AgentInfo[]): string {
+  return agents
+    .map((agent) => {
+      let outcome = "";
+      if (agent.status === "completed") {
+        outcome = agent.result?.report?.summary ?? agent.result?.output.substring(0, 200) ?? "";
+      } else if (agent.status === "failed") {
+        outcome = `Error: ${agent.result?.error || "Unknown error"}`;
+      }
+      return `• ${agent.taskId} [${agent.status}] — ${agent.description}${outcome ? `\n  ${outcome}` : ""}`;
+    })
+    .join("\n");
+}
@@ -5,14 +5,23 @@
 import { readFile, writeFile, appendFile } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
-import type { TaskResult, TaskTier } from "./types";
+import type { TaskResult, TaskTier, TokenUsage } from "./types";
 import { getBudgetThresholds } from "./model-selector";
 
+/** Cost of one recorded run, at the time it was recorded */
+export interface SpendEntry {
+  costEstimate: number;
+  timestamp: number;
+}
+
 export interface BudgetRecord {
   taskId: string;
   tier: TaskTier;
   costEstimate: number;
+  tokenUsage?: TokenUsage;
+  attempts?: number;         // runs recorded for this task (continuations add to the same record)
   timestamp: number;
+  spend?: SpendEntry[];      // each run's cost, for ceiling periods; absent in older history
 }
 
 export interface BudgetWarning {
@@ -24,6 +33,27 @@ export interface BudgetWarning {
   message: string;
 }
 
+export type SpendPeriod = "session" | "daily" | "monthly";
+
+/** Overall spend caps in dollars; unset periods are uncapped */
+export interface SpendCeilings {
+  session?: number;
+  daily?: number;
+  monthly?: number;
+  /** What a spawn that would cross a ceiling does: refused outright, or asks the user */
+  onExceed: "refuse" | "ask";
+}
+
+export interface CeilingStatus {
+  period: SpendPeriod;
+  limit: number;
+  spent: number;       // recorded spend in the period
+  reserved: number;    // expected cost of admitted tasks not yet recorded
+  remaining: number;   // limit - spent - reserved (negative once over)
+}
+
+const SPEND_PERIODS: SpendPeriod[] = ["session", "daily", "monthly"];
+
 export interface TierSummary {
   tier: TaskTier;
   totalCost: number;
@@ -34,55 +64,198 @@ export interface TierSummary {
   overSoftCount: number;  // how many tasks exceeded soft warning
 }
 
+/**
+ * Compare a task's spend against its tier thresholds.
+ * Returns the most severe warning that applies, or null if under both.
+ */
+export function checkBudgetThresholds(taskId: string, tier: TaskTier, cost: number): BudgetWarning | null {
+  const thresholds = getBudgetThresholds(tier);
+
+  if (cost > thresholds.hardFlag) {
+    return {
+      type: "hard",
+      tier,
+      taskId,
+      cost,
+      threshold: thresholds.hardFlag,
+      message: `Task ${taskId} exceeded hard budget limit for ${tier} tier ($${cost.toFixed(2)} > $${thresholds.hardFlag.toFixed(2)})`,
+    };
+  }
+
+  if (cost > thresholds.softWarning) {
+    return {
+      type: "soft",
+      tier,
+      taskId,
+      cost,
+      threshold: thresholds.softWarning,
+      message: `Task ${taskId} exceeded soft budget warning for ${tier} tier ($${cost.toFixed(2)} > $${thresholds.softWarning.toFixed(2)})`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * What a record's task spent from a point in time on, run by run.
+ * Records from before runs were tracked count whole at their timestamp.
+ */
+function spentSince(record: BudgetRecord, since: number): number {
+  const entries = record.spend ?? [{ costEstimate: record.costEstimate, timestamp: record.timestamp }];
+  return entries
+    .filter(entry => entry.timestamp >= since)
+    .reduce((sum, entry) => sum + entry.costEstimate, 0);
+}
+
+function addTokenUsage(a: TokenUsage | undefined, b: TokenUsage): TokenUsage {
+  if (!a) return { ...b };
+  return {
+    input: a.input + b.input,
+    output: a.output + b.output,
+    cacheRead: (a.cacheRead ?? 0) + (b.cacheRead ?? 0),
+    cacheWrite: (a.cacheWrite ?? 0) + (b.cacheWrite ?? 0),
+    thinking: (a.thinking ?? 0) + (b.thinking ?? 0),
+  };
+}
+
 export class BudgetTracker {
   private records: BudgetRecord[] = [];
   private historyFile: string;
   private lastSavedIndex: number = 0;
+  // Set when an already-saved record was updated, so save() must rewrite the file
+  private rewriteNeeded: boolean = false;
+  private ceilings: SpendCeilings = { onExceed: "refuse" };
+  // Expected cost held for admitted tasks until their spend is recorded
+  private reservations: Map<string, number> = new Map();
+  private sessionStart: number;
 
-  constructor(private dataDir: string) {
+  constructor(private dataDir: string, private now: () => number = Date.now) {
     this.historyFile = join(dataDir, "budget-history.jsonl");
+    this.sessionStart = now();
+  }
+
+  setCeilings(ceilings: SpendCeilings): void {
+    this.ceilings = { ...ceilings };
+  }
+
+  getCeilings(): SpendCeilings {
+    return { ...this.ceilings };
+  }
+
+  /**
+   * What a task of this tier is expected to cost: the tier's average
+   * recorded cost, or its soft warning threshold before any history exists
+   */
+  getExpectedCost(tier: TaskTier): number {
+    const summary = this.getTierSummary(tier);
+    return summary.taskCount > 0 ? summary.averageCost : summary.softWarning;
   }
 
   /**
-   * Record a completed task's cost and return any warning
+   * Hold an admitted task's expected cost against the ceilings until its
+   * spend is recorded (or the reservation is released)
+   */
+  reserve(taskId: string, amount: number): void {
+    this.reservations.set(taskId, amount);
+  }
+
+  /**
+   * Drop a task's reservation, e.g. when it was cancelled before running
+   */
+  release(taskId: string): void {
+    this.reservations.delete(taskId);
+  }
+
+  /**
+   * Spend against each configured ceiling, counting reservations
+   */
+  getCeilingStatus(): CeilingStatus[] {
+    const reserved = Array.from(this.reservations.values()).reduce((sum, amount) => sum + amount, 0);
+    const statuses: CeilingStatus[] = [];
+    for (const period of SPEND_PERIODS) {
+      const limit = this.ceilings[period];
+      if (limit === undefined) continue;
+      const since = this.getPeriodStart(period);
+      const spent = this.records.reduce((sum, r) => sum + spentSince(r, since), 0);
+      statuses.push({ period, limit, spent, reserved, remaining: limit - spent - reserved });
+    }
+    return statuses;
+  }
+
+  /**
+   * Ceilings a new task with this expected cost would cross
+   */
+  checkCeilings(amount: number): CeilingStatus[] {
+    return this.getCeilingStatus().filter(status => amount > status.remaining);
+  }
+
+  /**
+   * Smallest remaining headroom across the configured ceilings
+   * @returns undefined if no ceiling is configured
+   */
+  getHeadroom(): number | undefined {
+    const statuses = this.getCeilingStatus();
+    if (statuses.length === 0) return undefined;
+    return Math.min(...statuses.map(status => status.remaining));
+  }
+
+  private getPeriodStart(period: SpendPeriod): number {
+    if (period === "session") return this.sessionStart;
+    const date = new Date(this.now());
+    return period === "daily"
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+      : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+  }
+
+  /**
+   * Record a completed task's cost and return any warning.
+   * A further attempt of an already-recorded task adds to its record,
+   * and the warning reflects the task's total spend. Each run's cost also
+   * keeps its own timestamp, so ceilings count it in the period it was spent.
    */
   recordTask(result: TaskResult, tier: TaskTier): BudgetWarning | null {
+    this.reservations.delete(result.taskId);
+    const entry: SpendEntry = { costEstimate: result.costEstimate, timestamp: this.now() };
+    const existingIndex = this.records.findIndex(r => r.taskId === result.taskId);
+    if (existingIndex !== -1) {
+      const existing = this.records[existingIndex];
+      existing.spend = [
+        ...(existing.spend ?? [{ costEstimate: existing.costEstimate, timestamp: existing.timestamp }]),
+        entry,
+      ];
+      existing.costEstimate += result.costEstimate;
+      existing.tokenUsage = addTokenUsage(existing.tokenUsage, result.tokenUsage);
+      existing.attempts = (existing.attempts ?? 1) + 1;
+      existing.tier = tier; // retries may have escalated
+      existing.timestamp = entry.timestamp;
+      if (existingIndex < this.lastSavedIndex) {
+        this.rewriteNeeded = true;
+      }
+      return checkBudgetThresholds(result.taskId, tier, existing.costEstimate);
+    }
+
     // Create a budget record
     const record: BudgetRecord = {
       taskId: result.taskId,
       tier,
       costEstimate: result.costEstimate,
-      timestamp: Date.now(),
+      tokenUsage: result.tokenUsage,
+      timestamp: entry.timestamp,
+      spend: [entry],
     };
 
     // Add to in-memory records
     this.records.push(record);
 
     // Check against thresholds
-    const thresholds = getBudgetThresholds(tier);
-    let warning: BudgetWarning | null = null;
-
-    if (result.costEstimate > thresholds.hardFlag) {
-      warning = {
-        type: "hard",
-        tier,
-        taskId: result.taskId,
-        cost: result.costEstimate,
-        threshold: thresholds.hardFlag,
-        message: `Task ${result.taskId} exceeded hard budget limit for ${tier} tier ($${result.costEstimate.toFixed(2)} > $${thresholds.hardFlag.toFixed(2)})`,
-      };
-    } else if (result.costEstimate > thresholds.softWarning) {
-      warning = {
-        type: "soft",
-        tier,
-        taskId: result.taskId,
-        cost: result.costEstimate,
-        threshold: thresholds.softWarning,
-        message: `Task ${result.taskId} exceeded soft budget warning for ${tier} tier ($${result.costEstimate.toFixed(2)} > $${thresholds.softWarning.toFixed(2)})`,
-      };
-    }
+    return checkBudgetThresholds(result.taskId, tier, result.costEstimate);
+  }
 
-    return warning;
+  /**
+   * Get the record for a task, if it has been recorded
+   */
+  getTaskRecord(taskId: string): BudgetRecord | undefined {
+    return this.records.find(r => r.taskId === taskId);
   }
 
   /**
@@ -133,9 +306,10 @@ export class BudgetTracker {
    */
   formatReport(): string {
     const summaries = this.getAllSummaries();
+    const ceilings = this.formatCeilings();
 
     if (summaries.length === 0) {
-      return "Budget Report\n─────────────\nNo tasks recorded yet.";
+      return `Budget Report\n─────────────\nNo tasks recorded yet.${ceilings}`;
     }
 
     let report = "Budget Report\n─────────────\n";
@@ -151,7 +325,22 @@ export class BudgetTracker {
       report += `${tierLabel} | ${tasksLabel} | ${totalLabel} | ${avgLabel} | ${limitLabel} | ${overLabel}\n`;
     }
 
-    return report;
+    return report + ceilings;
+  }
+
+  /**
+   * Headroom lines for the report, empty when no ceiling is configured
+   */
+  private formatCeilings(): string {
+    const statuses = this.getCeilingStatus();
+    if (statuses.length === 0) return "";
+
+    let text = "\nSpend Ceilings\n──────────────\n";
+    for (const status of statuses) {
+      const reserved = status.reserved > 0 ? ` + $${status.reserved.toFixed(2)} reserved` : "";
+      text += `${status.period}: $${status.spent.toFixed(2)}${reserved} of $${status.limit.toFixed(2)} | Left: $${Math.max(0, status.remaining).toFixed(2)}\n`;
+    }
+    return text;
   }
 
   /**
@@ -170,6 +359,7 @@ export class BudgetTracker {
       
       this.records = lines.map(line => JSON.parse(line) as BudgetRecord);
       this.lastSavedIndex = this.records.length;
+      this.rewriteNeeded = false;
     } catch (error) {
       console.error("Failed to load budget history:", error);
       this.records = [];
@@ -181,8 +371,9 @@ export class BudgetTracker {
    * Save history to disk (append-only JSONL)
    */
   async save(): Promise<void> {
-    // Only save records that haven't been saved yet
-    const newRecords = this.records.slice(this.lastSavedIndex);
+    // Only save records that haven't been saved yet, unless a saved one changed
+    const rewrite = this.rewriteNeeded;
+    const newRecords = rewrite ? this.records : this.records.slice(this.lastSavedIndex);
     
     if (newRecords.length === 0) {
       return;
@@ -195,13 +386,14 @@ export class BudgetTracker {
       const { mkdirSync } = await import("fs");
       mkdirSync(this.dataDir, { recursive: true });
 
-      if (existsSync(this.historyFile)) {
+      if (!rewrite && existsSync(this.historyFile)) {
         await appendFile(this.historyFile, lines, "utf-8");
       } else {
         await writeFile(this.historyFile, lines, "utf-8");
       }
       
       this.lastSavedIndex = this.records.length;
+      this.rewriteNeeded = false;
     } catch (error) {
       console.error("Failed to save budget history:", error);
       throw error;
@@ -0,0 +1,53 @@
+/**
+ * Commit messages - Render the message and trailers for merges from the
+ * configured templates
+ */
+
+import { renderTemplate } from "./template";
+
+/** Variables available to message and trailer templates */
+export interface CommitMessageVars {
+  taskId: string;
+  description: string;
+  tier: string;
+  branch: string;
+  target: string;
+  summary: string;    // the agent's report summary, empty without a report
+  files: string;      // files the agent touched, comma separated
+}
+
+/**
+ * Render a commit message: the message template, then the trailers after a
+ * blank line. Trailers that render empty are dropped.
+ * Throws naming any placeholder that is not a known variable.
+ */
+export function buildCommitMessage(template: string, trailers: string[], vars: CommitMessageVars): string {
+  const message = renderTemplate(template, { ...vars }).trim();
+  return appendTrailers(message, renderTrailers(trailers, vars));
+}
+
+/**
+ * Render trailer templates, dropping any that render without a value.
+ * Throws naming any placeholder that is not a known variable.
+ */
+export function renderTrailers(trailers: string[], vars: CommitMessageVars): string[] {
+  return trailers
+    .map((trailer) => renderTemplate(trailer, { ...vars }).trim())
+    .filter((trailer) => !/^[\w-]+:\s*$/.test(trailer) && trailer.length > 0);
+}
+
+/**
+ * Add trailer lines to an existing message, joining its own trailer block
+ * if it ends with one and skipping lines it already has
+ */
+export function appendTrailers(message: string, trailers: string[]): string {
+  const body = message.trimEnd();
+  const lines = body.split("\n");
+  const added = trailers.filter((trailer) => !lines.includes(trailer));
+  if (added.length === 0) {
+    return body;
+  }
+  const lastParagraph = body.split(/\n\s*\n/).pop() ?? "";
+  const endsWithTrailers = body.includes("\n") && lastParagraph.split("\n").every((line) => /^[\w-]+: /.test(line));
+  return `${body}${endsWithTrailers ? "\n" : "\n\n"}${added.join("\n")}`;
+}
@@ -0,0 +1,227 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "fs";
+import { dirname, resolve } from "path";
+import type { PoolLimits } from "./agent-pool";
+import type { RateLimits } from "./rate-limit";
+import type { SpendCeilings } from "./budget-tracker";
+import { MERGE_MODES, type MergeMode } from "./worktree-manager";
+import type { TaskTier } from "./types";
+
+const TIERS: TaskTier[] = ["trivial-simple", "trivial-code", "light", "standard", "complex", "deep"];
+
+/** How merge_agent lands an agent's work, and the commit message it writes */
+export interface MergeSettings {
+  mode: MergeMode;
+  /** Message for squash and merge-commit merges; see CommitMessageVars for placeholders */
+  messageTemplate: string;
+  /** Trailer lines appended to the message, e.g. "Sirdar-Task: {{taskId}}" */
+  trailers: string[];
+  /** Commands run in the worktree before merging, e.g. "npm test"; any failure blocks the merge */
+  verify: string[];
+  /** Follow-up prompts sent to the agent to fix a failed verification before giving up */
+  autoFixAttempts: number;
+}
+
+/** Cleanup of stale agent worktrees and branches at session start */
+export interface PruneSettings {
+  /** Prune items at least this many hours old; unset turns automatic pruning off */
+  autoAfterHours?: number;
+  /** Also prune completed agents that were never merged */
+  includeUnmerged: boolean;
+}
+
+export interface OrchestratorConfig {
+  pool: PoolLimits;
+  /** Per-provider requests/tokens per minute the pool stays under when starting agents */
+  rateLimits: RateLimits;
+  /** Overall session/daily/monthly spend caps checked before each spawn */
+  spendCeilings: SpendCeilings;
+  /** Merge defaults, with per-repo overrides keyed by absolute repo path */
+  merge: MergeSettings & { repos: Record<string, Partial<MergeSettings>> };
+  /** Automatic pruning of stale agent worktrees and branches */
+  prune: PruneSettings;
+}
+
+export const DEFAULT_CONFIG: OrchestratorConfig = {
+  pool: {
+    maxConcurrent: 3,
+    tierLimits: {},
+  },
+  rateLimits: {},
+  spendCeilings: { onExceed: "refuse" },
+  merge: {
+    mode: "rebase",
+    messageTemplate: "{{description}}\n\n{{summary}}",
+    trailers: ["Sirdar-Task: {{taskId}}"],
+    verify: [],
+    autoFixAttempts: 0,
+    repos: {},
+  },
+  prune: { includeUnmerged: false },
+};
+
+/**
+ * Persists user-editable orchestrator settings (pool, rate and spend limits, merge and prune settings) as JSON.
+ * Missing or invalid values fall back to DEFAULT_CONFIG, so a hand-edited
+ * file can never stop the extension from starting.
+ */
+export class ConfigStore {
+  private config: OrchestratorConfig = cloneConfig(DEFAULT_CONFIG);
+
+  constructor(private persistPath: string) {}
+
+  /**
+   * Get the current configuration.
+   * @returns A copy, so callers can't mutate the store
+   */
+  get(): OrchestratorConfig {
+    return cloneConfig(this.config);
+  }
+
+  /**
+   * Replace the pool limits and persist to disk.
+   * @param limits - The limits to use for future sessions
+   */
+  setPoolLimits(limits: PoolLimits): void {
+    this.config.pool = { maxConcurrent: limits.maxConcurrent, tierLimits: { ...limits.tierLimits } };
+    this.save();
+  }
+
+  /**
+   * Merge settings for a repo: its overrides on top of the defaults
+   */
+  getMergeSettings(repoPath: string): MergeSettings {
+    const { repos, ...defaults } = this.config.merge;
+    const override = repos[resolve(repoPath)] ?? {};
+    return {
+      mode: override.mode ?? defaults.mode,
+      messageTemplate: override.messageTemplate ?? defaults.messageTemplate,
+      trailers: [...(override.trailers ?? defaults.trailers)],
+      verify: [...(override.verify ?? defaults.verify)],
+      autoFixAttempts: override.autoFixAttempts ?? defaults.autoFixAttempts,
+    };
+  }
+
+  /**
+   * Serialize and persist the configuration to disk synchronously.
+   * Creates the directory structure if needed and fails silently on errors.
+   */
+  save(): void {
+    try {
+      const dir = dirname(this.persistPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      writeFileSync(this.persistPath, JSON.stringify(this.config, null, 2), "utf-8");
+    } catch (error) {
+      // Never crash - the limits still apply for this session
+    }
+  }
+
+  /**
+   * Load the configuration from disk, keeping defaults for anything
+   * missing or invalid.
+   */
+  load(): void {
+    this.config = cloneConfig(DEFAULT_CONFIG);
+    try {
+      if (!existsSync(this.persistPath)) {
+        return;
+      }
+
+      const data = JSON.parse(readFileSync(this.persistPath, "utf-8"));
+      const pool = data?.pool ?? {};
+
+      if (Number.isInteger(pool.maxConcurrent) && pool.maxConcurrent >= 1) {
+        this.config.pool.maxConcurrent = pool.maxConcurrent;
+      }
+      for (const tier of TIERS) {
+        const limit = pool.tierLimits?.[tier];
+        if (Number.isInteger(limit) && limit >= 0) {
+          this.config.pool.tierLimits[tier] = limit;
+        }
+      }
+
+      for (const [provider, limit] of Object.entries<any>(data?.rateLimits ?? {})) {
+        const rpm = limit?.requestsPerMinute;
+        const tpm = limit?.tokensPerMinute;
+        const valid = {
+          requestsPerMinute: Number.isInteger(rpm) && rpm > 0 ? rpm : undefined,
+          tokensPerMinute: Number.isInteger(tpm) && tpm > 0 ? tpm : undefined,
+        };
+        if (valid.requestsPerMinute !== undefined || valid.tokensPerMinute !== undefined) {
+          this.config.rateLimits[provider] = valid;
+        }
+      }
+
+      const ceilings = data?.spendCeilings ?? {};
+      for (const period of ["session", "daily", "monthly"] as const) {
+        const limit = ceilings[period];
+        if (typeof limit === "number" && Number.isFinite(limit) && limit >= 0) {
+          this.config.spendCeilings[period] = limit;
+        }
+      }
+      if (ceilings.onExceed === "ask" || ceilings.onExceed === "refuse") {
+        this.config.spendCeilings.onExceed = ceilings.onExceed;
+      }
+
+      const merge = data?.merge ?? {};
+      Object.assign(this.config.merge, parseMergeSettings(merge));
+      for (const [repoPath, settings] of Object.entries<any>(merge.repos ?? {})) {
+        this.config.merge.repos[resolve(repoPath)] = parseMergeSettings(settings ?? {});
+      }
+
+      const prune = data?.prune ?? {};
+      if (typeof prune.autoAfterHours === "number" && Number.isFinite(prune.autoAfterHours) && prune.autoAfterHours >= 0) {
+        this.config.prune.autoAfterHours = prune.autoAfterHours;
+      }
+      if (typeof prune.includeUnmerged === "boolean") {
+        this.config.prune.includeUnmerged = prune.includeUnmerged;
+      }
+    } catch (error) {
+      // Corrupt file or parse error - keep defaults
+      this.config = cloneConfig(DEFAULT_CONFIG);
+    }
+  }
+}
+
+function cloneConfig(config: OrchestratorConfig): OrchestratorConfig {
+  return {
+    pool: { maxConcurrent: config.pool.maxConcurrent, tierLimits: { ...config.pool.tierLimits } },
+    rateLimits: Object.fromEntries(
+      Object.entries(config.rateLimits).map(([provider, limit]) => [provider, { ...limit }])
+    ),
+    spendCeilings: { ...config.spendCeilings },
+    merge: {
+      ...config.merge,
+      trailers: [...config.merge.trailers],
+      verify: [...config.merge.verify],
+      repos: Object.fromEntries(
+        Object.entries(config.merge.repos).map(([repoPath, settings]) => [repoPath, { ...settings }])
+      ),
+    },
+    prune: { ...config.prune },
+  };
+}
+
+/**
+ * The valid merge settings in a parsed config object, skipping the rest
+ */
+function parseMergeSettings(data: any): Partial<MergeSettings> {
+  const settings: Partial<MergeSettings> = {};
+  if (MERGE_MODES.includes(data.mode)) {
+    settings.mode = data.mode;
+  }
+  if (typeof data.messageTemplate === "string" && data.messageTemplate.trim().length > 0) {
+    settings.messageTemplate = data.messageTemplate;
+  }
+  if (Array.isArray(data.trailers) && data.trailers.every((trailer: unknown) => typeof trailer === "string")) {
+    settings.trailers = data.trailers;
+  }
+  if (Array.isArray(data.verify) && data.verify.every((command: unknown) => typeof command === "string" && command.trim().length > 0)) {
+    settings.verify = data.verify;
+  }
+  if (Number.isInteger(data.autoFixAttempts) && data.autoFixAttempts >= 0) {
+    settings.autoFixAttempts = data.autoFixAttempts;
+  }
+  return settings;
+}
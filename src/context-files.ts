@@ -0,0 +1,125 @@
+/**
+ * Context files - Preload files the orchestrator already knows matter
+ * into a subagent's initial prompt
+ */
+
+import { readFile } from "fs/promises";
+import { existsSync, realpathSync, statSync } from "fs";
+import { isAbsolute, resolve, relative, sep } from "path";
+
+export const MAX_CONTEXT_FILE_BYTES = 32 * 1024;   // per file, larger files are truncated
+export const MAX_CONTEXT_TOTAL_BYTES = 128 * 1024;  // across all files, the rest are omitted
+
+export interface ContextFile {
+  path: string;          // as given, relative to the working directory
+  content: string;
+  truncated: boolean;
+}
+
+export interface LoadedContext {
+  files: ContextFile[];
+  omitted: string[];     // paths dropped because the total size limit was reached
+}
+
+/**
+ * Resolve context file paths against the working directory.
+ * Throws a single error naming every path that leads outside it (through
+ * "..", an absolute path or a symlink), or else every path that is missing
+ * or not a file.
+ *
+ * @param paths - File paths relative to cwd (absolute paths inside it are allowed)
+ * @param cwd - The subagent's working directory (usually its worktree)
+ * @returns Absolute paths in the same order
+ */
+export function resolveContextFiles(paths: string[], cwd: string): string[] {
+  const resolved = paths.map(p => resolve(cwd, p));
+  const realCwd = existsSync(cwd) ? realpathSync(cwd) : resolve(cwd);
+  const outside = paths.filter((_, i) =>
+    !isInside(resolve(cwd), resolved[i]) ||
+    (existsSync(resolved[i]) && !isInside(realCwd, realpathSync(resolved[i])))
+  );
+  if (outside.length > 0) {
+    throw new Error(`Context files must be inside ${cwd}: ${outside.join(", ")}`);
+  }
+
+  const problems: string[] = [];
+
+  resolved.forEach((absolute, i) => {
+    if (!existsSync(absolute)) {
+      problems.push(`${paths[i]} (not found at ${absolute})`);
+    } else if (!statSync(absolute).isFile()) {
+      problems.push(`${paths[i]} (not a file)`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Context files unavailable in ${cwd}: ${problems.join(", ")}. ` +
+      `Worktrees are created from the last commit, so uncommitted files are not present.`
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Whether a path is dir itself or somewhere below it
+ */
+function isInside(dir: string, path: string): boolean {
+  const rel = relative(dir, path);
+  return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Read context files, applying the per-file and total size limits
+ */
+export async function loadContextFiles(paths: string[], cwd: string): Promise<LoadedContext> {
+  const resolved = resolveContextFiles(paths, cwd);
+  const files: ContextFile[] = [];
+  const omitted: string[] = [];
+  let totalBytes = 0;
+
+  for (const absolute of resolved) {
+    const displayPath = relative(cwd, absolute) || absolute;
+
+    if (totalBytes >= MAX_CONTEXT_TOTAL_BYTES) {
+      omitted.push(displayPath);
+      continue;
+    }
+
+    const buffer = await readFile(absolute);
+    const limit = Math.min(MAX_CONTEXT_FILE_BYTES, MAX_CONTEXT_TOTAL_BYTES - totalBytes);
+    const truncated = buffer.length > limit;
+    const content = buffer.subarray(0, limit).toString("utf-8");
+
+    totalBytes += Math.min(buffer.length, limit);
+    files.push({ path: displayPath, content, truncated });
+  }
+
+  return { files, omitted };
+}
+
+/**
+ * Format loaded context files as a preamble for the task prompt
+ */
+export function formatContextFiles(context: LoadedContext): string {
+  if (context.files.length === 0 && context.omitted.length === 0) {
+    return "";
+  }
+
+  let text = "The following files are relevant to this task and have been preloaded for you:\n\n";
+
+  for (const file of context.files) {
+    text += `<file path="${file.path}"${file.truncated ? ' truncated="true"' : ""}>\n`;
+    text += file.content;
+    if (!file.content.endsWith("\n")) text += "\n";
+    if (file.truncated) text += "[... truncated, read the file for the rest]\n";
+    text += "</file>\n\n";
+  }
+
+  if (context.omitted.length > 0) {
+    text += `Also relevant, but not preloaded (size limit reached): ${context.omitted.join(", ")}\n\n`;
+  }
+
+  return text;
+}
@@ -1,9 +1,10 @@
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { createAgentSession, highlightCode, getLanguageFromPath } from "@mariozechner/pi-coding-agent";
-import { Type } from "@sinclair/typebox";
+import { Type, type Static } from "@sinclair/typebox";
 import { StringEnum } from "@mariozechner/pi-ai";
 import { Text, matchesKey, Key, truncateToWidth } from "@mariozechner/pi-tui";
-import { join } from "path";
+import { join, resolve } from "path";
+import { existsSync } from "fs";
 import { homedir } from "os";
 import { DiffState, DiffReviewModal, createOverlayHandler, createPickerHandler } from "pi-diff-ui";
 import type { PickerItem, PickerCallbacks } from "pi-diff-ui";
@@ -12,12 +13,25 @@ import { BudgetTracker } from "./budget-tracker.js";
 import { AgentMetadataStore } from "./agent-metadata-store.js";
 import { MemoryLogger } from "./memory-logger.js";
 import { LifecycleManager } from "./lifecycle-manager.js";
-import { AgentPool, type AgentInfo } from "./agent-pool.js";
+import { AgentPool, type AgentInfo, type PoolLimits } from "./agent-pool.js";
+import { ConfigStore } from "./config-store.js";
+import { PoolStateStore } from "./pool-state-store.js";
 import { getAgentStatusText } from "./status-text.js";
-import { WorktreeManager, type WorktreeInfo } from "./worktree-manager.js";
+import { WorktreeManager, CONFLICT_STRATEGIES, MERGE_MODES, validateBranchName, validateRevision, validateTaskId, type ExecFunction, type MergeMode, type VerificationResult, type WorktreeInfo, type ConflictStrategy, type ConflictResolver, type FileResolution } from "./worktree-manager.js";
 import { selectModel } from "./model-selector.js";
 import { parseGitDiffStat } from "./git-diff-parser.js";
-import type { TaskDefinition, TaskTier } from "./types.js";
+import { resolveContextFiles } from "./context-files.js";
+import { formatAgentReport } from "./agent-report.js";
+import { TranscriptStore, paginateTranscript, formatTranscriptPage, DEFAULT_TRANSCRIPT_PAGE_SIZE } from "./transcript-store.js";
+import { TranscriptViewer } from "./transcript-viewer.js";
+import { summarizeBatch, formatBatchSummary, formatBatchTable, type BatchItem } from "./batch.js";
+import { renderTemplate } from "./template.js";
+import { PI_EVENT_PREFIX } from "./agent-events.js";
+import { buildCommitMessage, renderTrailers, type CommitMessageVars } from "./commit-message.js";
+import { findStaleAgents, formatStaleAgents, formatBytes, type PruneCriteria, type StaleAgent } from "./prune.js";
+import { isTerminal, getWaitCadence, formatDuration, formatEta, formatWaitProgress, formatOutcomeTable, type OutcomeRow } from "./wait.js";
+import type { GitDiffStats } from "./git-diff-parser.js";
+import type { TaskDefinition, TaskTier, TaskPriority, ModelSelection } from "./types.js";
 
 /**
  * Details returned by review_agent tool
@@ -57,7 +71,7 @@ export default function orchestrator(pi: ExtensionAPI) {
     const running = agentPool?.runningCount() ?? 0;
     const queued = agentPool?.queuedCount() ?? 0;
     const reviewCount = metadataStore?.getCompleted().length ?? 0;
-    return getAgentStatusText(running, queued, reviewCount);
+    return getAgentStatusText(running, queued, reviewCount, budgetTracker.getHeadroom());
   }
 
   /**
@@ -92,6 +106,55 @@ export default function orchestrator(pi: ExtensionAPI) {
     uiContext.ui.setWidget("agent-output", widgetLines);
   }
 
+  /**
+   * Pool limits as shown by set_pool_limits
+   */
+  function formatPoolLimits(limits: PoolLimits): string {
+    const tierCaps = Object.entries(limits.tierLimits)
+      .map(([tier, limit]) => `${tier}: ${limit}`)
+      .join(", ");
+    return `Max concurrent: ${limits.maxConcurrent}\nTier caps: ${tierCaps || "none"}`;
+  }
+
+  /**
+   * Send one wake message for a batch once every agent in it is done
+   */
+  function wakeIfBatchDone(batchId: string) {
+    if (!agentPool || settledBatches.has(batchId) || spawningBatches.has(batchId)) return;
+    const agents = agentPool.getBatch(batchId);
+    const summary = summarizeBatch(batchId, agents);
+    if (!summary.done) return;
+    settledBatches.add(batchId);
+    // A wait_for_agents call on the whole batch reports it instead
+    if (agents.every(a => awaitedTasks.has(a.taskId))) return;
+    
+    pi.sendMessage({
+      customType: "orchestrator-batch-complete",
+      content: `Batch finished: ${formatBatchSummary(summary)}\n${formatBatchTable(agents)}\n\nUse merge_batch to merge the completed agents, or discard_batch to throw the batch away.`,
+      display: false,
+    }, {
+      triggerTurn: true,
+      deliverAs: "followUp",
+    });
+  }
+
+  /**
+   * " (attempt N)" for continued agents, empty for first runs
+   */
+  function attemptSuffix(info: AgentInfo): string {
+    return info.attempt > 1 ? ` (attempt ${info.attempt})` : "";
+  }
+
+  /**
+   * One line per finished attempt, for agents that ran more than once
+   */
+  function formatAttempts(info: AgentInfo, indent = ""): string {
+    if (info.attempts.length < 2) return "";
+    return info.attempts
+      .map(a => `${indent}#${a.attempt} ${a.tier}: ${a.outcome} ($${a.costEstimate.toFixed(2)}, ${(a.durationMs / 1000).toFixed(1)}s)${a.error ? ` — ${a.error}` : ""}\n`)
+      .join("");
+  }
+
   /**
    * Clear the agent output widget
    */
@@ -106,16 +169,29 @@ export default function orchestrator(pi: ExtensionAPI) {
   
   const budgetTracker = new BudgetTracker(dataDir);
   const memoryLogger = new MemoryLogger(logDir);
+  const transcriptStore = new TranscriptStore(join(dataDir, "transcripts"));
+  const configStore = new ConfigStore(join(dataDir, "config.json"));
+  const poolStateStore = new PoolStateStore(join(dataDir, "pool-state.json"));
   
   // Mutable references for components that need runtime deps
   let lifecycleManager: LifecycleManager | null = null;
   let agentPool: AgentPool | null = null;
   let worktreeManager: WorktreeManager | null = null;
-  let uiContext: { ui: any } | null = null;
+  let uiContext: { ui: any; hasUI: boolean } | null = null;
   let metadataStore: AgentMetadataStore | null = null;
   
   // Track worktree info per taskId for merge/review operations
   const worktreeMap: Map<string, WorktreeInfo> = new Map();
+  // Whether blocked agents should get a worktree once unblocked, and its base, kept so restarts can recreate their setup
+  const deferredWorktrees: Map<string, { useWorktree: boolean; baseRef?: string }> = new Map();
+  // Spawns between picking a task ID and the pool accepting the task
+  const pendingSpawns: Set<string> = new Set();
+  // Suppresses saves while the pool is rebuilt from the saved state
+  let restoringPool = false;
+  // Batches whose completion has been reported (or that were discarded)
+  const settledBatches: Set<string> = new Set();
+  // Agents a wait_for_agents call is blocking on (count of calls), reported by the tool instead of a wake
+  const awaitedTasks: Map<string, number> = new Map();
 
   // Widget state for live output
   let currentAgentId: string | null = null;
@@ -123,91 +199,365 @@ export default function orchestrator(pi: ExtensionAPI) {
   let currentAgentDescription: string | null = null;
   let outputBuffer: string[] = [];
 
+  /**
+   * Persist the pool's unfinished tasks with their worktrees
+   */
+  function savePoolState() {
+    if (!agentPool || restoringPool) return;
+    poolStateStore.save(agentPool.getSnapshot().map(entry => ({
+      ...entry,
+      worktree: worktreeMap.get(entry.task.id),
+      useWorktree: deferredWorktrees.get(entry.task.id)?.useWorktree,
+      baseRef: deferredWorktrees.get(entry.task.id)?.baseRef,
+    })));
+  }
+
+  /**
+   * Build the prepare hook that creates a dependent agent's worktree once its
+   * dependencies are done. Branches from the first dependency's branch and
+   * merges the others in; merged dependencies have no branch left, their
+   * work is already on the base (baseRef, or HEAD).
+   */
+  function createDependentPreparer(
+    taskId: string,
+    repoCwd: string | undefined,
+    useWorktree: boolean,
+    dependsOn: string[],
+    baseRef?: string
+  ): (blockedTask: TaskDefinition) => Promise<TaskDefinition> {
+    return async (blockedTask) => {
+      const prepared = { ...blockedTask };
+      deferredWorktrees.delete(taskId);
+      
+      if (useWorktree && repoCwd && worktreeManager && await worktreeManager.isGitRepo(repoCwd)) {
+        const branches = dependsOn
+          .map(id => worktreeMap.get(id)?.branchName)
+          .filter((branch): branch is string => branch !== undefined);
+        
+        // Diffs start at the dependency's work, but the merge still lands on baseRef
+        const worktreeInfo: WorktreeInfo = {
+          ...(await worktreeManager.createWorktree(taskId, repoCwd, undefined, branches[0] ?? baseRef)),
+          baseRef,
+        };
+        worktreeMap.set(taskId, worktreeInfo);
+        
+        for (const branch of branches.slice(1)) {
+          const merge = await worktreeManager.mergeBranchInto(worktreeInfo, branch);
+          if (!merge.success) {
+            await worktreeManager.cleanup(worktreeInfo);
+            worktreeMap.delete(taskId);
+            throw new Error(
+              `Could not combine dependency branches: merging ${branch} conflicts in ${merge.conflictFiles?.join(", ") || "unknown files"}`
+            );
+          }
+        }
+        prepared.cwd = worktreeInfo.worktreePath;
+      }
+      
+      if (prepared.contextFiles && prepared.contextFiles.length > 0) {
+        resolveContextFiles(prepared.contextFiles, prepared.cwd || process.cwd());
+      }
+      return prepared;
+    };
+  }
+
+  /**
+   * Build the discard hook that removes the worktree a dependent agent's
+   * prepare hook created, for an agent cancelled while it was being created
+   */
+  function createDependentDiscarder(taskId: string): () => Promise<void> {
+    return async () => {
+      const worktreeInfo = worktreeMap.get(taskId);
+      if (!worktreeInfo || !worktreeManager) return;
+      try {
+        await worktreeManager.cleanup(worktreeInfo);
+        worktreeMap.delete(taskId);
+        savePoolState();
+      } catch (error) {
+        if (uiContext?.ui) {
+          uiContext.ui.notify(
+            `Could not remove the worktree of cancelled agent ${taskId}: ${error instanceof Error ? error.message : String(error)}`,
+            "error"
+          );
+        }
+      }
+    };
+  }
+
   // ============================================================================
   // 2. Register spawn_agent tool
   // ============================================================================
   
+  const spawnParameters = Type.Object({
+    description: Type.String({ description: "Human-readable description of the task" }),
+    prompt: Type.String({ description: "Full prompt to send to the subagent" }),
+    tier: StringEnum(
+      ["trivial-simple", "trivial-code", "light", "standard", "complex", "deep"] as const,
+      { description: "Task complexity tier — determines model and budget" }
+    ),
+    cwd: Type.Optional(Type.String({ 
+      description: "Working directory. If in a git repo, a worktree will be created for isolation." 
+    })),
+    useWorktree: Type.Optional(Type.Boolean({ 
+      description: "Whether to use git worktree isolation. Default true for code tasks." 
+    })),
+    baseRef: Type.Optional(Type.String({
+      description: "Branch, tag or commit to create the worktree from. Default: the repo's current HEAD. Review diffs are taken against it, and merges land on it when it is a branch (otherwise on the default branch)."
+    })),
+    timeoutMs: Type.Optional(Type.Number({ description: "Timeout in seconds (optional, no default timeout)" })),
+    contextFiles: Type.Optional(Type.Array(Type.String(), {
+      description: "Files to preload into the subagent's context, relative to its working directory (the worktree when one is used) and inside it"
+    })),
+    inTurn: Type.Optional(Type.Boolean({
+      description: "Tie the agent's lifetime to the current turn: interrupting the orchestrator cancels it. Default false (agent keeps running in the background)."
+    })),
+    retry: Type.Optional(Type.Object({
+      maxAttempts: Type.Number({ description: "Maximum runs including the first" }),
+      escalate: Type.Optional(Type.Boolean({ description: "Move to the next tier on each retry. Default false." })),
+      retryOn: Type.Optional(Type.Array(
+        StringEnum(["failed", "timeout", "budget-exceeded"] as const),
+        { description: "Failure outcomes to retry. Default [\"failed\", \"timeout\"]." }
+      )),
+    }, { description: "Retry automatically on failure. Retries run in the same worktree, building on what earlier attempts left there. The parent is only woken on final success or once attempts are exhausted." })),
+    priority: Type.Optional(StringEnum(
+      ["low", "normal", "high", "urgent"] as const,
+      { description: "Queue priority when the pool is full. Default normal. Waiting tasks gain priority over time." }
+    )),
+    dependsOn: Type.Optional(Type.Array(Type.String(), {
+      description: "Task IDs that must complete before this agent starts. Its worktree is branched from the dependencies' branches. If a dependency fails or is cancelled, this agent fails too."
+    })),
+    resources: Type.Optional(Type.Array(Type.String(), {
+      description: "Resources this agent will touch: paths or globs (e.g. \"src/api/**\"), relative to cwd, or the repo path itself. Agents with overlapping resources never run at the same time; the later one waits in the queue."
+    })),
+    waitForMerge: Type.Optional(Type.Boolean({
+      description: "With dependsOn: also wait until the dependencies are merged, and branch from the merged result. Default false."
+    })),
+  });
+  
+  type SpawnRequest = Static<typeof spawnParameters> & { batchId?: string };
+  
+  interface SpawnedAgent {
+    taskId: string;
+    agentInfo: AgentInfo;
+    modelSelection: ModelSelection;
+  }
+  
+  const SPAWN_ABORTED = "Spawn aborted before the agent was submitted";
+  
+  /**
+   * Refuse work whose expected cost would cross a spend ceiling, unless
+   * the ceilings are set to ask and the user approves it
+   * @param action - What is about to run, e.g. "Spawning" or "Retrying"
+   */
+  async function checkSpendCeilings(task: TaskDefinition, expectedCost: number, action: string): Promise<void> {
+    const exceeded = budgetTracker.checkCeilings(expectedCost);
+    if (exceeded.length === 0) return;
+    
+    const details = exceeded
+      .map(c => `${c.period} ceiling $${c.limit.toFixed(2)}: $${Math.max(0, c.remaining).toFixed(2)} left`)
+      .join(", ");
+    const message = `${action} "${task.description}" (expected ~$${expectedCost.toFixed(2)} for ${task.tier}) would exceed the ${details}`;
+    
+    if (budgetTracker.getCeilings().onExceed === "ask" && uiContext?.hasUI) {
+      const approved = await uiContext.ui.confirm("💸 Spend ceiling reached", `${message}\n\nRun it anyway?`);
+      if (approved) return;
+      throw new Error(`${message}. The user declined to run it.`);
+    }
+    throw new Error(`${message}. Refused; raise spendCeilings in config.json to allow more spend.`);
+  }
+  
+  /**
+   * Check a task against the spend ceilings and hold its tier's expected
+   * cost until its spend is recorded, so work started in quick succession
+   * can't all squeeze under the same headroom. Every way work enters the
+   * pool goes through here: spawns, retries, continuations, recoveries and
+   * conflict resolvers. The reservation is dropped if start throws.
+   */
+  async function admitSpend<T>(task: TaskDefinition, action: string, start: () => T | Promise<T>): Promise<T> {
+    const reservation = budgetTracker.getExpectedCost(task.tier);
+    await checkSpendCeilings(task, reservation, action);
+    budgetTracker.reserve(task.id, reservation);
+    try {
+      return await start();
+    } catch (error) {
+      budgetTracker.release(task.id);
+      throw error;
+    }
+  }
+  
+  /**
+   * Create the worktree for a task and submit it to the pool.
+   * Shared by spawn_agent and spawn_agents. Throws if the spawn is aborted,
+   * context files are missing or the pool rejects the task; any worktree
+   * created for it is removed first.
+   */
+  async function spawnTask(
+    params: SpawnRequest,
+    signal: AbortSignal | undefined,
+    onUpdate?: (text: string) => void
+  ): Promise<SpawnedAgent> {
+    if (signal?.aborted) {
+      throw new Error(SPAWN_ABORTED);
+    }
+    
+    // Generate task ID
+    const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    
+    // Until the pool knows the task, its worktree must not look orphaned to pruning
+    pendingSpawns.add(taskId);
+    try {
+      return await submitSpawn(taskId, params, signal, onUpdate);
+    } finally {
+      pendingSpawns.delete(taskId);
+    }
+  }
+  
+  async function submitSpawn(
+    taskId: string,
+    params: SpawnRequest,
+    signal: AbortSignal | undefined,
+    onUpdate?: (text: string) => void
+  ): Promise<SpawnedAgent> {
+    // Build TaskDefinition
+    const task: TaskDefinition = {
+      id: taskId,
+      prompt: params.prompt,
+      tier: params.tier as TaskTier,
+      description: params.description,
+      cwd: params.cwd,
+      contextFiles: params.contextFiles,
+      timeoutMs: params.timeoutMs ? params.timeoutMs * 1000 : undefined,
+      retry: params.retry,
+      priority: params.priority as TaskPriority | undefined,
+      dependsOn: params.dependsOn,
+      waitForMerge: params.waitForMerge,
+      // Resolved against the repo, not the worktree, so agents on the same repo contend
+      resources: params.resources?.map(key => resolve(params.cwd ?? process.cwd(), key)),
+      batchId: params.batchId,
+    };
+    
+    // Dependent agents get their worktree once unblocked, from the dependencies' work
+    const dependsOn = params.dependsOn ?? [];
+    const deferWorktree = dependsOn.length > 0;
+    
+    // Get model selection
+    const modelSelection = selectModel(params.tier as TaskTier);
+    
+    // Held from now on; released below if the spawn never reaches the pool
+    await admitSpend(task, "Spawning", () => undefined);
+    
+    onUpdate?.(`✅ Spawning ${params.tier} task — model: ${modelSelection.modelId}, thinking: ${modelSelection.thinkingLevel}`);
+    
+    // Check if we should use worktree
+    const shouldUseWorktree = params.useWorktree ?? true;
+    if (shouldUseWorktree && params.cwd && worktreeManager && !deferWorktree) {
+      try {
+        const isRepo = await worktreeManager.isGitRepo(params.cwd);
+        if (isRepo) {
+          onUpdate?.(`📁 Creating git worktree for isolation...`);
+          const worktreeInfo = await worktreeManager.createWorktree(taskId, params.cwd, signal, params.baseRef);
+          task.cwd = worktreeInfo.worktreePath;
+          // Store worktree info for later merge/review
+          worktreeMap.set(taskId, worktreeInfo);
+          onUpdate?.(`📁 Worktree ready: ${worktreeInfo.worktreePath}`);
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          budgetTracker.release(taskId);
+          throw new Error(SPAWN_ABORTED);
+        }
+        // Working from the original checkout would silently ignore the requested base
+        if (params.baseRef) {
+          budgetTracker.release(taskId);
+          throw error;
+        }
+        onUpdate?.(`⚠️ Worktree creation failed, using original cwd`);
+        console.error("Worktree creation failed:", error);
+      }
+    }
+    
+    // Remove a worktree (and the reservation) for a spawn that never reached the pool
+    const discardWorktree = async () => {
+      budgetTracker.release(taskId);
+      const worktreeInfo = worktreeMap.get(taskId);
+      if (worktreeInfo && worktreeManager) {
+        await worktreeManager.cleanup(worktreeInfo);
+      }
+      worktreeMap.delete(taskId);
+    };
+    
+    // Fail fast on context files missing from the agent's working directory
+    if (task.contextFiles && task.contextFiles.length > 0 && !deferWorktree) {
+      try {
+        resolveContextFiles(task.contextFiles, task.cwd || process.cwd());
+      } catch (error) {
+        await discardWorktree();
+        throw error;
+      }
+    }
+    
+    // Submit to AgentPool
+    if (!agentPool) {
+      await discardWorktree();
+      throw new Error("Agent pool not initialized");
+    }
+    
+    onUpdate?.(`🚀 Submitting to agent pool...`);
+    if (deferWorktree) {
+      deferredWorktrees.set(taskId, { useWorktree: shouldUseWorktree, baseRef: params.baseRef });
+    }
+    let agentInfo: AgentInfo;
+    try {
+      agentInfo = await agentPool.submit(task, {
+        signal,
+        cancelOnAbort: params.inTurn ?? false,
+        prepare: deferWorktree ? createDependentPreparer(taskId, params.cwd, shouldUseWorktree, dependsOn, params.baseRef) : undefined,
+        discard: deferWorktree ? createDependentDiscarder(taskId) : undefined,
+      });
+    } catch (error) {
+      deferredWorktrees.delete(taskId);
+      await discardWorktree();
+      if (signal?.aborted) {
+        throw new Error(SPAWN_ABORTED);
+      }
+      throw error;
+    }
+    
+    // Update status if UI is available
+    if (uiContext?.ui) {
+      const status = getStatus();
+      uiContext.ui.setStatus("orchestrator", status);
+    }
+    
+    return { taskId, agentInfo, modelSelection };
+  }
+  
   pi.registerTool({
     name: "spawn_agent",
     label: "Spawn Agent",
     description: "Create and spawn a new sub-agent with specific capabilities and budget",
-    parameters: Type.Object({
-      description: Type.String({ description: "Human-readable description of the task" }),
-      prompt: Type.String({ description: "Full prompt to send to the subagent" }),
-      tier: StringEnum(
-        ["trivial-simple", "trivial-code", "light", "standard", "complex", "deep"] as const,
-        { description: "Task complexity tier — determines model and budget" }
-      ),
-      cwd: Type.Optional(Type.String({ 
-        description: "Working directory. If in a git repo, a worktree will be created for isolation." 
-      })),
-      useWorktree: Type.Optional(Type.Boolean({ 
-        description: "Whether to use git worktree isolation. Default true for code tasks." 
-      })),
-      timeoutMs: Type.Optional(Type.Number({ description: "Timeout in seconds (optional, no default timeout)" })),
-    }),
+    parameters: spawnParameters,
     async execute(toolCallId, params, signal, onUpdate, ctx) {
-      // Generate task ID
-      const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-      
-      // Build TaskDefinition
-      const task: TaskDefinition = {
-        id: taskId,
-        prompt: params.prompt,
-        tier: params.tier as TaskTier,
-        description: params.description,
-        cwd: params.cwd,
-        timeoutMs: params.timeoutMs ? params.timeoutMs * 1000 : undefined,
-      };
-      
-      // Get model selection
-      const modelSelection = selectModel(params.tier as TaskTier);
-      
-      onUpdate?.({ content: [{ type: "text", text: `✅ Spawning ${params.tier} task — model: ${modelSelection.modelId}, thinking: ${modelSelection.thinkingLevel}` }], details: undefined });
-      
-      // Check if we should use worktree
-      const shouldUseWorktree = params.useWorktree ?? true;
-      if (shouldUseWorktree && params.cwd && worktreeManager) {
-        try {
-          const isRepo = await worktreeManager.isGitRepo(params.cwd);
-          if (isRepo) {
-            onUpdate?.({ content: [{ type: "text", text: `📁 Creating git worktree for isolation...` }], details: undefined });
-            const worktreeInfo = await worktreeManager.createWorktree(taskId, params.cwd);
-            task.cwd = worktreeInfo.worktreePath;
-            // Store worktree info for later merge/review
-            worktreeMap.set(taskId, worktreeInfo);
-            onUpdate?.({ content: [{ type: "text", text: `📁 Worktree ready: ${worktreeInfo.worktreePath}` }], details: undefined });
-          }
-        } catch (error) {
-          onUpdate?.({ content: [{ type: "text", text: `⚠️ Worktree creation failed, using original cwd` }], details: undefined });
-          console.error("Worktree creation failed:", error);
-        }
-      }
-      
-      // Submit to AgentPool
-      if (!agentPool) {
+      let spawned: SpawnedAgent;
+      try {
+        spawned = await spawnTask(params, signal, (text) => onUpdate?.({ content: [{ type: "text", text }], details: undefined }));
+      } catch (error) {
         return {
-          content: [{ type: "text", text: "Agent pool not initialized" }],
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
           details: undefined,
           isError: true,
         };
       }
-      
-      onUpdate?.({ content: [{ type: "text", text: `🚀 Submitting to agent pool...` }], details: undefined });
-      const agentInfo = await agentPool.submit(task);
-      
-      // Update status if UI is available
-      if (uiContext?.ui) {
-        const status = getStatus();
-        uiContext.ui.setStatus("orchestrator", status);
-      }
+      const { taskId, agentInfo, modelSelection } = spawned;
       
       // Return message
-      const message = `Agent spawned: ${taskId} — ${params.description} (model: ${modelSelection.modelId}, thinking: ${modelSelection.thinkingLevel})`;
+      const lifetime = params.inTurn ? "\nLifetime: tied to this turn (interrupting cancels it)" : "";
+      const blockers = agentInfo.status === "blocked" ? ` (waiting for ${agentPool!.getBlockers(taskId).join(", ")})` : "";
+      const message = `Agent spawned: ${taskId} — ${params.description} (model: ${modelSelection.modelId}, thinking: ${modelSelection.thinkingLevel})${lifetime}`;
       return {
         content: [{
           type: "text",
-          text: `${message}\nStatus: ${agentInfo.status}`,
+          text: `${message}\nStatus: ${agentInfo.status}${blockers}`,
         }],
         details: undefined,
       };
@@ -224,9 +574,10 @@ export default function orchestrator(pi: ExtensionAPI) {
     description: "List all active agents and their current status",
     parameters: Type.Object({
       status: Type.Optional(StringEnum(
-        ["running", "queued", "completed", "failed", "all"] as const,
+        ["running", "queued", "blocked", "interrupted", "completed", "failed", "cancelled", "all"] as const,
         { description: "Filter by status. Default: all" }
       )),
+      batchId: Type.Optional(Type.String({ description: "Only show agents from this spawn_agents batch" })),
     }),
     async execute(toolCallId, params, signal, onUpdate, ctx) {
       if (!agentPool) {
@@ -249,19 +600,30 @@ export default function orchestrator(pi: ExtensionAPI) {
       } else if (statusFilter === "completed") {
         agents = agentPool.getCompleted();
       } else {
-        // "failed"
-        agents = agentPool.getAll().filter(a => a.status === "failed");
+        // "blocked", "interrupted", "failed" or "cancelled"
+        agents = agentPool.getAll().filter(a => a.status === statusFilter);
+      }
+      if (params.batchId) {
+        agents = agents.filter(a => a.batchId === params.batchId);
       }
       
       if (agents.length === 0) {
         return {
-          content: [{ type: "text", text: `No ${statusFilter === "all" ? "" : statusFilter + " "}agents` }],
+          content: [{ type: "text", text: `No ${statusFilter === "all" ? "" : statusFilter + " "}agents${params.batchId ? ` in batch ${params.batchId}` : ""}` }],
           details: undefined,
         };
       }
       
-      // Format agents list
+      // Format agents list, with a status line for each batch they belong to
       let text = `Agents (${statusFilter}):\n\n`;
+      const batchIds = Array.from(new Set(agents.map(a => a.batchId).filter((id): id is string => id !== undefined)));
+      if (batchIds.length > 0) {
+        text += "Batches:\n";
+        for (const batchId of batchIds) {
+          text += `• ${formatBatchSummary(summarizeBatch(batchId, agentPool.getBatch(batchId)))}\n`;
+        }
+        text += "\n";
+      }
       for (const agent of agents) {
         const duration = agent.startTime && agent.endTime
           ? `${((agent.endTime - agent.startTime) / 1000).toFixed(1)}s`
@@ -270,15 +632,43 @@ export default function orchestrator(pi: ExtensionAPI) {
           : "not started";
         
         text += `• ${agent.taskId} [${agent.status}] — ${agent.description}\n`;
-        text += `  Tier: ${agent.tier}, Duration: ${duration}\n`;
+        if (agent.status === "queued") {
+          const position = agentPool.getQueuePosition(agent.taskId);
+          const priority = agentPool.getTask(agent.taskId)?.priority ?? "normal";
+          text += `  Queue position: ${position ?? "?"} of ${agentPool.queuedCount()}, Priority: ${priority}\n`;
+          const reason = agentPool.getWaitReason(agent.taskId);
+          if (reason) {
+            text += `  ${reason.charAt(0).toUpperCase()}${reason.slice(1)}\n`;
+          }
+        } else if (agent.status === "blocked") {
+          text += `  Waiting for: ${agentPool.getBlockers(agent.taskId).join(", ") || "worktree setup"}\n`;
+        } else if (agent.status === "interrupted") {
+          text += `  Interrupted by a restart. Use recover_agent to resume, retry or discard it\n`;
+        }
+        text += `  Tier: ${agent.tier}, Duration: ${duration}${agent.attempt > 1 ? `, Attempt: ${agent.attempt}` : ""}${agent.status === "running" ? `, ${formatEta(agent)}` : ""}\n`;
+        if (agent.batchId) {
+          text += `  Batch: ${agent.batchId}\n`;
+        }
+        const attempts = formatAttempts(agent, "    ");
+        if (attempts) {
+          text += `  Attempts:\n${attempts}`;
+        }
         
         if (agent.result) {
-          if (agent.result.success) {
+          const report = agent.result.report;
+          if (agent.result.success && !report) {
             const summary = agent.result.output.substring(0, 100);
             text += `  Result: ${summary}${agent.result.output.length > 100 ? "..." : ""}\n`;
-          } else {
+          } else if (!agent.result.success) {
             text += `  Error: ${agent.result.error || "Unknown error"}\n`;
           }
+          if (report) {
+            text += `  Summary: ${report.summary}\n`;
+            text += `  Confidence: ${report.confidence}, Files: ${report.filesTouched.length}, Tests: ${report.testsRun.length}\n`;
+            if (report.openQuestions.length > 0) {
+              text += `  Open questions: ${report.openQuestions.join("; ")}\n`;
+            }
+          }
         }
         
         text += "\n";
@@ -349,7 +739,7 @@ export default function orchestrator(pi: ExtensionAPI) {
   pi.registerTool({
     name: "review_agent",
     label: "Review Agent",
-    description: "Shows the git diff of a completed agent's worktree branch vs main",
+    description: "Shows the git diff of a completed agent's worktree branch vs the commit it was based on",
     parameters: Type.Object({
       taskId: Type.String({ description: "Task ID of the agent to review" }),
     }),
@@ -374,189 +764,1371 @@ export default function orchestrator(pi: ExtensionAPI) {
         };
       }
       
-      // Check if agent is still running or queued
-      if (agent.status === "running" || agent.status === "queued") {
-        return {
-          content: [{ type: "text", text: `Agent is still ${agent.status}, wait for completion` }],
-          details: undefined,
-        };
+      // Check if agent is still running, queued or blocked
+      if (agent.status === "running" || agent.status === "queued" || agent.status === "blocked") {
+        return {
+          content: [{ type: "text", text: `Agent is still ${agent.status}, wait for completion` }],
+          details: undefined,
+        };
+      }
+      
+      // Get worktree info
+      const worktreeInfo = worktreeMap.get(taskId);
+      if (!worktreeInfo || !worktreeManager) {
+        return {
+          content: [{ type: "text", text: `No worktree found for task: ${taskId}` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      const { branchName, repoPath } = worktreeInfo;
+      const base = await worktreeManager.getMergeBase(worktreeInfo);
+      
+      // Get changed files
+      const nameResult = await pi.exec("git", ["diff", `${base}..${branchName}`, "--name-only", "-z"], {
+        cwd: repoPath,
+      });
+      const changedFiles = nameResult.stdout.split("\0").filter((f) => f.length > 0);
+      
+      if (changedFiles.length === 0) {
+        return {
+          content: [{ type: "text", text: `No changes found for ${taskId}` }],
+          details: undefined,
+        };
+      }
+      
+      // Get stat for summary
+      const statResult = await pi.exec("git", ["diff", `${base}..${branchName}`, "--stat"], {
+        cwd: repoPath,
+      });
+      
+      // Build DiffState from git
+      const state = new DiffState();
+      for (const filePath of changedFiles) {
+        let original = "";
+        let current = "";
+        
+        // Try to get original (base) version
+        try {
+          const origResult = await pi.exec("git", ["show", `${base}:${filePath}`], {
+            cwd: repoPath,
+          });
+          original = origResult.stdout;
+        } catch {
+          // New file - original is empty
+        }
+        
+        // Try to get current (branch) version
+        try {
+          const curResult = await pi.exec("git", ["show", `${branchName}:${filePath}`], {
+            cwd: repoPath,
+          });
+          current = curResult.stdout;
+        } catch {
+          // Deleted file - current is empty
+        }
+        
+        state.trackFile(filePath, original, current);
+      }
+      
+      // Return text summary — use Ctrl+Shift+A to browse diffs interactively
+      const stats = parseGitDiffStat(statResult.stdout);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Reviewed ${changedFiles.length} files for ${taskId}\n\n${statResult.stdout}`,
+          },
+        ],
+        details: {
+          taskId,
+          stat: statResult.stdout,
+          diff: "",
+          fileCount: stats.fileCount,
+          insertions: stats.insertions,
+          deletions: stats.deletions,
+        },
+      };
+    },
+    renderResult(result, { expanded }, theme) {
+      const details = result.details as ReviewAgentDetails | undefined;
+      
+      if (!details) {
+        const text = result.content[0]?.type === "text" ? result.content[0].text : "No diff available";
+        return new Text(text, 0, 0);
+      }
+      
+      // Show summary only (interactive diff is in the overlay)
+      let summary = theme.fg("toolTitle", theme.bold(`Review: ${details.taskId}\n`));
+      summary += details.stat || "No changes";
+      return new Text(summary, 0, 0);
+    },
+  });
+
+  // ============================================================================
+  // 7. Register merge_agent tool
+  // ============================================================================
+  
+  const conflictStrategyParameter = Type.Optional(StringEnum(CONFLICT_STRATEGIES, {
+    description: "What to do if the branch conflicts with main: abort (default, report the files), prefer-target (keep main's version of each conflicting file), prefer-agent (keep the agent's version), resolver-agent (spawn an agent to resolve the conflicts on the branch)",
+  }));
+  
+  const mergeModeParameter = Type.Optional(StringEnum(MERGE_MODES, {
+    description: "How to land the work: rebase (replay the agent's commits and fast-forward), squash (one commit), merge-commit (--no-ff merge), branch-only (keep the branch for a human PR). Default: the repo's configured mode",
+  }));
+  
+  const RESOLVER_TIER: TaskTier = "standard";
+  // Verification output is cut to its end, where the failures usually are
+  const VERIFY_OUTPUT_CHARS = 4000;
+  
+  /**
+   * Resolve a stopped rebase by running a resolver agent through the pool in
+   * the conflicted worktree, and waiting for it to finish
+   */
+  function createConflictResolver(taskId: string): ConflictResolver {
+    return async ({ info, target, files }) => {
+      const resolverId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const resolverTask: TaskDefinition = {
+        id: resolverId,
+        description: `Resolve merge conflicts for ${taskId}`,
+        tier: RESOLVER_TIER,
+        cwd: info.worktreePath,
+        prompt: `Bringing ${target} into this branch stopped with conflicts in:\n${files.map(file => `- ${file}`).join("\n")}\n\n` +
+          `Resolve each file: remove the conflict markers and combine both sides so the changes from ${target} and from this branch are both kept. ` +
+          `Then stage each resolved file with \`git add <file>\`. Do not continue or abort the rebase or merge, and do not commit.`,
+      };
+      // Resolvers give up by resolving false; throwing would leave the rebase stopped
+      return runAwaited(resolverId, (pool) =>
+        admitSpend(resolverTask, "Starting", () => pool.submit(resolverTask))
+      ).catch((error) => {
+        uiContext?.ui?.notify(`Conflict resolver for ${taskId} not started: ${error instanceof Error ? error.message : String(error)}`, "warning");
+        return false;
+      });
+    };
+  }
+  
+  /**
+   * Start a task (new or continued) and wait for it to finish. Its outcome
+   * is reported by the caller instead of a wake.
+   * @returns true if it completed, false if it failed or was cancelled
+   */
+  async function runAwaited(taskId: string, start: (pool: AgentPool) => Promise<unknown>): Promise<boolean> {
+    if (!agentPool) return false;
+    const pool = agentPool;
+    const unsubscribes: (() => void)[] = [];
+    awaitedTasks.set(taskId, (awaitedTasks.get(taskId) ?? 0) + 1);
+    try {
+      const finished = new Promise<boolean>((resolvePromise) => {
+        unsubscribes.push(
+          pool.bus.on("completed", (event) => { if (event.taskId === taskId) resolvePromise(true); }),
+          pool.bus.on("failed", (event) => { if (event.taskId === taskId) resolvePromise(false); }),
+          pool.bus.on("cancelled", (event) => { if (event.taskId === taskId) resolvePromise(false); }),
+        );
+      });
+      await start(pool);
+      return await finished;
+    } finally {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      const count = (awaitedTasks.get(taskId) ?? 1) - 1;
+      if (count > 0) awaitedTasks.set(taskId, count); else awaitedTasks.delete(taskId);
+    }
+  }
+  
+  /**
+   * The failing verification command and the end of its output
+   */
+  function formatVerificationFailure(verification: VerificationResult): string {
+    const failed = verification.checks[verification.checks.length - 1];
+    const output = failed.output.length > VERIFY_OUTPUT_CHARS
+      ? `…${failed.output.slice(-VERIFY_OUTPUT_CHARS)}`
+      : failed.output;
+    return `$ ${failed.command}\n${output || "(no output)"}`;
+  }
+  
+  /**
+   * One line per conflicting file and how it was resolved
+   */
+  function formatResolutions(resolutions: FileResolution[]): string {
+    const labels: Record<FileResolution["resolution"], string> = {
+      target: "kept main's version",
+      agent: "kept the agent's version",
+      resolver: "resolved by resolver agent",
+      unresolved: "unresolved",
+    };
+    return resolutions.map(r => `  ${r.file}: ${labels[r.resolution]}`).join("\n");
+  }
+  
+  interface MergeAgentOptions {
+    strategy?: ConflictStrategy;
+    /** Overrides the repo's configured mode */
+    mode?: MergeMode;
+    /** Overrides the repo's configured message template */
+    messageTemplate?: string;
+  }
+  
+  /**
+   * Merge a completed agent's branch into main and clean up its worktree.
+   * Shared by merge_agent and merge_batch. Throws if the agent can't be
+   * merged; a conflict is returned as an unsuccessful result.
+   */
+  async function mergeAgent(taskId: string, options: MergeAgentOptions = {}): Promise<{ success: boolean; message: string }> {
+    const strategy = options.strategy ?? "abort";
+    if (!agentPool) {
+      throw new Error("Agent pool not initialized");
+    }
+    
+    const agent = agentPool.getAgent(taskId);
+    if (!agent) {
+      throw new Error(`Agent not found: ${taskId}`);
+    }
+    
+    // Check if agent is completed
+    if (agent.status !== "completed") {
+      throw new Error(`Agent is ${agent.status}, can only merge completed agents`);
+    }
+    
+    // Get worktree info
+    const worktreeInfo = worktreeMap.get(taskId);
+    if (!worktreeInfo) {
+      throw new Error(`No worktree found for task: ${taskId}`);
+    }
+    
+    if (!worktreeManager) {
+      throw new Error("Worktree manager not initialized");
+    }
+    
+    const manager = worktreeManager;
+    const settings = configStore.getMergeSettings(worktreeInfo.repoPath);
+    const mode = options.mode ?? settings.mode;
+    const target = await manager.getMergeTarget(worktreeInfo);
+    
+    let commitMessage = "";
+    const attemptMerge = () => {
+      // Rendered for every mode, so a bad template fails before anything changes;
+      // branch-only returns it as the suggested PR description
+      const vars: CommitMessageVars = {
+        taskId,
+        description: agent.description,
+        tier: agent.tier,
+        branch: worktreeInfo.branchName,
+        target,
+        summary: agent.result?.report?.summary ?? "",
+        files: agent.result?.filesChanged.join(", ") ?? "",
+      };
+      commitMessage = buildCommitMessage(options.messageTemplate ?? settings.messageTemplate, settings.trailers, vars);
+      return manager.mergeWorktree(worktreeInfo, target, {
+        mode,
+        message: commitMessage,
+        trailers: renderTrailers(settings.trailers, vars),
+        strategy,
+        resolver: strategy === "resolver-agent" ? createConflictResolver(taskId) : undefined,
+        verify: settings.verify,
+      });
+    };
+    
+    let mergeResult = await attemptMerge();
+    let fixes = 0;
+    while (mergeResult.verification && !mergeResult.verification.success && fixes < settings.autoFixAttempts) {
+      fixes++;
+      const failure = formatVerificationFailure(mergeResult.verification);
+      // Cancelled or removed while the merge was running
+      const task = agentPool.getTask(taskId);
+      if (!task) {
+        return { success: false, message: `❌ Auto-fix stopped: ${taskId} is no longer in the pool. Nothing was merged; branch preserved.\n${failure}` };
+      }
+      let fixed: boolean;
+      try {
+        fixed = await runAwaited(taskId, (pool) => admitSpend(task, "Auto-fixing", () => pool.continueTask(taskId,
+          `Pre-merge verification failed in this worktree:\n\n${failure}\n\n` +
+          `Fix the cause so the command passes, then commit your changes. Do not skip, weaken or delete the checks.`
+        )));
+      } catch (error) {
+        return { success: false, message: `❌ Auto-fix attempt ${fixes} for ${taskId} not started: ${error instanceof Error ? error.message : String(error)}. Branch preserved.\n${failure}` };
+      }
+      if (!fixed) {
+        return { success: false, message: `❌ Auto-fix attempt ${fixes} for ${taskId} did not complete. Branch preserved.\n${failure}` };
+      }
+      mergeResult = await attemptMerge();
+    }
+    const fixNote = fixes > 0 ? ` after ${fixes} auto-fix attempt${fixes === 1 ? "" : "s"}` : "";
+    
+    if (mergeResult.verification && !mergeResult.verification.success) {
+      const hint = settings.autoFixAttempts === 0 ? " Fix it with continue_agent, or enable autoFixAttempts." : "";
+      return {
+        success: false,
+        message: `❌ ${mergeResult.error}${fixNote}. Nothing was merged; branch preserved.${hint}\n${formatVerificationFailure(mergeResult.verification)}`,
+      };
+    }
+    const verified = mergeResult.verification
+      ? `\nVerified${fixNote}: ${mergeResult.verification.checks.map(check => check.command).join(", ")}`
+      : "";
+    
+    const resolutions = mergeResult.resolutions?.length
+      ? `\nConflicts (${strategy}):\n${formatResolutions(mergeResult.resolutions)}`
+      : "";
+    
+    if (mergeResult.success && mode === "branch-only") {
+      // The branch stays (and in worktreeMap, so it can still be reviewed or merged
+      // later; mergeWorktree checks it out in a new worktree first)
+      return {
+        success: true,
+        message: `🔀 Left ${worktreeInfo.branchName} for review and removed its worktree.${verified}\nSuggested PR description:\n\n${commitMessage}`,
+      };
+    }
+    
+    if (mergeResult.success) {
+      // Remove from worktree map since it's cleaned up
+      worktreeMap.delete(taskId);
+      // Release dependents waiting for this merge
+      agentPool.markMerged(taskId);
+      const how = mode === "rebase" ? "" : ` as a ${mode === "squash" ? "squash commit" : "merge commit"}`;
+      return { success: true, message: `✅ Merged ${worktreeInfo.branchName} into ${target}${how} and cleaned up worktree${verified}${resolutions}` };
+    }
+    
+    if (!mergeResult.conflictFiles?.length) {
+      return { success: false, message: `❌ ${mergeResult.error || "Merge failed"}. Branch preserved.${resolutions}` };
+    }
+    const conflictList = mergeResult.conflictFiles.join(", ");
+    const hint = strategy === "abort" ? " Retry with conflictStrategy prefer-agent, prefer-target or resolver-agent, or resolve manually." : "";
+    return { success: false, message: `❌ Merge conflicts in: ${conflictList}. Branch preserved for manual resolution.${hint}${resolutions}` };
+  }
+  
+  pi.registerTool({
+    name: "merge_agent",
+    label: "Merge Agent",
+    description: "Merges a completed agent's branch into main and cleans up. The repo's verification commands must pass first. Conflicts abort the merge unless another conflictStrategy is given.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task ID of the agent to merge" }),
+      mode: mergeModeParameter,
+      messageTemplate: Type.Optional(Type.String({
+        description: "Commit message for squash and merge-commit, with {{taskId}}, {{description}}, {{tier}}, {{branch}}, {{target}}, {{summary}} and {{files}} placeholders. Default: the repo's configured template",
+      })),
+      conflictStrategy: conflictStrategyParameter,
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      try {
+        if (params.conflictStrategy === "resolver-agent") {
+          onUpdate?.({ content: [{ type: "text", text: `Merging ${params.taskId}; a resolver agent will handle any conflicts...` }], details: undefined });
+        }
+        const { success, message } = await mergeAgent(params.taskId, {
+          strategy: params.conflictStrategy as ConflictStrategy | undefined,
+          mode: params.mode as MergeMode | undefined,
+          messageTemplate: params.messageTemplate,
+        });
+        if (!success) {
+          return {
+            content: [{ type: "text", text: message }],
+            details: undefined,
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: "text", text: message }],
+          details: undefined,
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+          details: undefined,
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // ============================================================================
+  // 8. Register cancel_agent tool
+  // ============================================================================
+  
+  /**
+   * Cancel a queued, blocked, interrupted or running agent, optionally removing its worktree.
+   * Shared by the cancel_agent tool and the /agents command.
+   */
+  async function cancelAgent(taskId: string, cleanupWorktree: boolean): Promise<string> {
+    if (!agentPool) {
+      throw new Error("Agent pool not initialized");
+    }
+    
+    const agent = agentPool.getAgent(taskId);
+    if (!agent) {
+      throw new Error(`Agent not found: ${taskId}`);
+    }
+    
+    if (agent.status !== "running" && agent.status !== "queued" && agent.status !== "blocked" && agent.status !== "interrupted") {
+      throw new Error(`Agent is ${agent.status}, can only cancel running, queued, blocked or interrupted agents`);
+    }
+    
+    const previousStatus = agent.status;
+    await agentPool.cancel(taskId);
+    
+    let message = `🛑 Cancelled ${previousStatus} agent ${taskId} — ${agent.description}`;
+    
+    const worktreeInfo = worktreeMap.get(taskId);
+    if (worktreeInfo) {
+      if (cleanupWorktree && worktreeManager) {
+        await worktreeManager.cleanup(worktreeInfo);
+        worktreeMap.delete(taskId);
+        agentPool.markDiscarded(taskId);
+        message += `\nRemoved worktree and branch ${worktreeInfo.branchName}`;
+      } else {
+        message += `\nWorktree preserved at ${worktreeInfo.worktreePath}`;
+      }
+    }
+    
+    return message;
+  }
+  
+  pi.registerTool({
+    name: "cancel_agent",
+    label: "Cancel Agent",
+    description: "Cancels a queued, blocked, interrupted or running agent. Does not wake the parent like a failure would.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task ID of the agent to cancel" }),
+      cleanupWorktree: Type.Optional(Type.Boolean({
+        description: "Remove the agent's worktree and branch. Default false (keep partial work)."
+      })),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      try {
+        const message = await cancelAgent(params.taskId, params.cleanupWorktree ?? false);
+        return {
+          content: [{ type: "text", text: message }],
+          details: undefined,
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+          details: undefined,
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // ============================================================================
+  // 9. Register view_transcript tool
+  // ============================================================================
+  
+  pi.registerTool({
+    name: "view_transcript",
+    label: "View Transcript",
+    description: "Pages through a subagent's saved transcript: messages, thinking, tool calls and tool results. Use it to diagnose why an agent went wrong.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task ID of the agent" }),
+      page: Type.Optional(Type.Number({ description: "1-based page number (default 1)" })),
+      pageSize: Type.Optional(Type.Number({
+        description: `Entries per page (default ${DEFAULT_TRANSCRIPT_PAGE_SIZE})`
+      })),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      try {
+        validateTaskId(params.taskId);
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      const entries = transcriptStore.load(params.taskId);
+      if (!entries) {
+        return {
+          content: [{ type: "text", text: `No transcript found for ${params.taskId}` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      const page = paginateTranscript(entries, params.page ?? 1, params.pageSize);
+      return {
+        content: [{ type: "text", text: formatTranscriptPage(params.taskId, page) }],
+        details: { page: page.page, totalPages: page.totalPages, totalEntries: page.totalEntries },
+      };
+    },
+  });
+
+  /**
+   * Open the transcript overlay for an agent
+   */
+  async function showTranscript(ctx: any, taskId: string): Promise<void> {
+    const entries = transcriptStore.load(taskId);
+    if (!entries) {
+      ctx.ui.notify(`No transcript found for ${taskId}`, "info");
+      return;
+    }
+    
+    await ctx.ui.custom(
+      (tui: any, _theme: any, _keybindings: any, done: (result: void) => void) =>
+        new TranscriptViewer(
+          taskId,
+          entries,
+          () => done(),
+          () => tui.requestRender(),
+          Math.max(10, (tui.terminal?.rows ?? 40) - 10),
+        ),
+      { overlay: true, overlayOptions: { anchor: "top-center" as const, width: "90%" as const, minWidth: 60, margin: { top: 1, left: 1, right: 1, bottom: 1 } } },
+    );
+  }
+
+  // ============================================================================
+  // 10. Register continue_agent tool
+  // ============================================================================
+  
+  pi.registerTool({
+    name: "continue_agent",
+    label: "Continue Agent",
+    description: "Sends a follow-up prompt to a completed or failed agent. Reopens its saved session and worktree, so it keeps its context, and runs as a new attempt of the same task ID. Cost is added to the same budget record.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task ID of the completed or failed agent" }),
+      prompt: Type.String({ description: "Follow-up instructions, e.g. fixes requested in review" }),
+      inTurn: Type.Optional(Type.Boolean({
+        description: "Tie this attempt to the current turn: interrupting the orchestrator cancels it. Default false."
+      })),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      if (!agentPool) {
+        return {
+          content: [{ type: "text", text: "Agent pool not initialized" }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      // The worktree is removed on merge or discard; the session would have nowhere to run
+      const previous = agentPool.getTask(params.taskId);
+      if (previous?.cwd && !existsSync(previous.cwd)) {
+        return {
+          content: [{ type: "text", text: `Working directory for ${params.taskId} no longer exists (${previous.cwd}). Was it merged or discarded?` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      let agentInfo: AgentInfo;
+      try {
+        const pool = agentPool;
+        const continueTask = () => pool.continueTask(params.taskId, params.prompt, {
+          signal,
+          cancelOnAbort: params.inTurn ?? false,
+        });
+        agentInfo = previous ? await admitSpend(previous, "Continuing", continueTask) : await continueTask();
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      if (uiContext?.ui) {
+        uiContext.ui.setStatus("orchestrator", getStatus());
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Agent continued: ${agentInfo.taskId} — ${agentInfo.description} (attempt ${agentInfo.attempt})\nStatus: ${agentInfo.status}`,
+        }],
+        details: undefined,
+      };
+    },
+  });
+
+  // ============================================================================
+  // 11. Register reprioritize_agent tool
+  // ============================================================================
+  
+  pi.registerTool({
+    name: "reprioritize_agent",
+    label: "Reprioritize Agent",
+    description: "Changes the priority of a queued agent, moving it up or down the queue",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task ID of the queued agent" }),
+      priority: StringEnum(
+        ["low", "normal", "high", "urgent"] as const,
+        { description: "New priority" }
+      ),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      if (!agentPool) {
+        return {
+          content: [{ type: "text", text: "Agent pool not initialized" }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      const agent = agentPool.getAgent(params.taskId);
+      if (!agent) {
+        return {
+          content: [{ type: "text", text: `Agent not found: ${params.taskId}` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      if (!agentPool.reprioritize(params.taskId, params.priority as TaskPriority)) {
+        return {
+          content: [{ type: "text", text: `Agent is ${agent.status}, can only reprioritize queued agents` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      const position = agentPool.getQueuePosition(params.taskId);
+      return {
+        content: [{
+          type: "text",
+          text: `Priority of ${params.taskId} set to ${params.priority}\nQueue position: ${position} of ${agentPool.queuedCount()}`,
+        }],
+        details: undefined,
+      };
+    },
+  });
+
+  // ============================================================================
+  // 12. Register set_pool_limits tool
+  // ============================================================================
+  
+  const tierLimitSchema = Type.Optional(Type.Union([Type.Integer({ minimum: 0 }), Type.Null()]));
+  
+  pi.registerTool({
+    name: "set_pool_limits",
+    label: "Set Pool Limits",
+    description: "Changes how many agents may run at once, overall and per tier. Raised limits start queued agents immediately; lowered limits let running agents finish.",
+    parameters: Type.Object({
+      maxConcurrent: Type.Optional(Type.Integer({ minimum: 1, description: "Maximum agents running at once" })),
+      tierLimits: Type.Optional(Type.Object({
+        "trivial-simple": tierLimitSchema,
+        "trivial-code": tierLimitSchema,
+        "light": tierLimitSchema,
+        "standard": tierLimitSchema,
+        "complex": tierLimitSchema,
+        "deep": tierLimitSchema,
+      }, { description: "Maximum running agents per tier, e.g. { deep: 1 }. null removes a tier's cap." })),
+      persist: Type.Optional(Type.Boolean({ description: "Also save these limits as the default for future sessions (default: false)" })),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      if (!agentPool) {
+        return {
+          content: [{ type: "text", text: "Agent pool not initialized" }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      const before = agentPool.runningCount();
+      let limits: PoolLimits;
+      try {
+        limits = agentPool.setLimits({ maxConcurrent: params.maxConcurrent, tierLimits: params.tierLimits });
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      if (params.persist) {
+        configStore.setPoolLimits(limits);
+      }
+      
+      let text = `Pool limits updated${params.persist ? " and saved" : ""}\n${formatPoolLimits(limits)}`;
+      const started = agentPool.runningCount() - before;
+      if (started > 0) {
+        text += `\nStarted ${started} queued agent(s)`;
+      }
+      text += `\nRunning: ${agentPool.runningCount()}, queued: ${agentPool.queuedCount()}`;
+      if (agentPool.runningCount() > limits.maxConcurrent) {
+        text += `\nAbove the new limit; running agents will finish before more start`;
+      }
+      
+      return {
+        content: [{ type: "text", text }],
+        details: limits,
+      };
+    },
+  });
+
+  // ============================================================================
+  // 13. Register recover_agent tool
+  // ============================================================================
+  
+  const RESUME_PROMPT =
+    "Your previous run was interrupted when the orchestrator restarted. " +
+    "Check the current state of your working directory, then continue the task where you left off.";
+  
+  type RecoveryAction = "resume" | "retry" | "discard";
+  
+  /**
+   * Resume, retry or discard an agent interrupted by a restart.
+   * Shared by the recover_agent tool, the /agents command and the startup prompt.
+   */
+  async function recoverAgent(taskId: string, action: RecoveryAction): Promise<string> {
+    if (!agentPool) {
+      throw new Error("Agent pool not initialized");
+    }
+    
+    const agent = agentPool.getAgent(taskId);
+    if (!agent) {
+      throw new Error(`Agent not found: ${taskId}`);
+    }
+    if (agent.status !== "interrupted") {
+      throw new Error(`Agent is ${agent.status}, can only recover interrupted agents`);
+    }
+    
+    if (action === "discard") {
+      return cancelAgent(taskId, true);
+    }
+    
+    const cwd = agentPool.getTask(taskId)?.cwd;
+    if (cwd && !existsSync(cwd)) {
+      throw new Error(`Working directory for ${taskId} no longer exists (${cwd}). Discard it instead.`);
+    }
+    
+    const pool = agentPool;
+    const task = pool.getTask(taskId)!;
+    if (action === "resume") {
+      const sessionFile = transcriptStore.find(taskId);
+      if (!sessionFile) {
+        throw new Error(`Agent ${taskId} has no saved session to resume. Retry it instead.`);
+      }
+      await admitSpend(task, "Resuming", () => pool.resumeInterrupted(taskId, sessionFile, RESUME_PROMPT));
+    } else {
+      await admitSpend(task, "Retrying", () => pool.retryInterrupted(taskId));
+    }
+    
+    if (uiContext?.ui) {
+      uiContext.ui.setStatus("orchestrator", getStatus());
+    }
+    
+    return `${action === "resume" ? "▶️ Resumed" : "🔁 Retrying"} ${taskId} — ${agent.description} (attempt ${agent.attempt})\nStatus: ${agent.status}`;
+  }
+  
+  pi.registerTool({
+    name: "recover_agent",
+    label: "Recover Agent",
+    description: "Handles an agent that was running when Pi exited. resume reopens its saved session and tells it to continue; retry runs the original prompt again in the same worktree; discard cancels it and removes its worktree.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task ID of the interrupted agent" }),
+      action: StringEnum(
+        ["resume", "retry", "discard"] as const,
+        { description: "What to do with the interrupted agent" }
+      ),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      try {
+        const message = await recoverAgent(params.taskId, params.action as RecoveryAction);
+        return {
+          content: [{ type: "text", text: message }],
+          details: undefined,
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+          details: undefined,
+          isError: true,
+        };
+      }
+    },
+  });
+
+  /**
+   * Ask what to do with each agent interrupted by the last restart
+   */
+  async function offerRecovery(ctx: any, interrupted: AgentInfo[]): Promise<void> {
+    const choices: Record<string, RecoveryAction | undefined> = {
+      "Resume from saved session": "resume",
+      "Retry from scratch": "retry",
+      "Discard and remove worktree": "discard",
+      "Decide later": undefined,
+    };
+    
+    for (const agent of interrupted) {
+      const choice = await ctx.ui.select(
+        `⚠️ Interrupted agent: ${agent.taskId} — ${agent.description}`,
+        Object.keys(choices)
+      );
+      const action = choice === undefined ? undefined : choices[choice];
+      if (!action) continue;
+      try {
+        ctx.ui.notify(await recoverAgent(agent.taskId, action), "info");
+      } catch (error) {
+        ctx.ui.notify(error instanceof Error ? error.message : String(error), "error");
+      }
+    }
+  }
+
+  // ============================================================================
+  // 14. Register spawn_agents tool
+  // ============================================================================
+  
+  // Batches still being submitted, not reported done even if early agents finish
+  const spawningBatches: Set<string> = new Set();
+  
+  pi.registerTool({
+    name: "spawn_agents",
+    label: "Spawn Agents",
+    description: "Spawns one agent per item from a shared prompt template, e.g. to apply the same change to each of several packages. The agents are grouped under a batch ID and the parent is woken once, when the whole batch is done.",
+    parameters: Type.Object({
+      descriptionTemplate: Type.String({ description: "Description for each agent; {{name}} placeholders are filled from the item" }),
+      promptTemplate: Type.String({ description: "Prompt for each agent; {{name}} placeholders are filled from the item" }),
+      items: Type.Array(Type.Record(Type.String(), Type.String()), {
+        description: "One object of template variables per agent, e.g. [{ \"package\": \"api\" }, { \"package\": \"web\" }]"
+      }),
+      tier: spawnParameters.properties.tier,
+      cwd: Type.Optional(Type.String({
+        description: "Working directory for every agent (may use placeholders). If in a git repo, each agent gets its own worktree."
+      })),
+      useWorktree: spawnParameters.properties.useWorktree,
+      baseRef: spawnParameters.properties.baseRef,
+      timeoutMs: spawnParameters.properties.timeoutMs,
+      contextFiles: Type.Optional(Type.Array(Type.String(), {
+        description: "Files to preload for each agent (may use placeholders)"
+      })),
+      retry: spawnParameters.properties.retry,
+      priority: spawnParameters.properties.priority,
+      resources: Type.Optional(Type.Array(Type.String(), {
+        description: "Resources each agent will touch (may use placeholders, e.g. \"packages/{{package}}/**\")"
+      })),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      if (params.items.length === 0) {
+        return {
+          content: [{ type: "text", text: "No items to spawn agents for" }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      // Render every item up front so a bad template spawns nothing
+      let requests: SpawnRequest[];
+      const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      try {
+        requests = params.items.map((item: BatchItem, index: number) => {
+          try {
+            return {
+              description: renderTemplate(params.descriptionTemplate, item),
+              prompt: renderTemplate(params.promptTemplate, item),
+              tier: params.tier,
+              cwd: params.cwd !== undefined ? renderTemplate(params.cwd, item) : undefined,
+              useWorktree: params.useWorktree,
+              baseRef: params.baseRef,
+              timeoutMs: params.timeoutMs,
+              contextFiles: params.contextFiles?.map(file => renderTemplate(file, item)),
+              retry: params.retry,
+              priority: params.priority,
+              resources: params.resources?.map(key => renderTemplate(key, item)),
+              batchId,
+            };
+          } catch (error) {
+            throw new Error(`Item ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      const spawned: SpawnedAgent[] = [];
+      const failures: string[] = [];
+      spawningBatches.add(batchId);
+      try {
+        for (const [index, request] of requests.entries()) {
+          if (signal?.aborted) {
+            failures.push(`${request.description}: ${SPAWN_ABORTED}`);
+            continue;
+          }
+          onUpdate?.({ content: [{ type: "text", text: `🚀 Spawning ${index + 1}/${requests.length}: ${request.description}` }], details: undefined });
+          try {
+            spawned.push(await spawnTask(request, signal));
+          } catch (error) {
+            failures.push(`${request.description}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      } finally {
+        spawningBatches.delete(batchId);
+      }
+      // Agents that already finished while later ones were being spawned
+      wakeIfBatchDone(batchId);
+      
+      let text = `Batch ${batchId}: spawned ${spawned.length} of ${requests.length} agents (model: ${selectModel(params.tier as TaskTier).modelId})\n`;
+      for (const { taskId, agentInfo } of spawned) {
+        text += `• ${taskId} [${agentInfo.status}] — ${agentInfo.description}\n`;
+      }
+      if (failures.length > 0) {
+        text += `\nFailed to spawn:\n${failures.map(failure => `• ${failure}`).join("\n")}\n`;
+      }
+      if (spawned.length > 0) {
+        text += `\nYou will be woken once when the whole batch is done. Use check_agents with batchId for progress, or wait_for_agents to block until it is done.`;
+      }
+      
+      return {
+        content: [{ type: "text", text }],
+        details: { batchId, taskIds: spawned.map(agent => agent.taskId) },
+        isError: spawned.length === 0,
+      };
+    },
+  });
+
+  // ============================================================================
+  // 15. Register merge_batch and discard_batch tools
+  // ============================================================================
+  
+  pi.registerTool({
+    name: "merge_batch",
+    label: "Merge Batch",
+    description: "Merges every completed, unmerged agent in a batch into main, one after another, using the same conflictStrategy for each. A conflict in one agent does not stop the others.",
+    parameters: Type.Object({
+      batchId: Type.String({ description: "Batch ID returned by spawn_agents" }),
+      mode: mergeModeParameter,
+      conflictStrategy: conflictStrategyParameter,
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      const agents = agentPool?.getBatch(params.batchId) ?? [];
+      if (agents.length === 0) {
+        return {
+          content: [{ type: "text", text: `Batch not found: ${params.batchId}` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      const lines: string[] = [];
+      const skipped: string[] = [];
+      let merged = 0;
+      let failed = 0;
+      for (const agent of agents) {
+        if (agent.status !== "completed" || agent.merged) {
+          skipped.push(`${agent.taskId} (${agent.merged ? "already merged" : agent.status})`);
+          continue;
+        }
+        onUpdate?.({ content: [{ type: "text", text: `Merging ${agent.taskId}...` }], details: undefined });
+        try {
+          const result = await mergeAgent(agent.taskId, {
+            strategy: params.conflictStrategy as ConflictStrategy | undefined,
+            mode: params.mode as MergeMode | undefined,
+          });
+          if (result.success) merged++; else failed++;
+          lines.push(`${agent.taskId}: ${result.message}`);
+        } catch (error) {
+          failed++;
+          lines.push(`${agent.taskId}: ❌ ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      
+      let text = `Batch ${params.batchId}: merged ${merged}, failed ${failed}, skipped ${skipped.length}\n`;
+      if (lines.length > 0) {
+        text += lines.map(line => `• ${line}`).join("\n") + "\n";
+      }
+      if (skipped.length > 0) {
+        text += `Skipped: ${skipped.join(", ")}`;
+      }
+      
+      if (failed > 0) {
+        return {
+          content: [{ type: "text", text }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      return {
+        content: [{ type: "text", text }],
+        details: undefined,
+      };
+    },
+  });
+  
+  pi.registerTool({
+    name: "discard_batch",
+    label: "Discard Batch",
+    description: "Throws a batch away: cancels its unfinished agents and removes the worktrees and branches of all its unmerged agents. Merged agents are left alone. The batch's completion wake is suppressed.",
+    parameters: Type.Object({
+      batchId: Type.String({ description: "Batch ID returned by spawn_agents" }),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      const agents = agentPool?.getBatch(params.batchId) ?? [];
+      if (agents.length === 0) {
+        return {
+          content: [{ type: "text", text: `Batch not found: ${params.batchId}` }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      
+      settledBatches.add(params.batchId);
+      
+      // Cancel waiting agents before running ones, so nothing starts in the freed slots
+      const unfinished = agents
+        .filter(agent => ["queued", "blocked", "interrupted", "running"].includes(agent.status))
+        .sort((a, b) => Number(a.status === "running") - Number(b.status === "running"));
+      let cancelled = 0;
+      for (const agent of unfinished) {
+        try {
+          await cancelAgent(agent.taskId, true);
+          cancelled++;
+        } catch (error) {
+          console.error(`Failed to cancel ${agent.taskId}:`, error);
+        }
+      }
+      
+      let removed = 0;
+      for (const agent of agents) {
+        const worktreeInfo = worktreeMap.get(agent.taskId);
+        if (!worktreeInfo || agent.merged || !worktreeManager) continue;
+        await worktreeManager.cleanup(worktreeInfo);
+        worktreeMap.delete(agent.taskId);
+        metadataStore?.remove(agent.taskId);
+        agentPool?.markDiscarded(agent.taskId);
+        removed++;
+      }
+      
+      if (uiContext?.ui) {
+        uiContext.ui.setStatus("orchestrator", getStatus());
+      }
+      
+      return {
+        content: [{
+          type: "text",
+          text: `🗑️ Discarded batch ${params.batchId}: cancelled ${cancelled} unfinished agent(s), removed ${removed} more worktree(s)`,
+        }],
+        details: undefined,
+      };
+    },
+  });
+
+  // ============================================================================
+  // 16. Register wait_for_agents tool
+  // ============================================================================
+  
+  const DEFAULT_WAIT_TIMEOUT_MS = 600000;
+  
+  /**
+   * Diff stats of a finished agent's branch vs its merge-base
+   * @returns undefined if the agent has no worktree or git fails
+   */
+  async function getDiffStats(taskId: string): Promise<GitDiffStats | undefined> {
+    const worktreeInfo = worktreeMap.get(taskId);
+    if (!worktreeInfo || !worktreeManager) return undefined;
+    try {
+      const base = await worktreeManager.getMergeBase(worktreeInfo);
+      const result = await pi.exec("git", ["diff", `${base}..${worktreeInfo.branchName}`, "--stat"], {
+        cwd: worktreeInfo.repoPath,
+      });
+      return parseGitDiffStat(result.stdout);
+    } catch {
+      return undefined;
+    }
+  }
+  
+  pi.registerTool({
+    name: "wait_for_agents",
+    label: "Wait for Agents",
+    description: "Blocks until the given agents (or every agent in a batch) have completed, failed or been cancelled, or until the timeout. Streams progress with ETAs while waiting and returns a table of outcomes, costs, durations and diff stats. Agents finished while waiting do not also wake you.",
+    parameters: Type.Object({
+      taskIds: Type.Optional(Type.Array(Type.String(), { description: "Task IDs to wait for" })),
+      batchId: Type.Optional(Type.String({ description: "Wait for every agent in this spawn_agents batch" })),
+      timeoutMs: Type.Optional(Type.Integer({
+        description: `Stop waiting after this long and report what has finished. Default: ${DEFAULT_WAIT_TIMEOUT_MS / 60000} minutes`,
+        minimum: 1000,
+      })),
+    }),
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      if (!agentPool) {
+        return {
+          content: [{ type: "text", text: "Agent pool not initialized" }],
+          details: undefined,
+          isError: true,
+        };
+      }
+      const pool = agentPool;
+      
+      const taskIds = new Set(params.taskIds ?? []);
+      if (params.batchId) {
+        const batch = pool.getBatch(params.batchId);
+        if (batch.length === 0) {
+          return {
+            content: [{ type: "text", text: `Batch not found: ${params.batchId}` }],
+            details: undefined,
+            isError: true,
+          };
+        }
+        batch.forEach(agent => taskIds.add(agent.taskId));
       }
-      
-      // Get worktree info
-      const worktreeInfo = worktreeMap.get(taskId);
-      if (!worktreeInfo) {
+      if (taskIds.size === 0) {
         return {
-          content: [{ type: "text", text: `No worktree found for task: ${taskId}` }],
+          content: [{ type: "text", text: "Give taskIds or a batchId to wait for" }],
           details: undefined,
           isError: true,
         };
       }
-      
-      const { branchName, repoPath } = worktreeInfo;
-      
-      // Get changed files
-      const nameResult = await pi.exec("bash", ["-c", `git diff main..${branchName} --name-only`], {
-        cwd: repoPath,
-      });
-      const changedFiles = nameResult.stdout.trim().split("\n").filter((f) => f.length > 0);
-      
-      if (changedFiles.length === 0) {
+      const unknown = Array.from(taskIds).filter(id => !pool.getAgent(id));
+      if (unknown.length > 0) {
         return {
-          content: [{ type: "text", text: `No changes found for ${taskId}` }],
+          content: [{ type: "text", text: `Agent not found: ${unknown.join(", ")}` }],
           details: undefined,
+          isError: true,
         };
       }
       
-      // Get stat for summary
-      const statResult = await pi.exec("bash", ["-c", `git diff main..${branchName} --stat`], {
-        cwd: repoPath,
-      });
+      const getAgents = () => Array.from(taskIds).map(id => pool.getAgent(id)).filter((a): a is AgentInfo => a !== undefined);
+      const timeoutMs = params.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+      const started = Date.now();
       
-      // Build DiffState from git
-      const state = new DiffState();
-      for (const filePath of changedFiles) {
-        let original = "";
-        let current = "";
-        
-        // Try to get original (main) version
-        try {
-          const origResult = await pi.exec("bash", ["-c", `git show main:${filePath}`], {
-            cwd: repoPath,
+      for (const id of taskIds) {
+        awaitedTasks.set(id, (awaitedTasks.get(id) ?? 0) + 1);
+      }
+      let stopped: "done" | "timeout" | "aborted" = "done";
+      try {
+        let lastProgress = "";
+        let lastProgressAt = 0;
+        while (!getAgents().every(isTerminal)) {
+          if (signal?.aborted) {
+            stopped = "aborted";
+            break;
+          }
+          if (Date.now() - started >= timeoutMs) {
+            stopped = "timeout";
+            break;
+          }
+          
+          // Report on every status change, and at the soonest poll hint to refresh ETAs
+          const agents = getAgents();
+          const cadence = getWaitCadence(agents);
+          const statuses = agents.map(a => a.status).join();
+          if (statuses !== lastProgress || Date.now() - lastProgressAt >= cadence.progressMs) {
+            lastProgress = statuses;
+            lastProgressAt = Date.now();
+            onUpdate?.({ content: [{ type: "text", text: `⏳ Waiting (${formatDuration(Date.now() - started)})\n${formatWaitProgress(agents)}` }], details: undefined });
+          }
+          // Sleep until the next check, the timeout or an abort, whichever comes first
+          const untilTimeout = timeoutMs - (Date.now() - started);
+          await new Promise<void>(resolve => {
+            const wake = () => {
+              clearTimeout(timer);
+              signal?.removeEventListener("abort", wake);
+              resolve();
+            };
+            const timer = setTimeout(wake, Math.min(cadence.pollMs, untilTimeout));
+            signal?.addEventListener("abort", wake, { once: true });
           });
-          original = origResult.stdout;
-        } catch {
-          // New file - original is empty
         }
-        
-        // Try to get current (branch) version
-        try {
-          const curResult = await pi.exec("bash", ["-c", `git show ${branchName}:${filePath}`], {
-            cwd: repoPath,
-          });
-          current = curResult.stdout;
-        } catch {
-          // Deleted file - current is empty
+      } finally {
+        for (const id of taskIds) {
+          const count = (awaitedTasks.get(id) ?? 1) - 1;
+          if (count > 0) awaitedTasks.set(id, count); else awaitedTasks.delete(id);
         }
-        
-        state.trackFile(filePath, original, current);
       }
       
-      // Return text summary — use Ctrl+Shift+A to browse diffs interactively
-      const stats = parseGitDiffStat(statResult.stdout);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Reviewed ${changedFiles.length} files for ${taskId}\n\n${statResult.stdout}`,
-          },
-        ],
-        details: {
-          taskId,
-          stat: statResult.stdout,
-          diff: "",
-          fileCount: stats.fileCount,
-          insertions: stats.insertions,
-          deletions: stats.deletions,
-        },
-      };
-    },
-    renderResult(result, { expanded }, theme) {
-      const details = result.details as ReviewAgentDetails | undefined;
+      const agents = getAgents();
+      const rows: OutcomeRow[] = [];
+      for (const agent of agents) {
+        rows.push({ agent, diffStats: agent.status === "completed" ? await getDiffStats(agent.taskId) : undefined });
+      }
       
-      if (!details) {
-        const text = result.content[0]?.type === "text" ? result.content[0].text : "No diff available";
-        return new Text(text, 0, 0);
+      let text = stopped === "done"
+        ? `✅ All ${agents.length} agents finished after ${formatDuration(Date.now() - started)}`
+        : `${stopped === "timeout" ? "⏱️ Timed out" : "⏹️ Stopped"} waiting after ${formatDuration(Date.now() - started)}: ${agents.filter(isTerminal).length}/${agents.length} finished`;
+      text += `\n\n${formatOutcomeTable(rows)}`;
+      
+      const failed = agents.filter(a => a.status === "failed");
+      if (failed.length > 0) {
+        text += `\n\nErrors:\n${failed.map(a => `• ${a.taskId}: ${a.result?.error || "Unknown error"}`).join("\n")}`;
+      }
+      if (stopped !== "done") {
+        text += `\n\n${formatWaitProgress(agents)}\nUnfinished agents will wake you when they finish.`;
       }
       
-      // Show summary only (interactive diff is in the overlay)
-      let summary = theme.fg("toolTitle", theme.bold(`Review: ${details.taskId}\n`));
-      summary += details.stat || "No changes";
-      return new Text(summary, 0, 0);
+      return {
+        content: [{ type: "text", text }],
+        details: undefined,
+      };
     },
   });
 
   // ============================================================================
-  // 7. Register merge_agent tool
+  // 17. Register prune_agents tool and /prune-agents command
   // ============================================================================
   
+  const HOUR_MS = 3_600_000;
+  
+  /**
+   * Stale agent worktrees and branches across every repo agents have worked
+   * in (per the metadata store and live worktrees) plus the given directory's
+   */
+  async function collectStaleAgents(criteria: PruneCriteria, cwd: string): Promise<StaleAgent[]> {
+    if (!worktreeManager || !agentPool) return [];
+    const repos = new Set<string>([
+      ...(metadataStore?.getAll() ?? []).map(meta => meta.repoPath),
+      ...Array.from(worktreeMap.values()).map(info => info.repoPath),
+    ]);
+    const cwdRepo = await worktreeManager.getRepoRoot(cwd);
+    if (cwdRepo) repos.add(cwdRepo);
+    
+    const artifacts = [];
+    for (const repoPath of repos) {
+      const listed = await worktreeManager.listAgentArtifacts(repoPath);
+      artifacts.push(...listed.filter(item => !pendingSpawns.has(item.taskId)));
+    }
+    const stale = findStaleAgents(artifacts, agentPool.getAll(), metadataStore?.getAll() ?? [], criteria);
+    for (const item of stale) {
+      if (item.worktreePath) {
+        item.sizeBytes = await worktreeManager.getDiskUsage(item.worktreePath);
+      }
+    }
+    return stale;
+  }
+  
+  /**
+   * Remove stale agents' worktrees, branches and metadata, then let git drop
+   * records of worktrees already deleted by hand
+   */
+  async function removeStaleAgents(stale: StaleAgent[]): Promise<void> {
+    if (!worktreeManager) return;
+    for (const item of stale) {
+      await worktreeManager.cleanup({
+        taskId: item.taskId,
+        repoPath: item.repoPath,
+        worktreePath: item.worktreePath ?? `${item.repoPath}/.worktrees/${item.taskId}`,
+        branchName: `agent/${item.taskId}`,
+      });
+      worktreeMap.delete(item.taskId);
+      metadataStore?.remove(item.taskId);
+      agentPool?.markDiscarded(item.taskId);
+    }
+    for (const repoPath of new Set(stale.map(item => item.repoPath))) {
+      await worktreeManager.pruneWorktrees(repoPath);
+    }
+    uiContext?.ui?.setStatus("orchestrator", getStatus());
+  }
+  
+  /**
+   * List stale agents, ask the user, and remove them if confirmed
+   * @returns The outcome, for a tool result or notification
+   */
+  async function confirmAndPrune(ui: any, stale: StaleAgent[]): Promise<string> {
+    const list = formatStaleAgents(stale);
+    const confirmed = await ui.confirm("🧹 Prune stale agents?", `${list}\n\nRemove these worktrees and branches?`);
+    if (!confirmed) {
+      return `Prune cancelled, nothing removed:\n${list}`;
+    }
+    await removeStaleAgents(stale);
+    const freed = stale.reduce((sum, item) => sum + (item.sizeBytes ?? 0), 0);
+    return `🧹 Pruned ${stale.length} stale agent(s), freed ${formatBytes(freed)}:\n${list}`;
+  }
+  
+  /**
+   * Prune under the configured age policy without asking; run at session start
+   */
+  async function autoPrune(ctx: any, autoAfterHours: number, includeUnmerged: boolean): Promise<void> {
+    const stale = await collectStaleAgents({ olderThanMs: autoAfterHours * HOUR_MS, includeUnmerged, unattended: true }, ctx.cwd);
+    if (stale.length === 0) return;
+    await removeStaleAgents(stale);
+    const freed = stale.reduce((sum, item) => sum + (item.sizeBytes ?? 0), 0);
+    ctx.ui?.notify(
+      `🧹 Auto-pruned ${stale.length} stale agent(s) older than ${autoAfterHours}h, freed ${formatBytes(freed)}\n${stale.map(item => item.taskId).join(", ")}`,
+      "info"
+    );
+  }
+  
   pi.registerTool({
-    name: "merge_agent",
-    label: "Merge Agent",
-    description: "Merges a completed agent's branch into main and cleans up",
+    name: "prune_agents",
+    label: "Prune Agents",
+    description: "Finds worktrees and agent/* branches left behind by failed, cancelled and orphaned agents (optionally also completed agents that were never merged), lists them with age and disk size, and removes them once the user confirms. Also runs git worktree prune. Running, queued and interrupted agents are never touched.",
     parameters: Type.Object({
-      taskId: Type.String({ description: "Task ID of the agent to merge" }),
+      olderThanHours: Type.Optional(Type.Number({
+        minimum: 0,
+        description: "Only items at least this many hours old (default: 0, any age)"
+      })),
+      includeUnmerged: Type.Optional(Type.Boolean({
+        description: "Also prune completed agents that were never merged (default: false)"
+      })),
+      dryRun: Type.Optional(Type.Boolean({
+        description: "Only list what would be pruned (default: false)"
+      })),
+      cwd: Type.Optional(Type.String({
+        description: "Also check the repo containing this directory (default: the session's working directory)"
+      })),
     }),
     async execute(toolCallId, params, signal, onUpdate, ctx) {
-      const { taskId } = params;
-      
-      // Look up the agent in the pool
-      if (!agentPool) {
+      if (!worktreeManager || !agentPool) {
         return {
-          content: [{ type: "text", text: "Agent pool not initialized" }],
+          content: [{ type: "text", text: "Error: Orchestrator not initialized" }],
           details: undefined,
           isError: true,
         };
       }
       
-      const agent = agentPool.getAgent(taskId);
-      if (!agent) {
+      const stale = await collectStaleAgents({
+        olderThanMs: (params.olderThanHours ?? 0) * HOUR_MS,
+        includeUnmerged: params.includeUnmerged ?? false,
+      }, params.cwd ?? ctx.cwd);
+      if (stale.length === 0) {
         return {
-          content: [{ type: "text", text: `Agent not found: ${taskId}` }],
+          content: [{ type: "text", text: "🧹 Nothing to prune" }],
           details: undefined,
-          isError: true,
         };
       }
       
-      // Check if agent is completed
-      if (agent.status !== "completed") {
+      if (params.dryRun) {
         return {
-          content: [{ type: "text", text: `Agent is ${agent.status}, can only merge completed agents` }],
+          content: [{ type: "text", text: `Would prune:\n${formatStaleAgents(stale)}` }],
           details: undefined,
-          isError: true,
         };
       }
       
-      // Get worktree info
-      const worktreeInfo = worktreeMap.get(taskId);
-      if (!worktreeInfo) {
+      // Removing work needs the user's say-so
+      if (!uiContext?.hasUI) {
         return {
-          content: [{ type: "text", text: `No worktree found for task: ${taskId}` }],
+          content: [{
+            type: "text",
+            text: `Not removed: pruning needs confirmation in the interactive UI (or prune.autoAfterHours in config.json).\n${formatStaleAgents(stale)}`,
+          }],
           details: undefined,
           isError: true,
         };
       }
       
-      if (!worktreeManager) {
-        return {
-          content: [{ type: "text", text: "Worktree manager not initialized" }],
-          details: undefined,
-          isError: true,
-        };
+      return {
+        content: [{ type: "text", text: await confirmAndPrune(uiContext.ui, stale) }],
+        details: undefined,
+      };
+    },
+  });
+  
+  pi.registerCommand("prune-agents", {
+    description: "Remove stale agent worktrees and branches: /prune-agents [min age in hours] [--unmerged]",
+    handler: async (args, ctx) => {
+      if (!worktreeManager || !agentPool) {
+        ctx.ui.notify("Orchestrator not initialized", "error");
+        return;
       }
       
-      // Call mergeWorktree
-      const mergeResult = await worktreeManager.mergeWorktree(worktreeInfo);
+      const words = (args ?? "").trim().split(/\s+/).filter(Boolean);
+      const hours = Number(words.find(word => !word.startsWith("--")) ?? 0);
+      if (!Number.isFinite(hours) || hours < 0) {
+        ctx.ui.notify("Usage: /prune-agents [min age in hours] [--unmerged]", "error");
+        return;
+      }
       
-      if (mergeResult.success) {
-        // Remove from worktree map since it's cleaned up
-        worktreeMap.delete(taskId);
-        return {
-          content: [{ type: "text", text: `✅ Merged ${worktreeInfo.branchName} into main and cleaned up worktree` }],
-          details: undefined,
-        };
-      } else {
-        const conflictList = mergeResult.conflictFiles?.join(", ") || "unknown files";
-        return {
-          content: [{ type: "text", text: `❌ Merge conflicts in: ${conflictList}. Branch preserved for manual resolution.` }],
-          details: undefined,
-          isError: true,
-        };
+      const stale = await collectStaleAgents({
+        olderThanMs: hours * HOUR_MS,
+        includeUnmerged: words.includes("--unmerged"),
+      }, ctx.cwd);
+      if (stale.length === 0) {
+        ctx.ui.notify("🧹 Nothing to prune", "info");
+        return;
       }
+      ctx.ui.notify(await confirmAndPrune(ctx.ui, stale), "info");
     },
   });
 
   // ============================================================================
-  // 8. Register /agents command
+  // 18. Register /agents command
   // ============================================================================
   
   pi.registerCommand("agents", {
@@ -584,7 +2156,10 @@ export default function orchestrator(pi: ExtensionAPI) {
         const statusEmoji = 
           agent.status === "running" ? "🔄" :
           agent.status === "queued" ? "⏳" :
+          agent.status === "blocked" ? "⛓️" :
+          agent.status === "interrupted" ? "⚠️" :
           agent.status === "completed" ? "✅" :
+          agent.status === "cancelled" ? "🛑" :
           "❌";
         
         return `${statusEmoji} ${agent.taskId} [${agent.status}] — ${agent.description}`;
@@ -603,6 +2178,51 @@ export default function orchestrator(pi: ExtensionAPI) {
       const selectedIndex = options.indexOf(selected);
       const agent = agents[selectedIndex];
       
+      // Offer the transcript, and cancellation for agents that haven't finished
+      const actions = ["View details"];
+      if (agent.status !== "queued" && agent.status !== "blocked") {
+        actions.push("View transcript");
+      }
+      if (agent.status === "interrupted") {
+        actions.push("Resume from saved session", "Retry from scratch", "Discard and remove worktree");
+      }
+      if (agent.status === "running" || agent.status === "queued" || agent.status === "blocked") {
+        actions.push("Cancel agent", "Cancel agent and remove worktree");
+      }
+      
+      const action = actions.length > 1
+        ? await ctx.ui.select(`🤖 ${agent.taskId}`, actions)
+        : "View details";
+      if (action === undefined) {
+        return;
+      }
+      if (action === "View transcript") {
+        await showTranscript(ctx, agent.taskId);
+        return;
+      }
+      const recovery: Record<string, RecoveryAction> = {
+        "Resume from saved session": "resume",
+        "Retry from scratch": "retry",
+        "Discard and remove worktree": "discard",
+      };
+      if (recovery[action]) {
+        try {
+          ctx.ui.notify(await recoverAgent(agent.taskId, recovery[action]), "info");
+        } catch (error) {
+          ctx.ui.notify(error instanceof Error ? error.message : String(error), "error");
+        }
+        return;
+      }
+      if (action !== "View details") {
+        try {
+          const message = await cancelAgent(agent.taskId, action === "Cancel agent and remove worktree");
+          ctx.ui.notify(message, "info");
+        } catch (error) {
+          ctx.ui.notify(error instanceof Error ? error.message : String(error), "error");
+        }
+        return;
+      }
+      
       // Show details
       let details = `Agent: ${agent.taskId}\n`;
       details += `Description: ${agent.description}\n`;
@@ -616,6 +2236,20 @@ export default function orchestrator(pi: ExtensionAPI) {
         details += `Duration: ${duration}\n`;
       }
       
+      const attempts = formatAttempts(agent, "  ");
+      if (attempts) {
+        details += `Attempts:\n${attempts}`;
+      }
+      
+      if (agent.result?.transcriptPath) {
+        details += `Transcript: ${agent.result.transcriptPath}\n`;
+      }
+      
+      if (agent.result?.report) {
+        details += `\n--- Report ---\n`;
+        details += formatAgentReport(agent.result.report) + "\n";
+      }
+      
       if (agent.result) {
         details += `\n--- Result ---\n`;
         if (agent.result.success) {
@@ -629,7 +2263,11 @@ export default function orchestrator(pi: ExtensionAPI) {
       } else if (agent.status === "running") {
         details += `\n(Agent is still running...)`;
       } else if (agent.status === "queued") {
-        details += `\n(Agent is queued, waiting for capacity...)`;
+        details += `\n(Agent is queued, ${agentPool.getWaitReason(agent.taskId) ?? "waiting for capacity"}...)`;
+      } else if (agent.status === "blocked") {
+        details += `\n(Agent is blocked, waiting for: ${agentPool.getBlockers(agent.taskId).join(", ")})`;
+      } else if (agent.status === "interrupted") {
+        details += `\n(Agent was interrupted by a restart; resume, retry or discard it)`;
       }
       
       ctx.ui.notify(details, "info");
@@ -637,7 +2275,7 @@ export default function orchestrator(pi: ExtensionAPI) {
   });
 
   // ============================================================================
-  // 7. Register keyboard shortcuts
+  // 19. Register keyboard shortcuts
   // ============================================================================
   
   pi.registerShortcut("ctrl+shift+a", {
@@ -645,10 +2283,11 @@ export default function orchestrator(pi: ExtensionAPI) {
     handler: async (ctx) => {
       if (!ctx.hasUI) return;
       
-      if (!metadataStore) {
+      if (!metadataStore || !worktreeManager) {
         ctx.ui.notify("Agent metadata not loaded yet", "info");
         return;
       }
+      const manager = worktreeManager;
       
       const completed = metadataStore.getCompleted();
       if (completed.length === 0) {
@@ -710,17 +2349,32 @@ export default function orchestrator(pi: ExtensionAPI) {
         
         // Load diff from git
         const state = new DiffState();
-        const execSync = require("node:child_process").execSync;
+        const execFileSync = require("node:child_process").execFileSync;
         
         const gitOpts = { cwd: agentMeta.repoPath, encoding: "utf-8" as const, stdio: ["pipe", "pipe", "pipe"] as const };
         
+        // The metadata file is hand-editable; never pass git a ref it could read as an option
+        try {
+          validateBranchName(agentMeta.branchName);
+          if (agentMeta.baseSha) validateRevision(agentMeta.baseSha);
+        } catch (error) {
+          ctx.ui.notify(error instanceof Error ? error.message : String(error), "error");
+          continue;
+        }
+        
+        // Diff from the merge-base with the recorded base commit; older entries have none
+        let base = agentMeta.baseSha ?? await manager.getDefaultBranch(agentMeta.repoPath);
+        try {
+          base = (execFileSync("git", ["merge-base", base, agentMeta.branchName], gitOpts) as string).trim() || base;
+        } catch { /* branch gone or unrelated history */ }
+        
         let changedFiles: string[];
         try {
-          const output = execSync(
-            `git diff main..${agentMeta.branchName} --name-only`,
+          const output = execFileSync(
+            "git", ["diff", `${base}..${agentMeta.branchName}`, "--name-only", "-z"],
             gitOpts,
           ) as string;
-          changedFiles = output.trim().split("\n").filter((f: string) => f.length > 0);
+          changedFiles = output.split("\0").filter((f: string) => f.length > 0);
         } catch {
           changedFiles = [];
         }
@@ -729,10 +2383,10 @@ export default function orchestrator(pi: ExtensionAPI) {
           let original = "";
           let current = "";
           try {
-            original = execSync(`git show main:${filePath}`, gitOpts) as string;
+            original = execFileSync("git", ["show", `${base}:${filePath}`], gitOpts) as string;
           } catch { /* new file */ }
           try {
-            current = execSync(`git show ${agentMeta.branchName}:${filePath}`, gitOpts) as string;
+            current = execFileSync("git", ["show", `${agentMeta.branchName}:${filePath}`], gitOpts) as string;
           } catch { /* deleted file */ }
           state.trackFile(filePath, original, current);
         }
@@ -782,36 +2436,42 @@ export default function orchestrator(pi: ExtensionAPI) {
   });
 
   // ============================================================================
-  // 8. Hook into session_start event
+  // 20. Hook into session_start event
   // ============================================================================
   
   pi.on("session_start", async (_event, ctx) => {
     // Load budget history
     await budgetTracker.load();
     
+    // Load user configuration (pool, rate and spend limits)
+    configStore.load();
+    const config = configStore.get();
+    budgetTracker.setCeilings(config.spendCeilings);
+    
     // Initialize and load agent metadata store
     metadataStore = new AgentMetadataStore(join(dataDir, "agent-metadata.json"));
     metadataStore.load();
     
     // Capture UI context
-    uiContext = { ui: ctx.ui };
+    uiContext = { ui: ctx.ui, hasUI: ctx.hasUI };
     
     // Initialize LifecycleManager with runtime dependencies
     lifecycleManager = new LifecycleManager({
       createSession: createAgentSession,
       modelRegistry: ctx.modelRegistry,
+      transcriptStore,
     });
     
     // Initialize WorktreeManager
-    const execFn = async (command: string, options?: { cwd?: string }) => {
-      const result = await pi.exec("bash", ["-c", command], { cwd: options?.cwd });
+    const execFn: ExecFunction = async (file, args, options) => {
+      const result = await pi.exec(file, args, { cwd: options?.cwd });
       return { stdout: result.stdout, stderr: result.stderr, code: result.code ?? 0 };
     };
     worktreeManager = new WorktreeManager(execFn);
     
     // Initialize AgentPool with event callbacks
     agentPool = new AgentPool(
-      3, // maxConcurrent
+      config.pool.maxConcurrent,
       lifecycleManager,
       budgetTracker,
       {
@@ -869,6 +2529,7 @@ export default function orchestrator(pi: ExtensionAPI) {
                 tier: info.tier,
                 branchName: wt.branchName,
                 repoPath: wt.repoPath,
+                baseSha: wt.baseSha,
                 status: "completed",
                 completedAt: Date.now(),
               });
@@ -888,15 +2549,21 @@ export default function orchestrator(pi: ExtensionAPI) {
             }
           }
           
-          // Wake up parent agent with completion notification
-          pi.sendMessage({
-            customType: "orchestrator-agent-complete",
-            content: `Agent completed: ${info.taskId}\nDescription: ${info.description}\nResult: ${info.result?.output?.substring(0, 2000) || "No output"}`,
-            display: false,
-          }, {
-            triggerTurn: true,
-            deliverAs: "followUp",
-          });
+          // Wake up parent agent with completion notification (batches wake once, when done)
+          if (info.batchId) {
+            wakeIfBatchDone(info.batchId);
+          } else if (!awaitedTasks.has(info.taskId)) {
+            pi.sendMessage({
+              customType: "orchestrator-agent-complete",
+              content: info.result?.report
+                ? `Agent completed: ${info.taskId}${attemptSuffix(info)}\nDescription: ${info.description}\nReport:\n${formatAgentReport(info.result.report)}`
+                : `Agent completed: ${info.taskId}${attemptSuffix(info)}\nDescription: ${info.description}\nResult: ${info.result?.output?.substring(0, 2000) || "No output"}`,
+              display: false,
+            }, {
+              triggerTurn: true,
+              deliverAs: "followUp",
+            });
+          }
           
           // Save budget after each task
           await budgetTracker.save();
@@ -917,26 +2584,28 @@ export default function orchestrator(pi: ExtensionAPI) {
             clearAgentWidget();
           }
           
-          // Save agent metadata
-          if (metadataStore) {
-            const wt = worktreeMap.get(info.taskId);
-            if (wt) {
-              metadataStore.add({
-                taskId: info.taskId,
-                description: info.description,
-                tier: info.tier,
-                branchName: wt.branchName,
-                repoPath: wt.repoPath,
-                status: "failed",
-                completedAt: Date.now(),
-              });
-            }
+          // Save agent metadata (worktree is kept so partial work can be reviewed)
+          const wt = worktreeMap.get(info.taskId);
+          if (metadataStore && wt) {
+            metadataStore.add({
+              taskId: info.taskId,
+              description: info.description,
+              tier: info.tier,
+              branchName: wt.branchName,
+              repoPath: wt.repoPath,
+              baseSha: wt.baseSha,
+              status: "failed",
+              completedAt: Date.now(),
+            });
           }
           
+          const budgetExceeded = info.result?.outcome === "budget-exceeded";
+          const failedLabel = budgetExceeded ? "Agent stopped (budget exceeded)" : "Agent failed";
+          
           if (ctx.ui) {
             const error = info.result?.error || "Unknown error";
             ctx.ui.notify(
-              `❌ Agent failed: ${info.taskId}\n${info.description}\nError: ${error}`,
+              `${budgetExceeded ? "💸" : "❌"} ${failedLabel}: ${info.taskId}\n${info.description}\nError: ${error}`,
               "error"
             );
 
@@ -947,26 +2616,148 @@ export default function orchestrator(pi: ExtensionAPI) {
             }
           }
           
-          // Wake up parent agent with failure notification
-          pi.sendMessage({
-            customType: "orchestrator-agent-failed",
-            content: `Agent failed: ${info.taskId}\nDescription: ${info.description}\nError: ${info.result?.error || "Unknown error"}\nOutput: ${info.result?.output?.substring(0, 2000) || "No output"}`,
-            display: false,
-          }, {
-            triggerTurn: true,
-            deliverAs: "followUp",
-          });
+          // Wake up parent agent with failure notification (batches wake once, when done)
+          if (info.batchId) {
+            wakeIfBatchDone(info.batchId);
+          } else if (!awaitedTasks.has(info.taskId)) {
+            pi.sendMessage({
+              customType: "orchestrator-agent-failed",
+              content: `${failedLabel}: ${info.taskId}${attemptSuffix(info)}\nDescription: ${info.description}\nError: ${info.result?.error || "Unknown error"}${budgetExceeded && wt ? `\nPartial work preserved on branch ${wt.branchName}` : ""}${info.attempts.length > 1 ? `\nAttempts:\n${formatAttempts(info, "  ")}` : ""}\nOutput: ${info.result?.output?.substring(0, 2000) || "No output"}`,
+              display: false,
+            }, {
+              triggerTurn: true,
+              deliverAs: "followUp",
+            });
+          }
           
           // Save budget after each task
           await budgetTracker.save();
         },
         
+        onBeforeRetry: (task) => admitSpend(task, "Retrying", () => undefined),
+        
+        onRetry: (info, failed) => {
+          if (ctx.ui) {
+            ctx.ui.notify(
+              `🔁 Retrying ${info.taskId} (attempt ${info.attempt}, ${info.tier}) after ${failed.outcome}: ${failed.error || "Unknown error"}`,
+              "warning"
+            );
+            ctx.ui.setStatus("orchestrator", getStatus());
+          }
+        },
+        
+        onRateLimited: (info, event) => {
+          if (ctx.ui) {
+            ctx.ui.notify(
+              `⏳ ${info.taskId} rate limited, retrying in ${Math.ceil(event.delayMs / 1000)}s (retry ${event.retry})`,
+              "warning"
+            );
+          }
+        },
+        
+        onStateChange: () => savePoolState(),
+        
+        onCancelled: async (info) => {
+          // Clear widget if this was the displayed agent
+          if (currentAgentId === info.taskId) {
+            clearAgentWidget();
+          }
+          
+          if (ctx.ui) {
+            ctx.ui.notify(`🛑 Agent cancelled: ${info.taskId}\n${info.description}`, "info");
+            ctx.ui.setStatus("orchestrator", getStatus());
+          }
+          
+          // No wake-up: cancellation is deliberate, not a failure to react to.
+          // A batch still reports once its last agent is done, cancelled or not.
+          if (info.batchId) {
+            wakeIfBatchDone(info.batchId);
+          }
+          
+          // Spend up to the cancellation is still recorded.
+          await budgetTracker.save();
+        },
+        
         onWarning: (warning) => {
           if (ctx.ui) {
             ctx.ui.notify(warning.message, "warning");
           }
         },
+        
+        onHardLimit: async (info, warning) => {
+          // Without an interactive UI, enforce the limit
+          if (!ctx.hasUI) return false;
+          return ctx.ui.confirm(
+            "💸 Hard budget limit reached",
+            `${warning.message}\n\nTask: ${info.description}\nContinue running this agent? (No aborts it and keeps its partial work)`
+          );
+        },
       }
     );
+    agentPool.setLimits({ tierLimits: config.pool.tierLimits });
+    agentPool.setRateLimits(config.rateLimits);
+    
+    // Let other extensions follow subagent lifecycle, e.g. pi.events.on("sirdar:completed", ...)
+    agentPool.bus.onAny((type, payload) => pi.events.emit(`${PI_EVENT_PREFIX}${type}`, payload));
+    
+    // Tasks that end without recorded spend (cancelled while queued, failed while blocked) give back their reservation
+    for (const type of ["failed", "cancelled"] as const) {
+      agentPool.bus.on(type, ({ taskId }) => {
+        budgetTracker.release(taskId);
+        ctx.ui?.setStatus("orchestrator", getStatus());
+      });
+    }
+    
+    // Pick up where the last process left off: re-queue queued agents,
+    // keep interrupted ones (and their worktrees) for the user to decide
+    const saved = poolStateStore.load();
+    restoringPool = true;
+    for (const entry of saved) {
+      if (entry.worktree) {
+        worktreeMap.set(entry.task.id, entry.worktree);
+      }
+      if (entry.useWorktree !== undefined) {
+        deferredWorktrees.set(entry.task.id, { useWorktree: entry.useWorktree, baseRef: entry.baseRef });
+      }
+      // Already admitted last session; hold their expected cost again until they run
+      if (entry.status === "queued" || entry.status === "blocked") {
+        budgetTracker.reserve(entry.task.id, budgetTracker.getExpectedCost(entry.task.tier));
+      }
+      try {
+        agentPool.restore(entry, entry.status === "blocked" ? {
+          prepare: createDependentPreparer(entry.task.id, entry.task.cwd, entry.useWorktree ?? true, entry.task.dependsOn ?? [], entry.baseRef),
+          discard: createDependentDiscarder(entry.task.id),
+        } : undefined);
+      } catch (error) {
+        budgetTracker.release(entry.task.id);
+        console.error(`Failed to restore agent ${entry.task.id}:`, error);
+      }
+    }
+    restoringPool = false;
+    savePoolState();
+    
+    const interrupted = agentPool.getAll().filter(a => a.status === "interrupted");
+    const requeued = saved.filter(entry => entry.status === "queued" || entry.status === "blocked").length;
+    if (requeued > 0 || interrupted.length > 0) {
+      ctx.ui.setStatus("orchestrator", getStatus());
+      const lines = [`♻️ Restored agents from the last session`];
+      if (requeued > 0) lines.push(`Re-queued: ${requeued}`);
+      if (interrupted.length > 0) lines.push(`Interrupted: ${interrupted.map(a => a.taskId).join(", ")}`);
+      ctx.ui.notify(lines.join("\n"), interrupted.length > 0 ? "warning" : "info");
+      
+      // Don't hold up startup while the user decides
+      if (ctx.hasUI && interrupted.length > 0) {
+        offerRecovery(ctx, interrupted).catch(error => {
+          ctx.ui.notify(`❌ Recovering interrupted agents failed: ${error instanceof Error ? error.message : String(error)}`, "error");
+        });
+      }
+    }
+    
+    // Age-based cleanup of leftovers from earlier sessions, in the background
+    if (config.prune.autoAfterHours !== undefined) {
+      autoPrune(ctx, config.prune.autoAfterHours, config.prune.includeUnmerged).catch(error => {
+        console.error("Failed to auto-prune agents:", error);
+      });
+    }
   });
 }
@@ -2,7 +2,7 @@
  * LifecycleManager - Spawns and monitors subagent sessions
  */
 
-import { getModel } from "@mariozechner/pi-ai";
+import { getModel, type Usage } from "@mariozechner/pi-ai";
 import {
   createAgentSession,
   SessionManager,
@@ -12,15 +12,53 @@ import {
   type AgentSessionEvent,
 } from "@mariozechner/pi-coding-agent";
 import { selectModel } from "./model-selector";
-import type { TaskDefinition, TaskResult } from "./types";
+import { estimateCost, emptyTokenUsage } from "./pricing";
+import { checkBudgetThresholds, type BudgetWarning } from "./budget-tracker";
+import { loadContextFiles, formatContextFiles } from "./context-files";
+import { parseAgentReport, REPORT_INSTRUCTIONS } from "./agent-report";
+import type { TranscriptStore } from "./transcript-store";
+import { isRateLimitError, parseRetryAfter, getBackoffDelay, DEFAULT_BACKOFF, type BackoffOptions } from "./rate-limit";
+import type { TaskDefinition, TaskResult, TaskOutcome, TokenUsage } from "./types";
 
 // Injectable createSession type for testing
 type CreateSessionFunction = typeof createAgentSession;
 
+/**
+ * Per-run hooks for live budget enforcement
+ */
+export interface RunTaskOptions {
+  /** Called once when accrued spend crosses the tier's soft threshold */
+  onBudgetWarning?: (warning: BudgetWarning) => void;
+  /**
+   * Called once when accrued spend crosses the tier's hard threshold.
+   * Resolve true to let the agent continue, false to abort it.
+   * Without this hook the session is aborted immediately.
+   */
+  onHardLimit?: (warning: BudgetWarning) => Promise<boolean>;
+  /** Spend already recorded for this task by earlier attempts, counted against its thresholds */
+  priorCost?: number;
+  /** Called for each model request with the tokens it used, for rate limiting */
+  onRequest?: (tokens: number) => void;
+  /** Called when the provider throttled a turn and it will be retried after delayMs */
+  onRateLimited?: (event: RateLimitEvent) => void;
+  /** Called when the agent starts running a tool */
+  onToolCall?: (toolName: string, args: unknown) => void;
+}
+
+export interface RateLimitEvent {
+  retry: number;         // 1 for the first retry
+  delayMs: number;
+  error: string;
+}
+
 interface LifecycleManagerDeps {
   createSession: CreateSessionFunction;
   authStorage?: AuthStorage;
   modelRegistry?: ModelRegistry;
+  /** Persist each task's session under this store; in-memory sessions when omitted */
+  transcriptStore?: TranscriptStore;
+  /** Retry policy for rate-limited turns (defaults to DEFAULT_BACKOFF) */
+  backoff?: BackoffOptions;
 }
 
 function buildSystemPrompt(cwd: string): string {
@@ -31,11 +69,60 @@ IMPORTANT: Stay in this directory. Use relative paths. Do NOT cd to other direct
 
 Do not ask questions — make reasonable decisions and proceed.
 If you encounter an error, try to fix it. If you cannot, report what went wrong.
-When finished, commit your changes with the commit message specified in the task.`;
+When finished, commit your changes with the commit message specified in the task.
+
+${REPORT_INSTRUCTIONS}`;
 }
 
 const DEFAULT_TIMEOUT_MS = 600000; // 10 minutes
 const MAX_OUTPUT_LENGTH = 5000;
+const CHARS_PER_TOKEN = 4; // rough estimate for streamed thinking text
+const RATE_LIMIT_CONTINUE_PROMPT =
+  "Your last request was rate limited by the provider. Continue the task where you left off.";
+
+/**
+ * Accumulates per-turn token usage from session events and prices it
+ */
+class UsageAccumulator {
+  private usage: TokenUsage = emptyTokenUsage();
+  private reportedCost = 0;
+  private thinkingChars = 0;
+  private modelId?: string;
+
+  setModel(modelId: string): void {
+    this.modelId = modelId;
+  }
+
+  /**
+   * Add the usage reported on a finished assistant message
+   */
+  addMessageUsage(usage: Usage | undefined): void {
+    if (!usage) return;
+    this.usage.input += usage.input;
+    this.usage.output += usage.output;
+    this.usage.cacheRead = (this.usage.cacheRead ?? 0) + usage.cacheRead;
+    this.usage.cacheWrite = (this.usage.cacheWrite ?? 0) + usage.cacheWrite;
+    this.reportedCost += usage.cost?.total ?? 0;
+  }
+
+  addThinkingDelta(delta: string): void {
+    this.thinkingChars += delta.length;
+    this.usage.thinking = Math.ceil(this.thinkingChars / CHARS_PER_TOKEN);
+  }
+
+  getUsage(): TokenUsage {
+    return { ...this.usage };
+  }
+
+  /**
+   * Cost from the price table, falling back to the provider-reported cost
+   * for models the table doesn't know
+   */
+  getCost(): number {
+    const estimate = this.modelId ? estimateCost(this.modelId, this.usage) : undefined;
+    return estimate ?? this.reportedCost;
+  }
+}
 
 /**
  * Manages the lifecycle of a single subagent session
@@ -44,26 +131,105 @@ export class LifecycleManager {
   private createSession: CreateSessionFunction;
   private authStorage?: AuthStorage;
   private modelRegistry?: ModelRegistry;
+  private transcriptStore?: TranscriptStore;
+  private backoff: BackoffOptions;
+  // Stop handles for runs in progress, keyed by task ID
+  private activeRuns: Map<string, () => void> = new Map();
 
   constructor(deps: LifecycleManagerDeps) {
     this.createSession = deps.createSession;
     this.authStorage = deps.authStorage;
     this.modelRegistry = deps.modelRegistry;
+    this.transcriptStore = deps.transcriptStore;
+    this.backoff = deps.backoff ?? DEFAULT_BACKOFF;
+  }
+
+  /**
+   * Abort a running task. Its runTask call resolves with outcome "cancelled".
+   * @returns true if the task was running, false otherwise
+   */
+  cancel(taskId: string): boolean {
+    const stop = this.activeRuns.get(taskId);
+    if (!stop) {
+      return false;
+    }
+    stop();
+    return true;
   }
 
   /**
    * Spawn a subagent, wait for completion, return result
    */
-  async runTask(task: TaskDefinition, onOutput?: (delta: string) => void): Promise<TaskResult> {
+  async runTask(
+    task: TaskDefinition,
+    onOutput?: (delta: string) => void,
+    options?: RunTaskOptions
+  ): Promise<TaskResult> {
     const startTime = Date.now();
     let outputText = "";
     let session: any = null;
     let timeoutId: NodeJS.Timeout | null = null;
+    let backoffId: NodeJS.Timeout | null = null;
     let timedOut = false;
+    let finished = false;
+    let transcriptPath: string | undefined;
+
+    const usage = new UsageAccumulator();
+
+    // Early stop (budget abort or cancellation): aborts the session and
+    // rejects stopPromise, which races against session.prompt
+    let stopOutcome: TaskOutcome | null = null;
+    let rejectStop: (error: Error) => void = () => {};
+    const stopPromise = new Promise<void>((_, reject) => {
+      rejectStop = reject;
+    });
+    stopPromise.catch(() => {}); // may reject before the race subscribes
+
+    const stop = (outcome: TaskOutcome, message: string) => {
+      if (finished || stopOutcome) return;
+      stopOutcome = outcome;
+      session?.abort();
+      rejectStop(new Error(message));
+    };
+
+    this.activeRuns.set(task.id, () => stop("cancelled", "Task cancelled"));
+
+    // Live budget enforcement state
+    let softNotified = false;
+    let hardHandled = false;
+
+    const abortForBudget = (warning: BudgetWarning) => {
+      stop("budget-exceeded", `Budget exceeded: ${warning.message}`);
+    };
+
+    const checkBudget = () => {
+      const spent = (options?.priorCost ?? 0) + usage.getCost();
+      const warning = checkBudgetThresholds(task.id, task.tier, spent);
+      if (!warning) return;
+
+      if (warning.type === "soft" && !softNotified) {
+        softNotified = true;
+        options?.onBudgetWarning?.(warning);
+      } else if (warning.type === "hard" && !hardHandled) {
+        hardHandled = true;
+        softNotified = true;
+        if (!options?.onHardLimit) {
+          abortForBudget(warning);
+          return;
+        }
+        options.onHardLimit(warning).then(
+          (shouldContinue) => {
+            if (!shouldContinue) abortForBudget(warning);
+          },
+          () => abortForBudget(warning)
+        );
+      }
+    };
 
     try {
       // 1. Select model based on tier
       const modelSelection = selectModel(task.tier);
+      usage.setModel(modelSelection.modelId);
 
       // 2. Get the Model object
       const model = getModel(modelSelection.provider as any, modelSelection.modelId);
@@ -73,18 +239,33 @@ export class LifecycleManager {
         );
       }
 
-      // 3. Create ResourceLoader with custom system prompt
+      // 3. Preload context files (fails the task clearly if any are missing)
       const effectiveCwd = task.cwd || process.cwd();
+      let prompt = task.prompt;
+      if (task.contextFiles && task.contextFiles.length > 0) {
+        const context = await loadContextFiles(task.contextFiles, effectiveCwd);
+        prompt = formatContextFiles(context) + task.prompt;
+      }
+
+      // 4. Create ResourceLoader with custom system prompt
       const loader = new DefaultResourceLoader({
         systemPromptOverride: () => buildSystemPrompt(effectiveCwd),
       });
       await loader.reload();
 
-      // 4. Create session
+      // 5. Create session (persisted so the transcript outlives the task),
+      // or reopen the saved one when continuing a finished task
+      const sessionManager = task.resumeSessionFile
+        ? SessionManager.open(task.resumeSessionFile)
+        : this.transcriptStore
+        ? SessionManager.create(effectiveCwd, this.transcriptStore.getSessionDir(task.id))
+        : SessionManager.inMemory();
+      transcriptPath = sessionManager.getSessionFile();
+
       const { session: agentSession } = await this.createSession({
         model,
         thinkingLevel: modelSelection.thinkingLevel,
-        sessionManager: SessionManager.inMemory(),
+        sessionManager,
         cwd: task.cwd || process.cwd(),
         authStorage: this.authStorage,
         modelRegistry: this.modelRegistry,
@@ -93,7 +274,13 @@ export class LifecycleManager {
 
       session = agentSession;
 
-      // 5. Subscribe to session events to capture output
+      // Cancelled while the session was being created
+      if (stopOutcome) {
+        throw new Error("Task cancelled");
+      }
+
+      // 6. Subscribe to session events to capture output and usage
+      let lastAssistant: any = undefined;
       session.subscribe((event: AgentSessionEvent) => {
         if (
           event.type === "message_update" &&
@@ -102,10 +289,25 @@ export class LifecycleManager {
           const delta = event.assistantMessageEvent.delta;
           outputText += delta;
           onOutput?.(delta);
+        } else if (
+          event.type === "message_update" &&
+          event.assistantMessageEvent?.type === "thinking_delta"
+        ) {
+          usage.addThinkingDelta(event.assistantMessageEvent.delta);
+        } else if (event.type === "tool_execution_start") {
+          options?.onToolCall?.(event.toolName, event.args);
+        } else if (
+          event.type === "message_end" &&
+          event.message.role === "assistant"
+        ) {
+          lastAssistant = event.message;
+          usage.addMessageUsage(event.message.usage);
+          options?.onRequest?.((event.message.usage?.input ?? 0) + (event.message.usage?.output ?? 0));
+          checkBudget();
         }
       });
 
-      // 6. Set up timeout
+      // 7. Set up timeout
       const timeoutMs = task.timeoutMs ?? DEFAULT_TIMEOUT_MS;
       const timeoutPromise = new Promise<void>((_, reject) => {
         timeoutId = setTimeout(() => {
@@ -115,35 +317,66 @@ export class LifecycleManager {
         }, timeoutMs);
       });
 
-      // 7. Call session.prompt (blocks until agent completes)
-      await Promise.race([
-        session.prompt(task.prompt),
-        timeoutPromise,
-      ]);
+      // 8. Call session.prompt (blocks until agent completes). A turn that
+      // ends throttled (after the SDK's own retries) is prompted to continue
+      // after a jittered backoff, so agents throttled together spread out.
+      let turnPrompt = prompt;
+      for (let retry = 1; ; retry++) {
+        lastAssistant = undefined;
+        await Promise.race([
+          session.prompt(turnPrompt),
+          timeoutPromise,
+          stopPromise,
+        ]);
+
+        const turnError: string | undefined = lastAssistant?.stopReason === "error" ? lastAssistant.errorMessage : undefined;
+        if (!isRateLimitError(turnError)) break;
+        if (retry > this.backoff.maxRetries) {
+          throw new Error(`Rate limited after ${this.backoff.maxRetries} retries: ${turnError}`);
+        }
+
+        const delayMs = Math.max(getBackoffDelay(retry, this.backoff), parseRetryAfter(turnError!) ?? 0);
+        options?.onRateLimited?.({ retry, delayMs, error: turnError! });
+        await Promise.race([
+          new Promise<void>((resolve) => {
+            backoffId = setTimeout(resolve, delayMs);
+          }),
+          timeoutPromise,
+          stopPromise,
+        ]);
+        turnPrompt = RATE_LIMIT_CONTINUE_PROMPT;
+      }
+      finished = true;
 
       // Clear timeout if completed successfully
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
 
-      // 8. Truncate output if needed (keep last N chars, not first N)
+      // 9. Parse the final report, then truncate output if needed (keep last N chars, not first N)
+      const report = parseAgentReport(outputText);
       if (outputText.length > MAX_OUTPUT_LENGTH) {
         outputText = outputText.substring(outputText.length - MAX_OUTPUT_LENGTH);
       }
 
       const durationMs = Date.now() - startTime;
 
-      // 9. Build and return TaskResult
+      // 10. Build and return TaskResult
       return {
         taskId: task.id,
         success: true,
         output: outputText,
-        filesChanged: [],
-        tokenUsage: { input: 0, output: 0 },
-        costEstimate: 0,
+        filesChanged: report?.filesTouched ?? [],
+        tokenUsage: usage.getUsage(),
+        costEstimate: usage.getCost(),
         durationMs,
+        outcome: "success",
+        report,
+        transcriptPath,
       };
     } catch (error) {
+      finished = true;
+
       // Clear timeout on error
       if (timeoutId) {
         clearTimeout(timeoutId);
@@ -153,23 +386,34 @@ export class LifecycleManager {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
 
-      // Truncate output if needed (keep last N chars, not first N)
+      // Parse any final report, then truncate output if needed (keep last N chars, not first N)
+      const report = parseAgentReport(outputText);
       if (outputText.length > MAX_OUTPUT_LENGTH) {
         outputText = outputText.substring(outputText.length - MAX_OUTPUT_LENGTH);
       }
 
+      const outcome: TaskOutcome = stopOutcome ?? (timedOut ? "timeout" : "failed");
+
       return {
         taskId: task.id,
         success: false,
         output: outputText,
-        filesChanged: [],
-        tokenUsage: { input: 0, output: 0 },
-        costEstimate: 0,
+        filesChanged: report?.filesTouched ?? [],
+        tokenUsage: usage.getUsage(),
+        costEstimate: usage.getCost(),
         durationMs,
         error: errorMessage,
+        outcome,
+        report,
+        transcriptPath,
       };
     } finally {
-      // 10. Always dispose of the session
+      this.activeRuns.delete(task.id);
+      if (backoffId) {
+        clearTimeout(backoffId);
+      }
+
+      // 11. Always dispose of the session
       if (session) {
         session.dispose();
       }
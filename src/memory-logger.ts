@@ -1,6 +1,6 @@
 import * as fs from "fs/promises";
 import * as path from "path";
-import type { TaskResult, TaskTier } from "./types";
+import type { AgentReport, TaskResult, TaskTier, TokenUsage } from "./types";
 
 export interface MemoryEntry {
   timestamp: number;
@@ -12,6 +12,8 @@ export interface MemoryEntry {
     model?: string;
     costEstimate?: number;
     durationMs?: number;
+    tokenUsage?: TokenUsage;
+    report?: AgentReport;
   };
 }
 
@@ -37,9 +39,17 @@ export class MemoryLogger {
     const status = result.success ? "[COMPLETE]" : "[FAILED]";
     const durationSec = (result.durationMs / 1000).toFixed(1);
     const cost = `$${result.costEstimate.toFixed(2)}`;
-    const description = result.output;
+    const tokens = `${result.tokenUsage.input} in / ${result.tokenUsage.output} out tokens`;
+    const description = result.report?.summary ?? result.output;
     
-    let summary = `${status} ${result.taskId} (${tier}/${model}) — "${description}" — ${durationSec}s, ${cost}`;
+    let summary = `${status} ${result.taskId} (${tier}/${model}) — "${description}" — ${durationSec}s, ${cost}, ${tokens}`;
+    
+    if (result.report) {
+      summary += ` — confidence: ${result.report.confidence}`;
+      if (result.report.openQuestions.length > 0) {
+        summary += `, ${result.report.openQuestions.length} open question(s)`;
+      }
+    }
     
     if (!result.success && result.error) {
       summary += ` — Error: ${result.error}`;
@@ -65,6 +75,8 @@ export class MemoryLogger {
         model,
         costEstimate: result.costEstimate,
         durationMs: result.durationMs,
+        tokenUsage: result.tokenUsage,
+        report: result.report,
       },
     };
     
@@ -148,3 +148,21 @@ export function getBudgetThresholds(tier: TaskTier): BudgetThresholds {
       throw new Error(`Invalid task tier: ${tier}`);
   }
 }
+
+// Tiers from cheapest to most capable
+const TIER_ORDER: TaskTier[] = ["trivial-simple", "trivial-code", "light", "standard", "complex", "deep"];
+
+/**
+ * Get the next more capable tier, used when escalating a retry.
+ * 
+ * @param tier - The current task tier
+ * @returns The next tier, or undefined if tier is already "deep"
+ * @throws Error if tier is invalid
+ */
+export function getNextTier(tier: TaskTier): TaskTier | undefined {
+  const index = TIER_ORDER.indexOf(tier);
+  if (index === -1) {
+    throw new Error(`Invalid task tier: ${tier}`);
+  }
+  return TIER_ORDER[index + 1];
+}
@@ -0,0 +1,74 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "fs";
+import { dirname } from "path";
+import type { PoolSnapshotEntry } from "./agent-pool";
+import type { WorktreeInfo } from "./worktree-manager";
+
+/**
+ * A pool snapshot entry plus the extension state needed to pick the task
+ * back up: its worktree (with its base ref and commit), and for blocked
+ * tasks whether one should be created and from which base ref
+ */
+export interface PersistedTask extends PoolSnapshotEntry {
+  worktree?: WorktreeInfo;
+  useWorktree?: boolean;
+  baseRef?: string;
+}
+
+export interface SerializedPoolState {
+  version: 1;
+  savedAt: number;
+  tasks: PersistedTask[];
+}
+
+/**
+ * Persists the agent pool's unfinished tasks so queued work and the
+ * worktrees of running agents survive a Pi restart or crash.
+ */
+export class PoolStateStore {
+  constructor(private persistPath: string) {}
+
+  /**
+   * Replace the saved pool state synchronously, so it is current even if
+   * the process exits right after. Fails silently on errors.
+   * @param tasks - Every task to restore on the next start
+   */
+  save(tasks: PersistedTask[]): void {
+    try {
+      const dir = dirname(this.persistPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      const data: SerializedPoolState = {
+        version: 1,
+        savedAt: Date.now(),
+        tasks,
+      };
+
+      writeFileSync(this.persistPath, JSON.stringify(data, null, 2), "utf-8");
+    } catch (error) {
+      // Never crash - the pool keeps running, only restart recovery is lost
+    }
+  }
+
+  /**
+   * Load the saved pool state.
+   * @returns Saved tasks in submission order, or an empty array if there is no valid state
+   */
+  load(): PersistedTask[] {
+    try {
+      if (!existsSync(this.persistPath)) {
+        return [];
+      }
+
+      const data = JSON.parse(readFileSync(this.persistPath, "utf-8")) as SerializedPoolState;
+      if (data.version !== 1 || !Array.isArray(data.tasks)) {
+        return [];
+      }
+      return data.tasks;
+    } catch (error) {
+      // Corrupt file or parse error - nothing to restore
+      return [];
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Model pricing and cost estimation
+ *
+ * Converts token usage into dollars using a per-model price table.
+ * Pure functions with no side effects or SDK dependencies.
+ */
+
+import type { TokenUsage } from "./types";
+
+export interface ModelPricing {
+  input: number;         // dollars per million input tokens
+  output: number;        // dollars per million output tokens
+  cacheRead: number;     // dollars per million cache-read tokens
+  cacheWrite: number;    // dollars per million cache-write tokens
+}
+
+/**
+ * Prices for the models selected by model-selector (Anthropic list prices).
+ */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.30 },
+  "claude-haiku-4-5": { input: 1.00, output: 5.00, cacheRead: 0.10, cacheWrite: 1.25 },
+  "claude-sonnet-4-5": { input: 3.00, output: 15.00, cacheRead: 0.30, cacheWrite: 3.75 },
+  "claude-opus-4-5": { input: 5.00, output: 25.00, cacheRead: 0.50, cacheWrite: 6.25 },
+};
+
+/**
+ * Get the price table entry for a model.
+ *
+ * @param modelId - The model ID, e.g. "claude-sonnet-4-5"
+ * @returns ModelPricing, or undefined if the model is not in the table
+ */
+export function getModelPricing(modelId: string): ModelPricing | undefined {
+  return MODEL_PRICING[modelId];
+}
+
+/**
+ * Estimate the dollar cost of token usage for a model.
+ *
+ * Thinking tokens are not added separately: providers already count them
+ * as output tokens.
+ *
+ * @param modelId - The model ID
+ * @param usage - Token counts
+ * @returns Cost in dollars, or undefined if the model has no pricing
+ */
+export function estimateCost(modelId: string, usage: TokenUsage): number | undefined {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) {
+    return undefined;
+  }
+
+  return (
+    usage.input * pricing.input +
+    usage.output * pricing.output +
+    (usage.cacheRead ?? 0) * pricing.cacheRead +
+    (usage.cacheWrite ?? 0) * pricing.cacheWrite
+  ) / 1_000_000;
+}
+
+/**
+ * Create an empty TokenUsage with all counters at zero.
+ */
+export function emptyTokenUsage(): TokenUsage {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, thinking: 0 };
+}
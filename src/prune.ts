@@ -0,0 +1,137 @@
+/**
+ * Pruning - Find agent worktrees and branches nothing will use again, by
+ * cross-referencing what git has with the pool and the metadata store
+ */
+
+import type { AgentInfo, AgentStatus } from "./agent-pool";
+import type { AgentMetadata } from "./agent-metadata-store";
+import type { AgentArtifacts } from "./worktree-manager";
+import { formatDuration } from "./wait";
+
+/**
+ * Why an agent's leftovers are stale:
+ * - failed / cancelled: the agent ended without work worth merging
+ * - orphaned: neither the pool nor the metadata store knows the task, and
+ *   it has no branch with work the default branch lacks
+ * - unmerged: the agent completed but was never merged (or its branch was
+ *   handed off for review), or an unknown task's branch isn't merged; only
+ *   pruned when asked for
+ */
+export type StaleReason = "failed" | "cancelled" | "orphaned" | "unmerged";
+
+export interface StaleAgent extends AgentArtifacts {
+  reason: StaleReason;
+  ageMs: number;
+  description?: string;
+  /** Worktree size, when it has one */
+  sizeBytes?: number;
+}
+
+export interface PruneCriteria {
+  /** Only items at least this old */
+  olderThanMs: number;
+  /** Also completed agents that were never merged */
+  includeUnmerged: boolean;
+  /**
+   * Pruning without asking: unmerged branches of unknown tasks are left
+   * even with includeUnmerged, since only the user can tell what they hold
+   */
+  unattended?: boolean;
+}
+
+// Agents the pool may still run or recover; never pruned
+const LIVE_STATUSES: AgentStatus[] = ["queued", "blocked", "running", "interrupted"];
+
+/**
+ * The artifacts that are stale under the criteria, oldest first. Age runs
+ * from when the agent finished or, if that's unknown, when its worktree
+ * directory last changed. Only without a worktree directory does it fall
+ * back to the branch's last commit, which for a fresh branch is the base
+ * commit's date.
+ */
+export function findStaleAgents(
+  artifacts: AgentArtifacts[],
+  agents: AgentInfo[],
+  metadata: AgentMetadata[],
+  criteria: PruneCriteria,
+  now: number = Date.now()
+): StaleAgent[] {
+  const agentsById = new Map(agents.map((agent) => [agent.taskId, agent]));
+  const metadataById = new Map(metadata.map((meta) => [meta.taskId, meta]));
+  const stale: StaleAgent[] = [];
+
+  for (const item of artifacts) {
+    const agent = agentsById.get(item.taskId);
+    const meta = metadataById.get(item.taskId);
+    if (agent && LIVE_STATUSES.includes(agent.status)) {
+      continue;
+    }
+
+    const status = agent?.status ?? meta?.status;
+    const reason: StaleReason =
+      status === "failed" ? "failed" :
+      status === "cancelled" ? "cancelled" :
+      status === "completed" ? "unmerged" :
+      // An unknown branch may be a handoff or a reviewed agent's work
+      status === undefined && item.branchName && item.merged !== true ? "unmerged" :
+      "orphaned";
+    if (reason === "unmerged" && (!criteria.includeUnmerged || (criteria.unattended && status === undefined))) {
+      continue;
+    }
+
+    const endedAt = meta?.completedAt ?? agent?.endTime ?? item.worktreeModifiedAt ?? item.lastCommitAt ?? now;
+    const ageMs = Math.max(0, now - endedAt);
+    if (ageMs < criteria.olderThanMs) {
+      continue;
+    }
+
+    stale.push({ ...item, reason, ageMs, description: agent?.description ?? meta?.description });
+  }
+
+  return stale.sort((a, b) => b.ageMs - a.ageMs);
+}
+
+/**
+ * Human-readable size, e.g. "512 B", "3.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * One line per stale agent and a total, e.g.
+ * "• task-1 [failed] 2d3h — Fix tests (worktree 3.4 MB, branch)"
+ */
+export function formatStaleAgents(stale: StaleAgent[]): string {
+  const lines = stale.map((item) => {
+    const parts = [
+      item.worktreePath ? `worktree${item.sizeBytes !== undefined ? ` ${formatBytes(item.sizeBytes)}` : ""}` : undefined,
+      item.branchName ? "branch" : undefined,
+    ].filter(Boolean);
+    const description = item.description ? ` — ${item.description}` : "";
+    return `• ${item.taskId} [${item.reason}] ${formatAge(item.ageMs)}${description} (${parts.join(", ")})`;
+  });
+  const totalBytes = stale.reduce((sum, item) => sum + (item.sizeBytes ?? 0), 0);
+  return [...lines, `${stale.length} stale agent${stale.length === 1 ? "" : "s"}, ${formatBytes(totalBytes)} on disk`].join("\n");
+}
+
+/**
+ * Age in the largest sensible units: "45s", "12m30s", "5h12m", "2d3h"
+ */
+export function formatAge(ms: number): string {
+  const hours = Math.floor(ms / 3_600_000);
+  if (hours >= 24) {
+    return `${Math.floor(hours / 24)}d${hours % 24}h`;
+  }
+  if (hours >= 1) {
+    return `${hours}h${Math.floor((ms % 3_600_000) / 60_000)}m`;
+  }
+  return formatDuration(ms);
+}
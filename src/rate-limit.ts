@@ -0,0 +1,138 @@
+/**
+ * Rate limits - Detect provider throttling, compute jittered backoff, and
+ * track per-provider request/token rates so the pool can hold back starts
+ */
+
+export interface BackoffOptions {
+  maxRetries: number;    // rate-limited turns retried before the task fails
+  baseDelayMs: number;   // delay before the first retry, doubled for each one after
+  maxDelayMs: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  maxRetries: 5,
+  baseDelayMs: 5000,
+  maxDelayMs: 120000,
+};
+
+export interface ProviderRateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/** Keyed by provider, e.g. "anthropic" */
+export type RateLimits = Record<string, ProviderRateLimit>;
+
+const WINDOW_MS = 60000;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|\b429\b|overloaded/i;
+const RETRY_AFTER_PATTERN = /retry.?after:?\s*(\d+(?:\.\d+)?)\s*(ms|s|seconds?)?/i;
+
+/**
+ * Whether a provider error message means the request was throttled
+ */
+export function isRateLimitError(message: string | undefined): boolean {
+  return message !== undefined && RATE_LIMIT_PATTERN.test(message);
+}
+
+/**
+ * Extract a retry-after hint from an error message, e.g. "retry after 20s"
+ * @returns Milliseconds, or undefined if the message has no hint
+ */
+export function parseRetryAfter(message: string): number | undefined {
+  const match = RETRY_AFTER_PATTERN.exec(message);
+  if (!match) {
+    return undefined;
+  }
+  const value = parseFloat(match[1]);
+  return match[2] === "ms" ? value : value * 1000;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the capped delay is fixed,
+ * the other half random, so agents throttled together don't retry together.
+ *
+ * @param attempt - 1 for the first retry
+ * @param options - Base and max delay
+ * @param random - Source of randomness in [0, 1), injectable for tests
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: Pick<BackoffOptions, "baseDelayMs" | "maxDelayMs"> = DEFAULT_BACKOFF,
+  random: () => number = Math.random
+): number {
+  const capped = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+/**
+ * Sliding one-minute window of requests and tokens per provider. Providers
+ * without a configured limit are never held back.
+ */
+export class RateLimiter {
+  private windows: Map<string, { time: number; tokens: number }[]> = new Map();
+  private pausedUntil: Map<string, number> = new Map();
+
+  constructor(
+    private limits: RateLimits = {},
+    private now: () => number = Date.now
+  ) {}
+
+  setLimits(limits: RateLimits): void {
+    this.limits = { ...limits };
+  }
+
+  getLimits(): RateLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Record one model request and the tokens it used
+   */
+  record(provider: string, tokens: number): void {
+    const window = this.windows.get(provider) ?? [];
+    window.push({ time: this.now(), tokens });
+    this.windows.set(provider, window);
+  }
+
+  /**
+   * Hold back every start for a provider, e.g. after it throttled a request
+   */
+  pause(provider: string, ms: number): void {
+    const until = this.now() + ms;
+    this.pausedUntil.set(provider, Math.max(until, this.pausedUntil.get(provider) ?? 0));
+  }
+
+  /**
+   * How long until a new task on this provider may start
+   * @returns 0 if it may start now
+   */
+  getWaitMs(provider: string): number {
+    const now = this.now();
+    let wait = Math.max(0, (this.pausedUntil.get(provider) ?? 0) - now);
+
+    const limit = this.limits[provider];
+    if (!limit) {
+      return wait;
+    }
+
+    const window = (this.windows.get(provider) ?? []).filter((entry) => entry.time > now - WINDOW_MS);
+    this.windows.set(provider, window);
+
+    if (limit.requestsPerMinute !== undefined && window.length >= limit.requestsPerMinute) {
+      // Wait for enough of the oldest requests to leave the window
+      const freeing = window[window.length - limit.requestsPerMinute];
+      wait = Math.max(wait, freeing.time + WINDOW_MS - now);
+    }
+
+    if (limit.tokensPerMinute !== undefined) {
+      let total = window.reduce((sum, entry) => sum + entry.tokens, 0);
+      for (const entry of window) {
+        if (total < limit.tokensPerMinute) break;
+        total -= entry.tokens;
+        wait = Math.max(wait, entry.time + WINDOW_MS - now);
+      }
+    }
+
+    return wait;
+  }
+}
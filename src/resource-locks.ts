@@ -0,0 +1,117 @@
+/**
+ * Resource locks - Decide whether two tasks' declared resources overlap
+ *
+ * Resource keys are absolute paths or path globs (`*`, `**`, `?`). A plain
+ * path also covers everything beneath it, so a repo path locks the whole
+ * repo. Pure functions with no side effects.
+ */
+
+import type { TaskDefinition } from "./types";
+
+export interface LockConflict {
+  key: string;           // the requested key that is unavailable
+  heldBy: string;        // task ID holding the overlapping key
+  heldKey: string;
+}
+
+const GLOB_CHARS = /[*?[]/;
+
+function isGlob(key: string): boolean {
+  return GLOB_CHARS.test(key);
+}
+
+function trimSlash(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/**
+ * The literal directory part of a glob, before the first wildcard segment
+ */
+function staticPrefix(glob: string): string {
+  const segments = glob.split("/");
+  const index = segments.findIndex(segment => isGlob(segment));
+  return trimSlash(segments.slice(0, index === -1 ? segments.length : index).join("/") || "/");
+}
+
+/**
+ * Whether one path is the other or lies beneath it
+ */
+function isPathWithin(path: string, dir: string): boolean {
+  const a = trimSlash(path);
+  const b = trimSlash(dir);
+  return a === b || b === "/" || a.startsWith(b + "/");
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories, a trailing "**" anything
+      if (glob[i + 2] === "/") {
+        pattern += "(?:.*/)?";
+        i += 2;
+      } else {
+        pattern += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Whether two resource keys may refer to the same files.
+ * Errs on the side of reporting an overlap when two globs share a directory.
+ */
+export function resourcesOverlap(a: string, b: string): boolean {
+  const aGlob = isGlob(a);
+  const bGlob = isGlob(b);
+
+  if (!aGlob && !bGlob) {
+    return isPathWithin(a, b) || isPathWithin(b, a);
+  }
+
+  if (aGlob && bGlob) {
+    const aPrefix = staticPrefix(a);
+    const bPrefix = staticPrefix(b);
+    return isPathWithin(aPrefix, bPrefix) || isPathWithin(bPrefix, aPrefix);
+  }
+
+  const glob = aGlob ? a : b;
+  const path = trimSlash(aGlob ? b : a);
+
+  // A directory covers any glob rooted inside it
+  if (isPathWithin(staticPrefix(glob), path)) {
+    return true;
+  }
+  return globToRegExp(glob).test(path);
+}
+
+/**
+ * Find the first of a task's resources that overlaps one held by a running task
+ *
+ * @param resources - Keys the task wants to lock
+ * @param held - Running tasks to check against
+ * @returns The conflict, or undefined if every key is free
+ */
+export function findLockConflict(
+  resources: string[] | undefined,
+  held: TaskDefinition[]
+): LockConflict | undefined {
+  for (const key of resources ?? []) {
+    for (const task of held) {
+      const heldKey = task.resources?.find(candidate => resourcesOverlap(key, candidate));
+      if (heldKey) {
+        return { key, heldBy: task.id, heldKey };
+      }
+    }
+  }
+  return undefined;
+}
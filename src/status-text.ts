@@ -6,6 +6,7 @@ export function getAgentStatusText(
   running: number,
   queued: number,
   reviewCount: number,
+  headroom?: number,
 ): string | undefined {
   const parts: string[] = [];
 
@@ -18,7 +19,10 @@ export function getAgentStatusText(
     parts.push(`${reviewCount} to review`);
   }
 
-  if (parts.length === 0) return undefined;
+  // Remaining spend under the tightest ceiling, when any is configured
+  const budget = headroom !== undefined ? `💰 $${Math.max(0, headroom).toFixed(2)} left` : undefined;
+
+  if (parts.length === 0) return budget;
 
   let text = `🤖 ${parts.join(", ")}`;
 
@@ -27,5 +31,5 @@ export function getAgentStatusText(
     text += " (Ctrl+Shift+A)";
   }
 
-  return text;
+  return budget ? `${text} · ${budget}` : text;
 }
@@ -1,52 +1,102 @@
 /**
- * Simple FIFO queue for pending tasks
+ * Priority queue for pending tasks
+ *
+ * Higher-priority tasks are dequeued first; tasks of equal priority keep
+ * FIFO order. Waiting tasks age: every AGING_INTERVAL_MS in the queue
+ * raises a task's effective priority by one level, so low-priority work
+ * is not starved by a steady stream of urgent tasks.
  */
 
-import type { TaskDefinition } from "./types";
+import type { TaskDefinition, TaskPriority } from "./types";
+
+export const AGING_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes per priority level
+
+const PRIORITY_LEVELS: Record<TaskPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  urgent: 3,
+};
+
+interface QueueEntry {
+  task: TaskDefinition;
+  enqueuedAt: number;
+  seq: number;              // insertion order, breaks ties
+}
 
 export class TaskQueue {
-  private queue: TaskDefinition[] = [];
+  private entries: QueueEntry[] = [];
+  private nextSeq = 0;
+
+  constructor(private now: () => number = Date.now) {}
 
   /**
-   * Add a task to the end of the queue
+   * Add a task to the queue
    */
   enqueue(task: TaskDefinition): void {
-    this.queue.push(task);
+    this.entries.push({ task, enqueuedAt: this.now(), seq: this.nextSeq++ });
   }
 
   /**
-   * Remove and return the first task in the queue
+   * Remove and return the task with the highest effective priority
    */
   dequeue(): TaskDefinition | undefined {
-    return this.queue.shift();
+    const next = this.ordered()[0];
+    if (!next) {
+      return undefined;
+    }
+    this.entries.splice(this.entries.indexOf(next), 1);
+    return next.task;
   }
 
   /**
-   * Return the first task without removing it
+   * Return the next task without removing it
    */
   peek(): TaskDefinition | undefined {
-    return this.queue[0];
+    return this.ordered()[0]?.task;
   }
 
   /**
    * Get the current size of the queue
    */
   size(): number {
-    return this.queue.length;
+    return this.entries.length;
   }
 
   /**
    * Check if the queue is empty
    */
   isEmpty(): boolean {
-    return this.queue.length === 0;
+    return this.entries.length === 0;
   }
 
   /**
-   * Get a copy of all tasks in the queue
+   * Get a copy of all tasks in the queue, in the order they would be dequeued
    */
   getAll(): TaskDefinition[] {
-    return [...this.queue];
+    return this.ordered().map(entry => entry.task);
+  }
+
+  /**
+   * Get a task's 1-based position in dequeue order
+   * @returns The position, or undefined if the task is not queued
+   */
+  position(taskId: string): number | undefined {
+    const index = this.ordered().findIndex(entry => entry.task.id === taskId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Change a queued task's priority. Time already spent waiting still counts.
+   * @returns true if the task was found, false otherwise
+   */
+  reprioritize(taskId: string, priority: TaskPriority): boolean {
+    const entry = this.entries.find(e => e.task.id === taskId);
+    if (!entry) {
+      return false;
+    }
+    entry.task = { ...entry.task, priority };
+    return true;
   }
 
   /**
@@ -54,11 +104,23 @@ export class TaskQueue {
    * @returns true if the task was found and removed, false otherwise
    */
   remove(taskId: string): boolean {
-    const index = this.queue.findIndex((task) => task.id === taskId);
+    const index = this.entries.findIndex((entry) => entry.task.id === taskId);
     if (index === -1) {
       return false;
     }
-    this.queue.splice(index, 1);
+    this.entries.splice(index, 1);
     return true;
   }
+
+  /**
+   * Entries sorted by effective priority (descending), then insertion order
+   */
+  private ordered(): QueueEntry[] {
+    const now = this.now();
+    const effective = (entry: QueueEntry) =>
+      PRIORITY_LEVELS[entry.task.priority ?? "normal"] +
+      Math.floor((now - entry.enqueuedAt) / AGING_INTERVAL_MS);
+
+    return [...this.entries].sort((a, b) => effective(b) - effective(a) || a.seq - b.seq);
+  }
 }
@@ -0,0 +1,26 @@
+/**
+ * Templates - {{name}} placeholder substitution shared by batch prompts and
+ * commit messages
+ */
+
+const TEMPLATE_VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Substitute {{name}} placeholders with the given variables.
+ * Throws naming every placeholder there is no value for.
+ */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  const missing = new Set<string>();
+  const rendered = template.replace(TEMPLATE_VARIABLE, (placeholder, name: string) => {
+    if (!(name in vars)) {
+      missing.add(name);
+      return placeholder;
+    }
+    return vars[name];
+  });
+
+  if (missing.size > 0) {
+    throw new Error(`Missing template variables: ${Array.from(missing).join(", ")}`);
+  }
+  return rendered;
+}
@@ -0,0 +1,205 @@
+/**
+ * TranscriptStore - Locates and reads persisted subagent session transcripts
+ *
+ * Each task's session is written by the SDK's SessionManager into its own
+ * directory under the transcript root, so transcripts survive after the
+ * task finishes and can be paged through to diagnose what went wrong.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { parseSessionEntries, type FileEntry } from "@mariozechner/pi-coding-agent";
+import { validateTaskId } from "./worktree-manager";
+
+export type TranscriptEntryKind =
+  | "user"
+  | "assistant"
+  | "thinking"
+  | "tool-call"
+  | "tool-result"
+  | "error";
+
+export interface TranscriptEntry {
+  kind: TranscriptEntryKind;
+  text: string;
+  toolName?: string;     // for tool-call and tool-result entries
+  isError?: boolean;     // for tool-result entries
+  timestamp?: number;
+}
+
+export interface TranscriptPage {
+  entries: TranscriptEntry[];
+  page: number;          // 1-based
+  totalPages: number;
+  totalEntries: number;
+}
+
+export const DEFAULT_TRANSCRIPT_PAGE_SIZE = 20;
+const MAX_ENTRY_LENGTH = 2000; // per entry, when formatting
+
+export class TranscriptStore {
+  constructor(private rootDir: string) {}
+
+  /**
+   * Directory the SessionManager should persist a task's session into.
+   * Throws for a task ID that could lead outside the transcript root.
+   */
+  getSessionDir(taskId: string): string {
+    validateTaskId(taskId);
+    return join(this.rootDir, taskId);
+  }
+
+  /**
+   * Find the most recent transcript file for a task
+   * @returns Absolute path, or undefined if the task has no transcript
+   */
+  find(taskId: string): string | undefined {
+    const dir = this.getSessionDir(taskId);
+    if (!existsSync(dir)) {
+      return undefined;
+    }
+
+    const files = readdirSync(dir)
+      .filter(name => name.endsWith(".jsonl"))
+      .map(name => join(dir, name))
+      .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs);
+
+    return files[0];
+  }
+
+  /**
+   * Load a task's transcript as a flat list of entries
+   * @returns Entries in session order, or undefined if the task has no transcript
+   */
+  load(taskId: string): TranscriptEntry[] | undefined {
+    const path = this.find(taskId);
+    if (!path) {
+      return undefined;
+    }
+    return toTranscriptEntries(parseSessionEntries(readFileSync(path, "utf-8")));
+  }
+}
+
+/**
+ * Flatten session file entries into transcript entries. Assistant messages
+ * are split into their text, thinking and tool call blocks.
+ */
+export function toTranscriptEntries(fileEntries: FileEntry[]): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+
+  for (const entry of fileEntries) {
+    if (entry.type !== "message") continue;
+    const message: any = entry.message;
+    const timestamp: number | undefined = message.timestamp;
+
+    if (message.role === "user") {
+      entries.push({ kind: "user", text: contentToText(message.content), timestamp });
+    } else if (message.role === "assistant") {
+      for (const block of message.content ?? []) {
+        if (block.type === "text" && block.text.trim()) {
+          entries.push({ kind: "assistant", text: block.text, timestamp });
+        } else if (block.type === "thinking" && block.thinking.trim()) {
+          entries.push({ kind: "thinking", text: block.thinking, timestamp });
+        } else if (block.type === "toolCall") {
+          entries.push({
+            kind: "tool-call",
+            text: JSON.stringify(block.arguments ?? {}),
+            toolName: block.name,
+            timestamp,
+          });
+        }
+      }
+      if (message.errorMessage) {
+        entries.push({ kind: "error", text: message.errorMessage, timestamp });
+      }
+    } else if (message.role === "toolResult") {
+      entries.push({
+        kind: "tool-result",
+        text: contentToText(message.content),
+        toolName: message.toolName,
+        isError: message.isError,
+        timestamp,
+      });
+    }
+  }
+
+  return entries;
+}
+
+function contentToText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+  return content
+    .map((block: any) => (block.type === "text" ? block.text : `[${block.type}]`))
+    .join("\n");
+}
+
+/**
+ * Select one page of entries. Out-of-range pages are clamped.
+ *
+ * @param entries - All transcript entries
+ * @param page - 1-based page number
+ * @param pageSize - Entries per page
+ */
+export function paginateTranscript(
+  entries: TranscriptEntry[],
+  page: number,
+  pageSize: number = DEFAULT_TRANSCRIPT_PAGE_SIZE
+): TranscriptPage {
+  const size = Math.max(1, Math.floor(pageSize));
+  const totalPages = Math.max(1, Math.ceil(entries.length / size));
+  const current = Math.min(Math.max(1, Math.floor(page)), totalPages);
+  const start = (current - 1) * size;
+
+  return {
+    entries: entries.slice(start, start + size),
+    page: current,
+    totalPages,
+    totalEntries: entries.length,
+  };
+}
+
+/**
+ * Format a single entry as a labelled block of text
+ */
+export function formatTranscriptEntry(entry: TranscriptEntry): string {
+  let text = entry.text;
+  if (text.length > MAX_ENTRY_LENGTH) {
+    text = text.substring(0, MAX_ENTRY_LENGTH) + `\n[... ${entry.text.length - MAX_ENTRY_LENGTH} more characters]`;
+  }
+
+  switch (entry.kind) {
+    case "user":
+      return `👤 User:\n${text}`;
+    case "assistant":
+      return `🤖 Assistant:\n${text}`;
+    case "thinking":
+      return `💭 Thinking:\n${text}`;
+    case "tool-call":
+      return `🔧 ${entry.toolName}(${text})`;
+    case "tool-result":
+      return `${entry.isError ? "❌" : "📄"} ${entry.toolName} result:\n${text}`;
+    case "error":
+      return `❌ Error: ${text}`;
+  }
+}
+
+/**
+ * Format a page of a transcript with a header showing the position
+ */
+export function formatTranscriptPage(taskId: string, page: TranscriptPage): string {
+  if (page.totalEntries === 0) {
+    return `Transcript for ${taskId} is empty.`;
+  }
+
+  let text = `Transcript for ${taskId} — page ${page.page}/${page.totalPages} (${page.totalEntries} entries)\n\n`;
+  text += page.entries.map(formatTranscriptEntry).join("\n\n");
+  if (page.page < page.totalPages) {
+    text += `\n\n(Use page ${page.page + 1} to continue)`;
+  }
+  return text;
+}
@@ -0,0 +1,95 @@
+/**
+ * TranscriptViewer - Overlay component for paging through a subagent transcript
+ *
+ * ←/→ (or PgUp/PgDn) move between pages, ↑/↓ scroll within a page,
+ * Esc or q closes.
+ */
+
+import { matchesKey, Key, truncateToWidth, wrapTextWithAnsi, type Component } from "@mariozechner/pi-tui";
+import {
+  paginateTranscript,
+  formatTranscriptEntry,
+  DEFAULT_TRANSCRIPT_PAGE_SIZE,
+  type TranscriptEntry,
+} from "./transcript-store";
+
+const DEFAULT_VISIBLE_LINES = 30;
+
+export class TranscriptViewer implements Component {
+  private page = 1;
+  private scroll = 0;
+  private lastContentHeight = 0;
+
+  constructor(
+    private taskId: string,
+    private entries: TranscriptEntry[],
+    private onClose: () => void,
+    private requestRender: () => void = () => {},
+    private visibleLines: number = DEFAULT_VISIBLE_LINES,
+    private pageSize: number = DEFAULT_TRANSCRIPT_PAGE_SIZE
+  ) {}
+
+  render(width: number): string[] {
+    const current = paginateTranscript(this.entries, this.page, this.pageSize);
+    const innerWidth = Math.max(10, width);
+
+    const body: string[] = [];
+    if (current.totalEntries === 0) {
+      body.push("(empty transcript)");
+    }
+    for (const entry of current.entries) {
+      for (const line of formatTranscriptEntry(entry).split("\n")) {
+        body.push(...wrapTextWithAnsi(line, innerWidth));
+      }
+      body.push("");
+    }
+
+    this.lastContentHeight = body.length;
+    const maxScroll = Math.max(0, body.length - this.visibleLines);
+    this.scroll = Math.min(this.scroll, maxScroll);
+
+    const header = `Transcript: ${this.taskId} — page ${current.page}/${current.totalPages} (${current.totalEntries} entries)`;
+    const footer = "←/→ page · ↑/↓ scroll · esc close";
+
+    return [
+      truncateToWidth(header, innerWidth),
+      "",
+      ...body.slice(this.scroll, this.scroll + this.visibleLines).map(line => truncateToWidth(line, innerWidth)),
+      "",
+      truncateToWidth(footer, innerWidth),
+    ];
+  }
+
+  handleInput(data: string): void {
+    const { totalPages } = paginateTranscript(this.entries, this.page, this.pageSize);
+
+    if (matchesKey(data, Key.escape) || data === "q") {
+      this.onClose();
+      return;
+    }
+
+    if (matchesKey(data, Key.right) || matchesKey(data, Key.pageDown)) {
+      if (this.page < totalPages) {
+        this.page++;
+        this.scroll = 0;
+      }
+    } else if (matchesKey(data, Key.left) || matchesKey(data, Key.pageUp)) {
+      if (this.page > 1) {
+        this.page--;
+        this.scroll = 0;
+      }
+    } else if (matchesKey(data, Key.down)) {
+      if (this.scroll + this.visibleLines < this.lastContentHeight) {
+        this.scroll++;
+      }
+    } else if (matchesKey(data, Key.up)) {
+      this.scroll = Math.max(0, this.scroll - 1);
+    } else {
+      return;
+    }
+
+    this.requestRender();
+  }
+
+  invalidate(): void {}
+}
@@ -21,7 +21,26 @@ export interface TaskDefinition {
   description: string;           // human-readable summary (for approval UI)
   cwd?: string;                  // working directory (defaults to process.cwd())
   contextFiles?: string[];       // files the subagent should read first
+  resumeSessionFile?: string;    // reopen this saved session instead of starting fresh
   timeoutMs?: number;            // default 600000 (10 min)
+  retry?: RetryPolicy;           // rerun automatically on failure
+  priority?: TaskPriority;       // queue ordering, default "normal"
+  dependsOn?: string[];          // task IDs that must complete before this one starts
+  waitForMerge?: boolean;        // also wait until dependencies are merged
+  resources?: string[];          // absolute paths/globs locked while running
+  batchId?: string;              // set for tasks spawned together by spawn_agents
+}
+
+// Scheduling priority for queued tasks
+export type TaskPriority = "low" | "normal" | "high" | "urgent";
+
+// Failure outcomes a retry policy can match
+export type RetryableOutcome = Exclude<TaskOutcome, "success" | "cancelled">;
+
+export interface RetryPolicy {
+  maxAttempts: number;           // including the first run
+  escalate?: boolean;            // move to the next TaskTier on each retry
+  retryOn?: RetryableOutcome[];  // default ["failed", "timeout"]
 }
 
 export interface ExpectedDuration {
@@ -35,13 +54,40 @@ export interface BudgetThresholds {
   hardFlag: number;              // dollars
 }
 
+export interface TokenUsage {
+  input: number;
+  output: number;                // includes thinking tokens (billed as output)
+  cacheRead?: number;
+  cacheWrite?: number;
+  thinking?: number;             // estimated from streamed thinking text
+}
+
+// Subagent's self-assessed confidence in its work
+export type ReportConfidence = "high" | "medium" | "low";
+
+// Machine-readable report a subagent ends its final message with
+export interface AgentReport {
+  summary: string;
+  filesTouched: string[];
+  testsRun: string[];            // commands run and their outcome
+  openQuestions: string[];
+  confidence: ReportConfidence;
+  followUps: string[];           // suggested next tasks
+}
+
+// How a task run ended
+export type TaskOutcome = "success" | "failed" | "timeout" | "budget-exceeded" | "cancelled";
+
 export interface TaskResult {
   taskId: string;
   success: boolean;
   output: string;                // summary of what happened
   filesChanged: string[];        // paths of modified files
-  tokenUsage: { input: number; output: number };
+  tokenUsage: TokenUsage;
   costEstimate: number;          // dollars
   durationMs: number;
   error?: string;                // if success is false
+  outcome?: TaskOutcome;         // distinguishes timeouts and budget aborts from plain failures
+  report?: AgentReport;          // parsed final report, if the agent produced one
+  transcriptPath?: string;       // persisted session file, if transcripts are enabled
 }
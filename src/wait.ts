@@ -0,0 +1,96 @@
+/**
+ * Waiting - Progress lines with ETAs and a consolidated outcome table for
+ * agents the parent is blocking on
+ */
+
+import type { AgentInfo, AgentStatus } from "./agent-pool";
+import type { GitDiffStats } from "./git-diff-parser";
+import { getExpectedDuration } from "./model-selector";
+
+export interface OutcomeRow {
+  agent: AgentInfo;
+  diffStats?: GitDiffStats;   // undefined when the agent has no branch to diff
+}
+
+const TERMINAL_STATUSES: AgentStatus[] = ["completed", "failed", "cancelled"];
+
+export function isTerminal(agent: AgentInfo): boolean {
+  return TERMINAL_STATUSES.includes(agent.status);
+}
+
+export interface WaitCadence {
+  pollMs: number;       // how often to check the agents' statuses
+  progressMs: number;   // how often to refresh ETAs without a status change
+}
+
+// Status checks per poll hint, so a finished agent is noticed well before its hint is due
+const CHECKS_PER_POLL_HINT = 15;
+
+/**
+ * How often to check on and report the unfinished agents, from the soonest
+ * pollAfterSeconds hint of their tiers
+ */
+export function getWaitCadence(agents: AgentInfo[]): WaitCadence {
+  const hints = agents
+    .filter((agent) => !isTerminal(agent))
+    .map((agent) => getExpectedDuration(agent.tier).pollAfterSeconds);
+  const progressMs = hints.length > 0 ? Math.min(...hints) * 1000 : 0;
+  return { pollMs: progressMs / CHECKS_PER_POLL_HINT, progressMs };
+}
+
+/**
+ * Compact duration, e.g. "45s", "3m05s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+/**
+ * Expected time left for an agent, from its tier's typical duration.
+ * Agents that haven't started report the full duration once they do.
+ */
+export function formatEta(agent: AgentInfo, now: number = Date.now()): string {
+  const expected = getExpectedDuration(agent.tier);
+  if (agent.status !== "running" || agent.startTime === undefined) {
+    return `${expected.label} once started`;
+  }
+
+  const remainingMs = expected.expectedSeconds * 1000 - (now - agent.startTime);
+  return remainingMs > 0
+    ? `ETA ~${formatDuration(remainingMs)}`
+    : `over the expected ${expected.label} by ${formatDuration(-remainingMs)}`;
+}
+
+/**
+ * Progress while waiting, e.g.
+ * "2/3 done\n• task-3 [running] — Fix tests (ETA ~1m20s)"
+ */
+export function formatWaitProgress(agents: AgentInfo[], now: number = Date.now()): string {
+  const pending = agents.filter((agent) => !isTerminal(agent));
+  const lines = pending.map(
+    (agent) => `• ${agent.taskId} [${agent.status}] — ${agent.description} (${formatEta(agent, now)})`
+  );
+  return [`${agents.length - pending.length}/${agents.length} done`, ...lines].join("\n");
+}
+
+/**
+ * Markdown table of each agent's outcome, cost (all attempts), duration and diff stats
+ */
+export function formatOutcomeTable(rows: OutcomeRow[], now: number = Date.now()): string {
+  const header = "| Task | Status | Cost | Duration | Diff |\n|---|---|---|---|---|";
+  const lines = rows.map(({ agent, diffStats }) => {
+    const cost = agent.attempts.reduce((sum, attempt) => sum + attempt.costEstimate, 0);
+    const duration = agent.startTime !== undefined
+      ? formatDuration((agent.endTime ?? now) - agent.startTime)
+      : "-";
+    const diff = diffStats
+      ? `${diffStats.fileCount} files, +${diffStats.insertions}/-${diffStats.deletions}`
+      : "-";
+    return `| ${agent.taskId} | ${agent.status} | $${cost.toFixed(2)} | ${duration} | ${diff} |`;
+  });
+  return [header, ...lines].join("\n");
+}
@@ -2,73 +2,300 @@
  * WorktreeManager - Manages git worktrees for isolated subagent execution
  */
 
+import { appendTrailers } from "./commit-message";
+
 export interface WorktreeInfo {
   taskId: string;
   worktreePath: string;
   branchName: string;
   repoPath: string;
+  /** Ref the agent was asked to work from, as given; merges land on it when it is a branch */
+  baseRef?: string;
+  /** Commit the worktree was created at; diffs are taken from its merge-base with the branch */
+  baseSha?: string;
+}
+
+/**
+ * What mergeWorktree does when rebasing the agent's branch conflicts:
+ * - abort: abort the rebase and report the conflicting files
+ * - prefer-target: keep the target branch's version of each conflicting file
+ * - prefer-agent: keep the agent's version of each conflicting file
+ * - resolver-agent: rebase in the agent's worktree and let a resolver (e.g.
+ *   another agent) fix the conflict markers
+ */
+export type ConflictStrategy = "abort" | "prefer-target" | "prefer-agent" | "resolver-agent";
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ["abort", "prefer-target", "prefer-agent", "resolver-agent"];
+
+/** How one conflicting file ended up */
+export interface FileResolution {
+  file: string;
+  resolution: "target" | "agent" | "resolver" | "unresolved";
 }
 
 export interface MergeResult {
   success: boolean;
   mergedBranch: string;
   conflictFiles?: string[];
+  /** Per-file outcome for every conflict hit, in the order they came up */
+  resolutions?: FileResolution[];
+  /** Set when verification commands were run before merging */
+  verification?: VerificationResult;
   error?: string;
 }
 
 /**
- * Injectable exec function type for shell execution
+ * What git still has for one agent task: its worktree, its branch, or both
+ */
+export interface AgentArtifacts {
+  taskId: string;
+  repoPath: string;
+  /** Registered worktree at .worktrees/<taskId> */
+  worktreePath?: string;
+  /** Modification time of the worktree directory */
+  worktreeModifiedAt?: number;
+  /** agent/<taskId> */
+  branchName?: string;
+  /** Committer date of the branch tip */
+  lastCommitAt?: number;
+  /** Whether the branch is merged into the repo's default branch */
+  merged?: boolean;
+}
+
+/** One verification command and its combined output */
+export interface VerificationCheck {
+  command: string;
+  success: boolean;
+  output: string;
+}
+
+export interface VerificationResult {
+  success: boolean;
+  /** Commands run, in order; the first failure is the last entry */
+  checks: VerificationCheck[];
+}
+
+/**
+ * Resolves the conflicts of a rebase stopped in the agent's worktree.
+ * Should leave every file resolved and staged (git add), without continuing
+ * the rebase. Resolve false to give up.
+ */
+export type ConflictResolver = (request: {
+  info: WorktreeInfo;
+  target: string;
+  files: string[];
+}) => Promise<boolean>;
+
+/**
+ * How mergeWorktree lands the agent's work on the target:
+ * - rebase: replay the agent's commits onto the target and fast-forward
+ * - squash: one new commit on the target with the given message
+ * - merge-commit: a --no-ff merge commit with the given message
+ * - branch-only: remove the worktree but keep the branch, e.g. for a human PR
+ */
+export type MergeMode = "rebase" | "squash" | "merge-commit" | "branch-only";
+
+export const MERGE_MODES: MergeMode[] = ["rebase", "squash", "merge-commit", "branch-only"];
+
+export interface MergeOptions {
+  /** Default: rebase */
+  mode?: MergeMode;
+  /** Commit message for squash and merge-commit (required by those modes) */
+  message?: string;
+  /** Trailer lines added to each of the agent's commits in rebase mode, which keeps its own messages */
+  trailers?: string[];
+  /** Default: abort */
+  strategy?: ConflictStrategy;
+  /** Required by the resolver-agent strategy */
+  resolver?: ConflictResolver;
+  /** Commands (tests, typecheck, lint...) that must pass in the worktree before anything is merged */
+  verify?: string[];
+}
+
+// Outcome of landing a branch with a commit, and the step it ended at
+type LandingResult = { stdout: string; stderr: string; code: number; step: "checkout" | "merge" };
+
+// Each rebase step replays one commit; cap how many stops are resolved
+const MAX_REBASE_STEPS = 100;
+
+// Keeps rebase --continue from opening an editor. Rebased commits get the
+// repo's configured committer, like squash and merge commits.
+const REBASE_ENV = ["GIT_EDITOR=true"];
+
+// Task IDs become directory and branch names: no separators, dots or dashes up front
+const TASK_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Throw unless a task ID is safe to use as a worktree directory and branch
+ * name: agent/<taskId> must also follow git's ref name rules (no "..", and
+ * no trailing "." or ".lock")
+ */
+export function validateTaskId(taskId: string): void {
+  const invalid =
+    !TASK_ID_PATTERN.test(taskId) ||
+    taskId.includes("..") ||
+    taskId.endsWith(".") ||
+    taskId.endsWith(".lock");
+  if (invalid) {
+    throw new Error(`Invalid task ID: ${JSON.stringify(taskId)}`);
+  }
+}
+
+/**
+ * Throw unless a branch name follows git's ref name rules
+ * (git check-ref-format). Names starting with "-" are rejected too, so none
+ * can be read as an option.
+ */
+export function validateBranchName(name: string): void {
+  const invalid =
+    name.length === 0 ||
+    name.startsWith("-") ||
+    /[\x00-\x20\x7f~^:?*[\\]/.test(name) ||
+    name.includes("..") ||
+    name.includes("@{") ||
+    name.includes("//") ||
+    name.startsWith("/") ||
+    name.endsWith("/") ||
+    name.endsWith(".") ||
+    name.endsWith(".lock") ||
+    name.split("/").some((component) => component.startsWith("."));
+  if (invalid) {
+    throw new Error(`Invalid branch name: ${JSON.stringify(name)}`);
+  }
+}
+
+/**
+ * Throw unless a revision (branch, tag, SHA, or an expression like HEAD~2)
+ * is a single word that can't be read as an option
+ */
+export function validateRevision(revision: string): void {
+  if (revision.length === 0 || revision.startsWith("-") || /[\x00-\x20\x7f]/.test(revision)) {
+    throw new Error(`Invalid git revision: ${JSON.stringify(revision)}`);
+  }
+}
+
+/**
+ * Injectable process runner. Arguments are passed as an argv array, never
+ * through a shell, so file names and refs are never reinterpreted.
  */
 export type ExecFunction = (
-  command: string,
+  file: string,
+  args: string[],
   options?: { cwd?: string }
 ) => Promise<{ stdout: string; stderr: string; code: number }>;
 
+/**
+ * Split NUL-separated git output (-z), which keeps unusual file names intact
+ */
+function splitNul(output: string): string[] {
+  return output.split("\0").filter((entry) => entry.length > 0);
+}
+
 /**
  * Manages git worktrees for isolated task execution
  */
 export class WorktreeManager {
   constructor(private exec: ExecFunction) {}
 
+  /**
+   * Run git in a directory
+   */
+  private git(cwd: string, ...args: string[]) {
+    return this.exec("git", args, { cwd });
+  }
+
+  /**
+   * Run git with extra environment variables (NAME=value), via env(1)
+   */
+  private gitWithEnv(cwd: string, env: string[], ...args: string[]) {
+    return this.exec("env", [...env, "git", ...args], { cwd });
+  }
+
+  /**
+   * Throw unless the task ID and refs in a WorktreeInfo are safe to pass to git
+   */
+  private validateInfo(info: WorktreeInfo): void {
+    validateTaskId(info.taskId);
+    validateBranchName(info.branchName);
+    if (info.baseRef) validateRevision(info.baseRef);
+    if (info.baseSha) validateRevision(info.baseSha);
+  }
+
   /**
    * Create a worktree for a task. Returns the worktree path.
    * Creates branch: agent/<taskId>
    * Creates worktree at: <repoPath>/.worktrees/<taskId>
+   * Branches from baseRef when given (e.g. a dependency's branch), HEAD otherwise.
+   * Throws if the signal aborts before the worktree is ready.
    */
-  async createWorktree(taskId: string, repoPath: string): Promise<WorktreeInfo> {
+  async createWorktree(
+    taskId: string,
+    repoPath: string,
+    signal?: AbortSignal,
+    baseRef?: string
+  ): Promise<WorktreeInfo> {
+    const throwIfAborted = () => {
+      if (signal?.aborted) {
+        throw new Error("Worktree creation aborted");
+      }
+    };
+
+    validateTaskId(taskId);
+    if (baseRef) validateRevision(baseRef);
+    throwIfAborted();
+
     // 1. Verify repoPath is a git repo
-    const revParseResult = await this.exec("git rev-parse --git-dir", { cwd: repoPath });
+    const revParseResult = await this.git(repoPath, "rev-parse", "--git-dir");
     if (revParseResult.code !== 0) {
       throw new Error(`Not a git repository: ${repoPath}`);
     }
+    throwIfAborted();
 
     // 2. Create .worktrees directory if it doesn't exist
     const worktreesDir = `${repoPath}/.worktrees`;
-    await this.exec(`mkdir -p ${worktreesDir}`);
+    await this.exec("mkdir", ["-p", worktreesDir]);
+    throwIfAborted();
 
     // 3. Create worktree
     const worktreePath = `${worktreesDir}/${taskId}`;
     const branchName = `agent/${taskId}`;
-    await this.exec(`git worktree add .worktrees/${taskId} -b ${branchName}`, {
-      cwd: repoPath,
-    });
+    const addResult = await this.git(
+      repoPath,
+      "worktree", "add", `.worktrees/${taskId}`, "-b", branchName, ...(baseRef ? [baseRef] : [])
+    );
+    if (addResult.code !== 0) {
+      const from = baseRef ? ` from ${baseRef}` : "";
+      throw new Error(`Failed to create worktree${from}: ${addResult.stderr.trim() || "unknown error"}`);
+    }
 
-    // 4. Return WorktreeInfo
-    return {
+    // Record the commit actually branched from, so diffs don't depend on where main is later
+    const head = await this.git(worktreePath, "rev-parse", "HEAD");
+    const baseSha = head.code === 0 ? head.stdout.trim() : "";
+
+    const info: WorktreeInfo = {
       taskId,
       worktreePath,
       branchName,
       repoPath,
+      ...(baseRef ? { baseRef } : {}),
+      ...(baseSha ? { baseSha } : {}),
     };
+
+    // Aborted while git was creating the worktree: don't leave it behind
+    if (signal?.aborted) {
+      await this.cleanup(info);
+      throwIfAborted();
+    }
+
+    // 4. Return WorktreeInfo
+    return info;
   }
 
   /**
    * Get diff between worktree and the branch it was created from
    */
   async getDiff(info: WorktreeInfo): Promise<string> {
-    const result = await this.exec("git diff HEAD", {
-      cwd: info.worktreePath,
-    });
+    const result = await this.git(info.worktreePath, "diff", "HEAD");
     return result.stdout;
   }
 
@@ -76,15 +303,36 @@ export class WorktreeManager {
    * List files changed in worktree vs base
    */
   async getChangedFiles(info: WorktreeInfo): Promise<string[]> {
-    const result = await this.exec("git diff HEAD --name-only", {
-      cwd: info.worktreePath,
-    });
+    const result = await this.git(info.worktreePath, "diff", "HEAD", "--name-only", "-z");
+    return splitNul(result.stdout);
+  }
+
+  /**
+   * The commit to diff an agent's branch against: the merge-base of its
+   * recorded base commit and the branch. Worktrees created before base
+   * commits were recorded fall back to the default branch.
+   */
+  async getMergeBase(info: WorktreeInfo): Promise<string> {
+    this.validateInfo(info);
+    const base = info.baseSha ?? (await this.getDefaultBranch(info.repoPath));
+    const result = await this.git(info.repoPath, "merge-base", base, info.branchName);
+    const mergeBase = result.stdout.trim();
+    return result.code === 0 && mergeBase ? mergeBase : base;
+  }
 
-    // Parse output into array, filter empty lines
-    return result.stdout
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0);
+  /**
+   * The branch an agent's work merges into: its base ref when that is a
+   * local branch, otherwise the repo's default branch
+   */
+  async getMergeTarget(info: WorktreeInfo): Promise<string> {
+    this.validateInfo(info);
+    if (info.baseRef) {
+      const branch = await this.git(info.repoPath, "show-ref", "--verify", "--quiet", `refs/heads/${info.baseRef}`);
+      if (branch.code === 0) {
+        return info.baseRef;
+      }
+    }
+    return this.getDefaultBranch(info.repoPath);
   }
 
   /**
@@ -92,27 +340,152 @@ export class WorktreeManager {
    * Does not throw if already cleaned up
    */
   async cleanup(info: WorktreeInfo): Promise<void> {
+    this.validateInfo(info);
+
     // Remove worktree (ignore errors)
-    await this.exec(`git worktree remove .worktrees/${info.taskId} --force`, {
-      cwd: info.repoPath,
-    }).catch(() => {
+    await this.removeWorktree(info).catch(() => {
       // Ignore errors - worktree might already be removed
     });
 
     // Delete branch (ignore errors)
-    await this.exec(`git branch -D ${info.branchName}`, {
-      cwd: info.repoPath,
-    }).catch(() => {
+    await this.git(info.repoPath, "branch", "-D", info.branchName).catch(() => {
       // Ignore errors - branch might already be deleted
     });
   }
 
+  /**
+   * Top-level directory of the repo containing a path
+   * @returns undefined if the path is not in a git repo
+   */
+  async getRepoRoot(path: string): Promise<string | undefined> {
+    const result = await this.git(path, "rev-parse", "--show-toplevel");
+    const root = result.stdout.trim();
+    return result.code === 0 && root ? root : undefined;
+  }
+
+  /**
+   * Every agent worktree and agent/* branch in a repo, by task ID. Entries
+   * whose task ID isn't one WorktreeManager could have created are skipped.
+   */
+  async listAgentArtifacts(repoPath: string): Promise<AgentArtifacts[]> {
+    const byTask = new Map<string, AgentArtifacts>();
+    const entry = (taskId: string) => {
+      const existing = byTask.get(taskId) ?? { taskId, repoPath };
+      byTask.set(taskId, existing);
+      return existing;
+    };
+
+    // Porcelain output: blocks of "worktree <path>", "HEAD <sha>", "branch <ref>" lines
+    const worktrees = await this.git(repoPath, "worktree", "list", "--porcelain");
+    for (const block of worktrees.stdout.split("\n\n")) {
+      const path = block.match(/^worktree (.+)$/m)?.[1];
+      const taskId = path?.match(/\/\.worktrees\/([^/]+)$/)?.[1];
+      if (path && taskId && TASK_ID_PATTERN.test(taskId)) {
+        entry(taskId).worktreePath = path;
+      }
+    }
+
+    const branches = await this.git(
+      repoPath,
+      "for-each-ref", "--format=%(refname:strip=3)%00%(committerdate:unix)", "refs/heads/agent/"
+    );
+    for (const line of branches.stdout.split("\n")) {
+      const [taskId, committedAt] = line.split("\0");
+      if (taskId && TASK_ID_PATTERN.test(taskId)) {
+        const artifacts = entry(taskId);
+        artifacts.branchName = `agent/${taskId}`;
+        artifacts.lastCommitAt = Number(committedAt) * 1000 || undefined;
+      }
+    }
+
+    // Branches whose work already landed; unknown when git can't tell
+    const defaultBranch = await this.getDefaultBranch(repoPath);
+    const merged = await this.git(
+      repoPath,
+      "for-each-ref", `--merged=${defaultBranch}`, "--format=%(refname:strip=3)", "refs/heads/agent/"
+    );
+    if (merged.code === 0) {
+      const mergedIds = new Set(merged.stdout.split("\n").filter(Boolean));
+      for (const artifacts of byTask.values()) {
+        if (artifacts.branchName) {
+          artifacts.merged = mergedIds.has(artifacts.taskId);
+        }
+      }
+    }
+
+    for (const artifacts of byTask.values()) {
+      if (artifacts.worktreePath) {
+        artifacts.worktreeModifiedAt = await this.getModifiedTime(artifacts.worktreePath);
+      }
+    }
+
+    return Array.from(byTask.values());
+  }
+
+  /**
+   * Modification time of a file or directory, in ms
+   * @returns undefined if it doesn't exist
+   */
+  async getModifiedTime(path: string): Promise<number | undefined> {
+    // date -r reads the mtime with both GNU and BSD date
+    const result = await this.exec("date", ["-r", path, "+%s"]);
+    const seconds = parseInt(result.stdout, 10);
+    return result.code === 0 && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+  }
+
+  /**
+   * Disk space used by a directory, in bytes
+   * @returns undefined if du fails (e.g. the directory is gone)
+   */
+  async getDiskUsage(path: string): Promise<number | undefined> {
+    const result = await this.exec("du", ["-sk", "--", path]);
+    const kilobytes = parseInt(result.stdout, 10);
+    return result.code === 0 && Number.isFinite(kilobytes) ? kilobytes * 1024 : undefined;
+  }
+
+  /**
+   * Drop git's records of worktrees whose directories no longer exist
+   */
+  async pruneWorktrees(repoPath: string): Promise<void> {
+    await this.git(repoPath, "worktree", "prune");
+  }
+
+  /**
+   * Remove a task's worktree directory, keeping its branch
+   */
+  private removeWorktree(info: WorktreeInfo) {
+    return this.git(info.repoPath, "worktree", "remove", `.worktrees/${info.taskId}`, "--force");
+  }
+
+  /**
+   * Check the branch out in its worktree again if the directory is gone
+   * (e.g. after a branch-only handoff), so it can be rebased and verified
+   * @returns a failed result if the worktree could not be recreated
+   */
+  private async restoreWorktree(info: WorktreeInfo): Promise<MergeResult | undefined> {
+    const exists = await this.exec("test", ["-d", info.worktreePath]);
+    if (exists.code === 0) {
+      return undefined;
+    }
+
+    await this.pruneWorktrees(info.repoPath);
+    const add = await this.git(info.repoPath, "worktree", "add", `.worktrees/${info.taskId}`, info.branchName);
+    if (add.code !== 0) {
+      return {
+        success: false,
+        mergedBranch: info.branchName,
+        error: `Could not recreate the worktree for ${info.branchName}: ${add.stderr.trim() || "unknown error"}`,
+      };
+    }
+    return undefined;
+  }
+
   /**
    * Check if a path is inside a git repo
    */
   async isGitRepo(path: string): Promise<boolean> {
     try {
-      const result = await this.exec("git rev-parse --git-dir", { cwd: path });
+      const result = await this.git(path, "rev-parse", "--git-dir");
       return result.code === 0;
     } catch {
       return false;
@@ -124,9 +497,7 @@ export class WorktreeManager {
    */
   async getDefaultBranch(repoPath: string): Promise<string> {
     // Try to get the default branch from the remote
-    const symbolicRef = await this.exec("git symbolic-ref refs/remotes/origin/HEAD", {
-      cwd: repoPath,
-    });
+    const symbolicRef = await this.git(repoPath, "symbolic-ref", "refs/remotes/origin/HEAD");
 
     if (symbolicRef.code === 0) {
       // Parse output: refs/remotes/origin/main -> main
@@ -137,9 +508,7 @@ export class WorktreeManager {
     }
 
     // Fall back to checking for main or master branches locally
-    const branchList = await this.exec("git branch --list main master", {
-      cwd: repoPath,
-    });
+    const branchList = await this.git(repoPath, "branch", "--list", "main", "master");
 
     if (branchList.code === 0) {
       const branches = branchList.stdout
@@ -158,84 +527,519 @@ export class WorktreeManager {
   }
 
   /**
-   * Merge a worktree's branch back into the target branch (usually main/master)
+   * Merge another branch into a worktree (e.g. a second dependency's branch).
+   * On conflicts the merge is aborted and the conflicting files are returned.
+   */
+  async mergeBranchInto(info: WorktreeInfo, branch: string): Promise<MergeResult> {
+    this.validateInfo(info);
+    validateBranchName(branch);
+    // Committed with the repo's configured identity, like every other merge
+    const mergeResult = await this.git(info.worktreePath, "merge", "--no-edit", branch);
+
+    if (mergeResult.code === 0) {
+      return { success: true, mergedBranch: branch };
+    }
+
+    const conflictFiles = await this.getConflictFiles(info.worktreePath);
+
+    await this.git(info.worktreePath, "merge", "--abort");
+
+    return {
+      success: false,
+      mergedBranch: branch,
+      conflictFiles,
+      error: `Merging ${branch} into ${info.branchName} failed`,
+    };
+  }
+
+  /**
+   * Run verification commands in a worktree, stopping at the first that
+   * exits non-zero. They come from the user's config and are shell command
+   * lines (pipes, &&), so they are the one thing run through bash.
+   */
+  async verifyWorktree(info: WorktreeInfo, commands: string[]): Promise<VerificationResult> {
+    const checks: VerificationCheck[] = [];
+    for (const command of commands) {
+      const result = await this.exec("bash", ["-c", command], { cwd: info.worktreePath });
+      const output = [result.stdout.trim(), result.stderr.trim()].filter(Boolean).join("\n");
+      checks.push({ command, success: result.code === 0, output });
+      if (result.code !== 0) {
+        return { success: false, checks };
+      }
+    }
+    return { success: true, checks };
+  }
+
+  /**
+   * Merge a worktree's branch back into the target branch (usually main/master),
+   * in options.mode (rebase and fast-forward by default). The target is
+   * first brought into the branch in its worktree (rebased onto, or merged
+   * in when verifying a squash or merge commit); conflicts are handled by
+   * options.strategy, aborting and reporting them by default. With
+   * options.verify, every command must then pass on that combined tree
+   * before anything lands on the target.
    */
-  async mergeWorktree(info: WorktreeInfo, targetBranch?: string): Promise<MergeResult> {
+  async mergeWorktree(info: WorktreeInfo, targetBranch?: string, options?: MergeOptions): Promise<MergeResult> {
+    const mode = options?.mode ?? "rebase";
+    this.validateInfo(info);
+    if (targetBranch) validateBranchName(targetBranch);
+
+    // A branch handed off earlier has no worktree left to rebase or verify in
+    if (mode !== "branch-only" || options?.verify?.length) {
+      const restoreFailure = await this.restoreWorktree(info);
+      if (restoreFailure) {
+        return restoreFailure;
+      }
+    }
+
+    if (mode === "branch-only") {
+      // Nothing lands, so the branch is verified as it is
+      const verification = await this.verify(info, options?.verify);
+      if (verification && !verification.success) {
+        return this.verificationFailed(info, verification);
+      }
+      // Hand off: the branch stays for a human to review, only the worktree goes
+      await this.removeWorktree(info);
+      return { success: true, mergedBranch: info.branchName, verification };
+    }
+
     // Determine target branch
     const target = targetBranch ?? (await this.getDefaultBranch(info.repoPath));
 
-    // Set committer name and email for automated rebase context
-    const gitEnv = 'GIT_COMMITTER_NAME="Sirdar" GIT_COMMITTER_EMAIL="sirdar@annapurna"';
-
-    // Attempt rebase: rebase agent branch onto target
-    const rebaseResult = await this.exec(
-      `${gitEnv} git rebase ${target} ${info.branchName}`,
-      {
-        cwd: info.repoPath,
+    if (mode !== "rebase") {
+      if (!options?.message) {
+        throw new Error(`A commit message is required for ${mode} merges`);
       }
-    );
+      return this.mergeWithCommit(info, target, mode, options.message, options);
+    }
 
-    // If rebase failed, attempt conflict resolution
-    if (rebaseResult.code !== 0) {
-      // Try to resolve conflicts by accepting incoming (agent's) changes
-      await this.exec("git checkout --theirs .", {
-        cwd: info.repoPath,
-      });
-
-      await this.exec("git add -A", {
-        cwd: info.repoPath,
-      });
-
-      // Continue the rebase after resolution
-      const continueResult = await this.exec(
-        `${gitEnv} git rebase --continue`,
-        {
-          cwd: info.repoPath,
-        }
-      );
+    const strategy = options?.strategy ?? "abort";
+    const resolutions: FileResolution[] = [];
+    const cwd = info.worktreePath;
 
-      // If continue still fails, abort and return failure
-      if (continueResult.code !== 0) {
-        // Get conflict files before aborting
-        const diffResult = await this.exec("git diff --name-only --diff-filter=U", {
-          cwd: info.repoPath,
-        });
+    // Rebase the agent's branch onto the target where it is checked out, in its worktree
+    const rebaseResult = await this.gitWithEnv(cwd, REBASE_ENV, "rebase", target);
 
-        const conflictFiles = diffResult.stdout
-          .split("\n")
-          .map((line) => line.trim())
-          .filter((line) => line.length > 0);
+    if (rebaseResult.code !== 0) {
+      const conflictFiles = await this.getConflictFiles(cwd);
 
-        // Abort the rebase to restore clean state
-        await this.exec("git rebase --abort", {
-          cwd: info.repoPath,
-        });
+      // Failed for another reason than conflicts (e.g. uncommitted changes): nothing to resolve
+      if (conflictFiles.length === 0) {
+        await this.git(cwd, "rebase", "--abort");
+        return {
+          success: false,
+          mergedBranch: info.branchName,
+          error: `Rebase failed: ${rebaseResult.stderr.trim() || "unknown error"}`,
+        };
+      }
 
+      if (strategy === "abort") {
+        await this.git(cwd, "rebase", "--abort");
         return {
           success: false,
           mergedBranch: info.branchName,
           conflictFiles,
-          error: "Rebase conflicts could not be resolved",
+          resolutions: conflictFiles.map((file) => ({ file, resolution: "unresolved" })),
+          error: "Rebase conflicts, merge aborted",
         };
       }
+
+      const resolved = strategy === "resolver-agent"
+        ? await this.rebaseWithResolver(info, target, options?.resolver, resolutions, conflictFiles)
+        : await this.resolveBySide(info, strategy === "prefer-agent" ? "agent" : "target", conflictFiles, resolutions);
+      if (!resolved.success) {
+        return { ...resolved, resolutions };
+      }
     }
 
     // Rebase succeeded (either directly or after resolution)
+    const withResolutions = resolutions.length > 0 ? { resolutions } : {};
+    if (options?.trailers?.length && !(await this.addTrailers(info, target, options.trailers))) {
+      return {
+        success: false,
+        mergedBranch: info.branchName,
+        ...withResolutions,
+        error: "Adding trailers to the rebased commits failed",
+      };
+    }
+
+    // Verify exactly what the fast-forward will put on the target
+    const verification = await this.verify(info, options?.verify);
+    if (verification && !verification.success) {
+      return { ...this.verificationFailed(info, verification), ...withResolutions };
+    }
+
     // Now checkout target branch
-    await this.exec(`git checkout ${target}`, {
-      cwd: info.repoPath,
-    });
+    const checkout = await this.git(info.repoPath, "checkout", target);
+    if (checkout.code !== 0) {
+      return {
+        success: false,
+        mergedBranch: info.branchName,
+        ...withResolutions,
+        verification,
+        error: `Checkout of ${target} failed: ${checkout.stderr.trim() || "unknown error"}`,
+      };
+    }
 
-    // Fast-forward merge (should succeed since we rebased)
-    await this.exec(`git merge ${info.branchName} --ff-only`, {
-      cwd: info.repoPath,
-    });
+    // Fast-forward merge (should succeed since we rebased); keep the branch if it didn't
+    const fastForward = await this.git(info.repoPath, "merge", info.branchName, "--ff-only");
+    if (fastForward.code !== 0) {
+      return {
+        success: false,
+        mergedBranch: info.branchName,
+        ...withResolutions,
+        verification,
+        error: `Fast-forward of ${target} failed: ${fastForward.stderr.trim() || "unknown error"}`,
+      };
+    }
 
     // Cleanup and return success
     await this.cleanup(info);
+    return { success: true, mergedBranch: info.branchName, ...withResolutions, verification };
+  }
+
+  /**
+   * Run the verification commands, if there are any
+   */
+  private async verify(info: WorktreeInfo, commands: string[] | undefined): Promise<VerificationResult | undefined> {
+    return commands?.length ? this.verifyWorktree(info, commands) : undefined;
+  }
+
+  private verificationFailed(info: WorktreeInfo, verification: VerificationResult): MergeResult {
+    const failed = verification.checks.find((check) => !check.success);
+    return {
+      success: false,
+      mergedBranch: info.branchName,
+      verification,
+      error: `Verification failed: ${failed?.command ?? "unknown command"}`,
+    };
+  }
+
+  /**
+   * Add trailer lines to each commit the branch has on top of the target,
+   * keeping its author, date and tree, then move the branch to the rewritten
+   * commits. The branch is left as it was if anything fails.
+   */
+  private async addTrailers(info: WorktreeInfo, target: string, trailers: string[]): Promise<boolean> {
+    const cwd = info.worktreePath;
+    const commits = await this.git(cwd, "rev-list", "--reverse", `${target}..${info.branchName}`);
+    const base = await this.git(cwd, "rev-parse", target);
+    const tip = await this.git(cwd, "rev-parse", info.branchName);
+    if (commits.code !== 0 || base.code !== 0 || tip.code !== 0) {
+      return false;
+    }
+
+    let parent = base.stdout.trim();
+    for (const sha of commits.stdout.split("\n").filter(Boolean)) {
+      const commit = await this.git(cwd, "show", "-s", "--date=raw", "--format=%T%x00%an%x00%ae%x00%ad%x00%B", sha);
+      const [tree, name, email, date, ...message] = commit.stdout.split("\0");
+      if (commit.code !== 0 || !tree) {
+        return false;
+      }
+      const created = await this.gitWithEnv(
+        cwd,
+        [`GIT_AUTHOR_NAME=${name}`, `GIT_AUTHOR_EMAIL=${email}`, `GIT_AUTHOR_DATE=${date}`],
+        "commit-tree", tree, "-p", parent, "-m", appendTrailers(message.join("\0"), trailers)
+      );
+      if (created.code !== 0) {
+        return false;
+      }
+      parent = created.stdout.trim();
+    }
+
+    // Only moves the branch if nothing else did meanwhile
+    const moved = await this.git(cwd, "update-ref", `refs/heads/${info.branchName}`, parent, tip.stdout.trim());
+    return moved.code === 0;
+  }
+
+  /**
+   * Land the branch on the target as a squash commit or a --no-ff merge
+   * commit. On conflicts the target is left untouched; unless the strategy
+   * is abort, the target is first merged into the branch in its worktree
+   * and resolved there, then the branch is landed again. With verification,
+   * the target is always merged into the branch first, so the commands run
+   * on the tree that will land.
+   */
+  private async mergeWithCommit(
+    info: WorktreeInfo,
+    target: string,
+    mode: "squash" | "merge-commit",
+    message: string,
+    options: MergeOptions
+  ): Promise<MergeResult> {
+    const strategy = options.strategy ?? "abort";
+    const resolutions: FileResolution[] = [];
+
+    let verification: VerificationResult | undefined;
+    if (options.verify?.length) {
+      const prepared = await this.mergeTargetIntoBranch(info, target, strategy, options.resolver, resolutions);
+      if (!prepared.success) {
+        return { ...prepared, resolutions };
+      }
+      verification = await this.verifyWorktree(info, options.verify);
+      if (!verification.success) {
+        return { ...this.verificationFailed(info, verification), ...(resolutions.length > 0 ? { resolutions } : {}) };
+      }
+    }
+
+    const checkoutFailed = (result: LandingResult): MergeResult => ({
+      success: false,
+      mergedBranch: info.branchName,
+      ...(resolutions.length > 0 ? { resolutions } : {}),
+      verification,
+      error: `Checkout of ${target} failed: ${result.stderr.trim() || "unknown error"}`,
+    });
+
+    let result = await this.commitOntoTarget(info, target, mode, message);
+    // Nothing was started on the target, so there is nothing to reset
+    if (result.step === "checkout") {
+      return checkoutFailed(result);
+    }
+    if (result.code !== 0) {
+      const conflictFiles = await this.getConflictFiles(info.repoPath);
+      await this.git(info.repoPath, "reset", "--merge");
+
+      if (conflictFiles.length === 0) {
+        return {
+          success: false,
+          mergedBranch: info.branchName,
+          error: `${mode} failed: ${result.stderr.trim() || "unknown error"}`,
+        };
+      }
+
+      if (strategy === "abort") {
+        return {
+          success: false,
+          mergedBranch: info.branchName,
+          conflictFiles,
+          resolutions: conflictFiles.map((file) => ({ file, resolution: "unresolved" })),
+          error: "Merge conflicts, merge aborted",
+        };
+      }
+
+      const prepared = await this.mergeTargetIntoBranch(info, target, strategy, options.resolver, resolutions);
+      if (!prepared.success) {
+        return { ...prepared, resolutions };
+      }
+
+      result = await this.commitOntoTarget(info, target, mode, message);
+      if (result.step === "checkout") {
+        return checkoutFailed(result);
+      }
+      if (result.code !== 0) {
+        await this.git(info.repoPath, "reset", "--merge");
+        return {
+          success: false,
+          mergedBranch: info.branchName,
+          resolutions,
+          error: "Merge still conflicts after resolving the branch",
+        };
+      }
+    }
+
+    await this.cleanup(info);
+    return resolutions.length > 0
+      ? { success: true, mergedBranch: info.branchName, resolutions, verification }
+      : { success: true, mergedBranch: info.branchName, verification };
+  }
+
+  /**
+   * Check out the target and squash or merge the branch into it with a commit.
+   * The step says whether a failure came from the checkout, before anything
+   * was started on the target, or from the merge, which may need resetting.
+   */
+  private async commitOntoTarget(
+    info: WorktreeInfo,
+    target: string,
+    mode: "squash" | "merge-commit",
+    message: string
+  ): Promise<LandingResult> {
+    const checkout = await this.git(info.repoPath, "checkout", target);
+    if (checkout.code !== 0) {
+      return { ...checkout, step: "checkout" };
+    }
+
+    if (mode === "merge-commit") {
+      return { ...(await this.git(info.repoPath, "merge", "--no-ff", "-m", message, info.branchName)), step: "merge" };
+    }
+
+    const squash = await this.git(info.repoPath, "merge", "--squash", info.branchName);
+    if (squash.code !== 0) {
+      return { ...squash, step: "merge" };
+    }
+    // An agent that changed nothing leaves nothing to commit
+    const staged = await this.git(info.repoPath, "diff", "--cached", "--quiet");
+    if (staged.code === 0) {
+      return { ...staged, step: "merge" };
+    }
+    return { ...(await this.git(info.repoPath, "commit", "-m", message)), step: "merge" };
+  }
+
+  /**
+   * Merge the target into the agent's branch inside its worktree, resolving
+   * conflicts by the strategy (abort reports them), so the branch can then
+   * land cleanly
+   */
+  private async mergeTargetIntoBranch(
+    info: WorktreeInfo,
+    target: string,
+    strategy: ConflictStrategy,
+    resolver: ConflictResolver | undefined,
+    resolutions: FileResolution[]
+  ): Promise<MergeResult> {
+    const cwd = info.worktreePath;
+    const fail = async (error: string, conflictFiles?: string[]): Promise<MergeResult> => {
+      await this.git(cwd, "merge", "--abort");
+      return { success: false, mergedBranch: info.branchName, conflictFiles, error };
+    };
+
+    const merge = await this.gitWithEnv(cwd, ["GIT_EDITOR=true"], "merge", "--no-edit", target);
+    if (merge.code === 0) {
+      return { success: true, mergedBranch: info.branchName };
+    }
+
+    const files = await this.getConflictFiles(cwd);
+    if (files.length === 0) {
+      return fail(`Merging ${target} into ${info.branchName} failed: ${merge.stderr.trim() || "unknown error"}`);
+    }
+
+    if (strategy === "abort") {
+      for (const file of files) {
+        resolutions.push({ file, resolution: "unresolved" });
+      }
+      return fail("Merge conflicts, merge aborted", files);
+    }
+
+    if (strategy === "resolver-agent") {
+      const resolved = resolver !== undefined && await resolver({ info, target, files });
+      const remaining = resolved ? await this.getConflictFiles(cwd) : files;
+      for (const file of files) {
+        resolutions.push({ file, resolution: remaining.includes(file) ? "unresolved" : "resolver" });
+      }
+      if (!resolved || remaining.length > 0) {
+        return fail(resolver ? "Conflict resolver did not resolve every file" : "No conflict resolver available", remaining);
+      }
+    } else {
+      // Merging in the worktree, "ours" is the agent's branch and "theirs" the target
+      const side = strategy === "prefer-agent" ? "agent" : "target";
+      const checkoutSide = side === "agent" ? "--ours" : "--theirs";
+      for (const file of files) {
+        const checkout = await this.git(cwd, "checkout", checkoutSide, "--", file);
+        if (checkout.code !== 0) {
+          // The preferred side deleted the file
+          await this.git(cwd, "rm", "-q", "--", file);
+        } else {
+          await this.git(cwd, "add", "--", file);
+        }
+        resolutions.push({ file, resolution: side });
+      }
+    }
+
+    const commit = await this.gitWithEnv(cwd, ["GIT_EDITOR=true"], "commit", "--no-edit");
+    if (commit.code !== 0) {
+      return fail(`Could not commit the resolved merge: ${commit.stderr.trim() || "unknown error"}`);
+    }
+    return { success: true, mergedBranch: info.branchName };
+  }
+
+  /**
+   * Finish a rebase stopped in the agent's worktree by taking one side of
+   * each conflicting file, for every commit that conflicts
+   */
+  private async resolveBySide(
+    info: WorktreeInfo,
+    side: "target" | "agent",
+    firstConflicts: string[],
+    resolutions: FileResolution[]
+  ): Promise<MergeResult> {
+    // While rebasing, "ours" is the target being rebased onto and "theirs" the agent's commit
+    const checkoutSide = side === "agent" ? "--theirs" : "--ours";
+    let conflictFiles = firstConflicts;
+
+    for (let step = 0; step < MAX_REBASE_STEPS; step++) {
+      for (const file of conflictFiles) {
+        const checkout = await this.git(info.worktreePath, "checkout", checkoutSide, "--", file);
+        if (checkout.code !== 0) {
+          // The preferred side deleted the file
+          await this.git(info.worktreePath, "rm", "-q", "--", file);
+        } else {
+          await this.git(info.worktreePath, "add", "--", file);
+        }
+        resolutions.push({ file, resolution: side });
+      }
+
+      const continueResult = await this.gitWithEnv(info.worktreePath, REBASE_ENV, "rebase", "--continue");
+      if (continueResult.code === 0) {
+        return { success: true, mergedBranch: info.branchName };
+      }
+
+      // The next commit conflicts too, or nothing could be resolved
+      const next = await this.getConflictFiles(info.worktreePath);
+      if (next.length === 0) {
+        break;
+      }
+      conflictFiles = next;
+    }
+
+    // Report what is still conflicting, then restore a clean state
+    const conflictFilesLeft = await this.getConflictFiles(info.worktreePath);
+    await this.git(info.worktreePath, "rebase", "--abort");
+
     return {
-      success: true,
+      success: false,
       mergedBranch: info.branchName,
+      conflictFiles: conflictFilesLeft,
+      error: "Rebase conflicts could not be resolved",
     };
   }
+
+  /**
+   * Finish a rebase stopped in the agent's worktree, handing each
+   * conflicting step to the resolver
+   */
+  private async rebaseWithResolver(
+    info: WorktreeInfo,
+    target: string,
+    resolver: ConflictResolver | undefined,
+    resolutions: FileResolution[],
+    firstConflicts: string[]
+  ): Promise<MergeResult> {
+    let result = { stdout: "", stderr: "", code: 1 };
+
+    for (let step = 0; result.code !== 0 && step < MAX_REBASE_STEPS; step++) {
+      const files = step === 0 ? firstConflicts : await this.getConflictFiles(info.worktreePath);
+      const resolved = files.length > 0 && resolver !== undefined && await resolver({ info, target, files });
+      const remaining = resolved ? await this.getConflictFiles(info.worktreePath) : files;
+
+      for (const file of files) {
+        resolutions.push({ file, resolution: remaining.includes(file) ? "unresolved" : "resolver" });
+      }
+
+      if (remaining.length > 0 || !resolved) {
+        await this.git(info.worktreePath, "rebase", "--abort");
+        return {
+          success: false,
+          mergedBranch: info.branchName,
+          conflictFiles: remaining.length > 0 ? remaining : files,
+          error: resolver ? "Conflict resolver did not resolve every file" : "No conflict resolver available",
+        };
+      }
+
+      result = await this.gitWithEnv(info.worktreePath, REBASE_ENV, "rebase", "--continue");
+    }
+
+    if (result.code !== 0) {
+      await this.git(info.worktreePath, "rebase", "--abort");
+      return { success: false, mergedBranch: info.branchName, error: "Rebase could not be completed" };
+    }
+    return { success: true, mergedBranch: info.branchName };
+  }
+
+  /**
+   * Files left unmerged by a stopped rebase or merge
+   */
+  private async getConflictFiles(cwd: string): Promise<string[]> {
+    const diffResult = await this.git(cwd, "diff", "--name-only", "--diff-filter=U", "-z");
+    return splitNul(diffResult.stdout);
+  }
 }
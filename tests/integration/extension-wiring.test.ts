@@ -11,11 +11,11 @@ describe("Extension Wiring - Integration Tests", () => {
   });
 
   describe("Tool Registration", () => {
-    it("registers all 6 tools (spawn_agent, check_agents, check_budget, log_reflection, review_agent, merge_agent)", () => {
+    it("registers all 17 tools (spawn_agent, check_agents, check_budget, log_reflection, review_agent, merge_agent, cancel_agent, view_transcript, continue_agent, reprioritize_agent, set_pool_limits, recover_agent, spawn_agents, merge_batch, discard_batch, wait_for_agents, prune_agents)", () => {
       orchestrator(mockPi);
 
-      // Verify registerTool was called 6 times
-      expect(mockPi.registerTool).toHaveBeenCalledTimes(6);
+      // Verify registerTool was called 17 times
+      expect(mockPi.registerTool).toHaveBeenCalledTimes(17);
 
       // Extract the registered tool names
       const calls = (mockPi.registerTool as any).mock.calls;
@@ -27,6 +27,17 @@ describe("Extension Wiring - Integration Tests", () => {
       expect(toolNames).toContain("log_reflection");
       expect(toolNames).toContain("review_agent");
       expect(toolNames).toContain("merge_agent");
+      expect(toolNames).toContain("cancel_agent");
+      expect(toolNames).toContain("view_transcript");
+      expect(toolNames).toContain("continue_agent");
+      expect(toolNames).toContain("reprioritize_agent");
+      expect(toolNames).toContain("set_pool_limits");
+      expect(toolNames).toContain("recover_agent");
+      expect(toolNames).toContain("spawn_agents");
+      expect(toolNames).toContain("merge_batch");
+      expect(toolNames).toContain("discard_batch");
+      expect(toolNames).toContain("wait_for_agents");
+      expect(toolNames).toContain("prune_agents");
     });
 
     it("spawn_agent tool has correct parameter names", () => {
@@ -57,6 +68,30 @@ describe("Extension Wiring - Integration Tests", () => {
       expect(params).toHaveProperty("timeoutMs");
     });
 
+    it("spawn_agent tool has contextFiles parameter", () => {
+      orchestrator(mockPi);
+
+      const calls = (mockPi.registerTool as any).mock.calls;
+      const spawnAgentCall = calls.find((call: any) => call[0].name === "spawn_agent");
+      
+      expect(spawnAgentCall).toBeDefined();
+      const params = spawnAgentCall[0].parameters.properties;
+      
+      expect(params).toHaveProperty("contextFiles");
+    });
+
+    it("spawn_agent tool has inTurn parameter", () => {
+      orchestrator(mockPi);
+
+      const calls = (mockPi.registerTool as any).mock.calls;
+      const spawnAgentCall = calls.find((call: any) => call[0].name === "spawn_agent");
+      
+      expect(spawnAgentCall).toBeDefined();
+      const params = spawnAgentCall[0].parameters.properties;
+      
+      expect(params).toHaveProperty("inTurn");
+    });
+
     it("check_agents tool has status parameter", () => {
       orchestrator(mockPi);
 
@@ -119,6 +154,19 @@ describe("Extension Wiring - Integration Tests", () => {
       expect(params).toHaveProperty("taskId");
     });
 
+    it("cancel_agent tool has taskId and cleanupWorktree parameters", () => {
+      orchestrator(mockPi);
+
+      const calls = (mockPi.registerTool as any).mock.calls;
+      const cancelAgentCall = calls.find((call: any) => call[0].name === "cancel_agent");
+      
+      expect(cancelAgentCall).toBeDefined();
+      const params = cancelAgentCall[0].parameters.properties;
+      
+      expect(params).toHaveProperty("taskId");
+      expect(params).toHaveProperty("cleanupWorktree");
+    });
+
     it("review_agent tool has renderResult function", () => {
       orchestrator(mockPi);
 
@@ -132,15 +180,15 @@ describe("Extension Wiring - Integration Tests", () => {
   });
 
   describe("Command Registration", () => {
-    it("registers /agents command", () => {
+    it("registers /prune-agents and /agents commands", () => {
       orchestrator(mockPi);
 
-      expect(mockPi.registerCommand).toHaveBeenCalledTimes(1);
+      expect(mockPi.registerCommand).toHaveBeenCalledTimes(2);
 
       const calls = (mockPi.registerCommand as any).mock.calls;
-      const commandName = calls[0][0];
+      const commandNames = calls.map((call: any) => call[0]);
 
-      expect(commandName).toBe("agents");
+      expect(commandNames).toEqual(["prune-agents", "agents"]);
     });
   });
 
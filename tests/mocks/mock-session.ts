@@ -1,5 +1,6 @@
 import { vi } from "vitest";
 import type { AgentSession, AgentSessionEvent } from "@mariozechner/pi-coding-agent";
+import type { Usage } from "@mariozechner/pi-ai";
 
 /**
  * Create a mock AgentSession for testing
@@ -9,16 +10,29 @@ export function createMockSession(options?: {
   shouldThrow?: boolean;
   errorMessage?: string;
   outputText?: string;
+  thinkingText?: string;
+  usage?: Partial<Usage>;
+  /** Number of prompts whose turn ends with a provider rate-limit error */
+  rateLimitedPrompts?: number;
+  rateLimitMessage?: string;
+  /** Tool executions started during each prompt */
+  toolCalls?: Array<{ toolName: string; args: unknown }>;
 }): AgentSession {
   const {
     promptDelay = 10,
     shouldThrow = false,
     errorMessage = "Mock session error",
     outputText = "Mock agent output",
+    thinkingText,
+    usage,
+    rateLimitedPrompts = 0,
+    rateLimitMessage = "429 rate_limit_error: Too many requests",
+    toolCalls = [],
   } = options || {};
 
   let subscribers: Array<(event: AgentSessionEvent) => void> = [];
   let isAborted = false;
+  let promptCount = 0;
 
   const mockSession = {
     prompt: vi.fn(async () => {
@@ -26,6 +40,39 @@ export function createMockSession(options?: {
         throw new Error("Session aborted");
       }
 
+      // Turn ends with an error message, as after the SDK gives up retrying
+      if (promptCount++ < rateLimitedPrompts) {
+        subscribers.forEach((listener) => {
+          listener({
+            type: "message_end",
+            message: { role: "assistant", stopReason: "error", errorMessage: rateLimitMessage },
+          } as AgentSessionEvent);
+        });
+        return;
+      }
+
+      // Assistant message end event carrying the first turn's usage
+      // (emitted before the delay, as if the agent keeps working afterwards)
+      if (usage) {
+        subscribers.forEach((listener) => {
+          listener({
+            type: "message_end",
+            message: {
+              role: "assistant",
+              usage: {
+                input: 0,
+                output: 0,
+                cacheRead: 0,
+                cacheWrite: 0,
+                totalTokens: 0,
+                cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+                ...usage,
+              },
+            },
+          } as AgentSessionEvent);
+        });
+      }
+
       // Simulate processing delay
       await new Promise((resolve) => setTimeout(resolve, promptDelay));
 
@@ -34,6 +81,29 @@ export function createMockSession(options?: {
       }
 
       // Simulate events during processing
+      toolCalls.forEach(({ toolName, args }, index) => {
+        subscribers.forEach((listener) => {
+          listener({
+            type: "tool_execution_start",
+            toolCallId: `tool-${index}`,
+            toolName,
+            args,
+          } as AgentSessionEvent);
+        });
+      });
+
+      if (thinkingText) {
+        subscribers.forEach((listener) => {
+          listener({
+            type: "message_update",
+            assistantMessageEvent: {
+              type: "thinking_delta",
+              delta: thinkingText,
+            },
+          } as AgentSessionEvent);
+        });
+      }
+
       // Text delta event (emit before throwing so error path has output)
       subscribers.forEach((listener) => {
         listener({
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from "vitest";
+import { AgentEventBus } from "../../src/agent-events";
+
+const subject = { taskId: "task-1", description: "Fix bug", tier: "light" as const, attempt: 1 };
+
+describe("AgentEventBus", () => {
+  it("delivers events to subscribers of that type only", () => {
+    const bus = new AgentEventBus();
+    const started = vi.fn();
+    const cancelled = vi.fn();
+    bus.on("started", started);
+    bus.on("cancelled", cancelled);
+
+    bus.emit("started", subject);
+
+    expect(started).toHaveBeenCalledWith(subject);
+    expect(cancelled).not.toHaveBeenCalled();
+  });
+
+  it("delivers every event to onAny subscribers with its type", () => {
+    const bus = new AgentEventBus();
+    const handler = vi.fn();
+    bus.onAny(handler);
+
+    bus.emit("output", { taskId: "task-1", delta: "hi" });
+    bus.emit("merged", subject);
+
+    expect(handler.mock.calls).toEqual([
+      ["output", { taskId: "task-1", delta: "hi" }],
+      ["merged", subject],
+    ]);
+  });
+
+  it("stops delivering after unsubscribe", () => {
+    const bus = new AgentEventBus();
+    const handler = vi.fn();
+    const anyHandler = vi.fn();
+    const off = bus.on("started", handler);
+    const offAny = bus.onAny(anyHandler);
+
+    off();
+    offAny();
+    bus.emit("started", subject);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(anyHandler).not.toHaveBeenCalled();
+  });
+
+  it("logs and skips a throwing subscriber", () => {
+    const bus = new AgentEventBus();
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const after = vi.fn();
+    bus.on("started", () => { throw new Error("boom"); });
+    bus.on("started", after);
+
+    expect(() => bus.emit("started", subject)).not.toThrow();
+    expect(after).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
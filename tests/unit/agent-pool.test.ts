@@ -57,10 +57,21 @@ describe("AgentPool", () => {
         deferreds.set(task.id, d);
         return d.promise;
       }),
+      cancel: vi.fn((taskId: string) => {
+        const d = deferreds.get(taskId);
+        if (!d) return false;
+        d.resolve({
+          ...createResult(taskId, false),
+          error: "Task cancelled",
+          outcome: "cancelled",
+        });
+        return true;
+      }),
     };
 
     mockBudget = {
       recordTask: vi.fn(() => null),
+      getTaskRecord: vi.fn(() => undefined),
     };
 
     onComplete = vi.fn();
@@ -115,7 +126,7 @@ describe("AgentPool", () => {
     const task = createTask("task-1");
     await pool.submit(task);
 
-    expect(mockLifecycle.runTask).toHaveBeenCalledWith(task, expect.any(Function));
+    expect(mockLifecycle.runTask).toHaveBeenCalledWith(task, expect.any(Function), expect.any(Object));
     expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
   });
 
@@ -286,7 +297,8 @@ describe("AgentPool", () => {
       expect.objectContaining({
         id: "task-3",
       }),
-      expect.any(Function)
+      expect.any(Function),
+      expect.any(Object)
     );
   });
 
@@ -449,4 +461,1052 @@ describe("AgentPool", () => {
     expect(completed).toHaveLength(1);
     expect(completed[0].taskId).toBe("task-1");
   });
+  describe("live budget enforcement", () => {
+    const hardWarning: BudgetWarning = {
+      type: "hard",
+      tier: "light",
+      taskId: "task-1",
+      cost: 1.5,
+      threshold: 1.0,
+      message: "Hard budget exceeded",
+    };
+
+    it("forwards live budget warnings to onWarning", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      const options = mockLifecycle.runTask.mock.calls[0][2];
+      const softWarning: BudgetWarning = { ...hardWarning, type: "soft", message: "Soft" };
+      options.onBudgetWarning(softWarning);
+
+      expect(onWarning).toHaveBeenCalledWith(softWarning);
+    });
+
+    it("asks onHardLimit whether to continue a task over its hard budget", async () => {
+      const onHardLimit = vi.fn(async () => true);
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+        onHardLimit,
+      });
+
+      await pool.submit(createTask("task-1"));
+      const options = mockLifecycle.runTask.mock.calls[0][2];
+      const shouldContinue = await options.onHardLimit(hardWarning);
+
+      expect(shouldContinue).toBe(true);
+      expect(onHardLimit).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: "task-1" }),
+        hardWarning
+      );
+    });
+
+    it("aborts over-budget tasks when no onHardLimit handler is set", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      const options = mockLifecycle.runTask.mock.calls[0][2];
+
+      expect(await options.onHardLimit(hardWarning)).toBe(false);
+    });
+
+    it("does not repeat a warning already reported live when the task completes", async () => {
+      mockBudget.recordTask = vi.fn(() => hardWarning);
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      const options = mockLifecycle.runTask.mock.calls[0][2];
+      await options.onHardLimit(hardWarning);
+
+      deferreds.get("task-1")!.resolve({
+        ...createResult("task-1", false),
+        outcome: "budget-exceeded",
+      });
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(onWarning).toHaveBeenCalledTimes(1);
+      expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: "task-1",
+        status: "failed",
+      }));
+    });
+  });
+  describe("cancel", () => {
+    it("removes a queued task from the queue without running it", async () => {
+      const onCancelled = vi.fn();
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onCancelled,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2")); // queued
+
+      const cancelled = await pool.cancel("task-2");
+
+      expect(cancelled).toBe(true);
+      expect(pool.getAgent("task-2")?.status).toBe("cancelled");
+      expect(pool.queuedCount()).toBe(0);
+      expect(onCancelled).toHaveBeenCalledWith(expect.objectContaining({ taskId: "task-2" }));
+
+      // Completing task-1 must not start the cancelled task
+      mockLifecycle.runTask.mockClear();
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+      expect(mockLifecycle.runTask).not.toHaveBeenCalled();
+    });
+
+    it("aborts a running task through the lifecycle manager", async () => {
+      const onCancelled = vi.fn();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onCancelled,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      const cancelled = await pool.cancel("task-1");
+
+      expect(cancelled).toBe(true);
+      expect(mockLifecycle.cancel).toHaveBeenCalledWith("task-1");
+      expect(pool.getAgent("task-1")?.status).toBe("cancelled");
+      expect(pool.getAgent("task-1")?.endTime).toBeDefined();
+      expect(onCancelled).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: "task-1",
+        status: "cancelled",
+      }));
+    });
+
+    it("does not treat a cancelled task as failed", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      await pool.cancel("task-1");
+
+      expect(onFailed).not.toHaveBeenCalled();
+      expect(onComplete).not.toHaveBeenCalled();
+    });
+
+    it("records spend up to the cancellation", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      await pool.cancel("task-1");
+
+      expect(mockBudget.recordTask).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: "task-1", outcome: "cancelled" }),
+        "light"
+      );
+    });
+
+    it("starts the next queued task after cancelling a running one", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2")); // queued
+      await pool.cancel("task-1");
+
+      expect(pool.getAgent("task-2")?.status).toBe("running");
+    });
+
+    it("returns false for unknown or finished tasks", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+
+      expect(await pool.cancel("unknown")).toBe(false);
+
+      await pool.submit(createTask("task-1"));
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(await pool.cancel("task-1")).toBe(false);
+    });
+  });
+  describe("abort signals", () => {
+    it("rejects submission when the signal is already aborted", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        pool.submit(createTask("task-1"), { signal: controller.signal })
+      ).rejects.toThrow("Task submission aborted");
+      expect(pool.getAgent("task-1")).toBeUndefined();
+      expect(mockLifecycle.runTask).not.toHaveBeenCalled();
+    });
+
+    it("cancels a task tied to the signal when it aborts", async () => {
+      const onCancelled = vi.fn();
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onCancelled,
+        onWarning,
+      });
+      const controller = new AbortController();
+
+      await pool.submit(createTask("task-1"), { signal: controller.signal, cancelOnAbort: true });
+      await pool.submit(createTask("task-2"), { signal: controller.signal, cancelOnAbort: true });
+      controller.abort();
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(mockLifecycle.cancel).toHaveBeenCalledWith("task-1");
+      expect(pool.getAgent("task-1")?.status).toBe("cancelled");
+      expect(pool.getAgent("task-2")?.status).toBe("cancelled");
+      expect(onCancelled).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps running detached tasks when the signal aborts", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+      const controller = new AbortController();
+
+      await pool.submit(createTask("task-1"), { signal: controller.signal });
+      controller.abort();
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(mockLifecycle.cancel).not.toHaveBeenCalled();
+      expect(pool.getAgent("task-1")?.status).toBe("running");
+    });
+
+    it("ignores the signal once the task has finished", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, {
+        onComplete,
+        onFailed,
+        onWarning,
+      });
+      const controller = new AbortController();
+
+      await pool.submit(createTask("task-1"), { signal: controller.signal, cancelOnAbort: true });
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+      controller.abort();
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(mockLifecycle.cancel).not.toHaveBeenCalled();
+      expect(pool.getAgent("task-1")?.status).toBe("completed");
+    });
+  });
+  describe("continueTask", () => {
+    const finish = async (pool: AgentPool, taskId: string, success = true) => {
+      deferreds.get(taskId)!.resolve({
+        ...createResult(taskId, success),
+        transcriptPath: `/data/transcripts/${taskId}/session.jsonl`,
+      });
+      await new Promise(r => setTimeout(r, 0));
+    };
+
+    it("reruns a completed task with the follow-up prompt in its saved session", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit({ ...createTask("task-1"), cwd: "/repo/.worktrees/task-1", contextFiles: ["a.ts"] });
+      await finish(pool, "task-1");
+
+      const info = await pool.continueTask("task-1", "Also fix the lint error");
+
+      expect(info.status).toBe("running");
+      expect(info.attempt).toBe(2);
+      expect(info.result).toBeUndefined();
+      const continued = mockLifecycle.runTask.mock.calls[1][0];
+      expect(continued).toMatchObject({
+        id: "task-1",
+        prompt: "Also fix the lint error",
+        cwd: "/repo/.worktrees/task-1",
+        resumeSessionFile: "/data/transcripts/task-1/session.jsonl",
+      });
+      expect(continued.contextFiles).toBeUndefined();
+    });
+
+    it("counts the spend of earlier attempts against the live budget", async () => {
+      mockBudget.getTaskRecord.mockReturnValue({ taskId: "task-1", tier: "light", costEstimate: 0.4, timestamp: 0 });
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await finish(pool, "task-1", false);
+
+      await pool.continueTask("task-1", "Try again");
+
+      expect(mockLifecycle.runTask.mock.calls[0][2].priorCost).toBeUndefined();
+      expect(mockLifecycle.runTask.mock.calls[1][2].priorCost).toBe(0.4);
+    });
+
+    it("queues the continuation when the pool is full", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await finish(pool, "task-1");
+      await pool.submit(createTask("task-2"));
+
+      const info = await pool.continueTask("task-1", "More");
+
+      expect(info.status).toBe("queued");
+      deferreds.get("task-2")!.resolve(createResult("task-2"));
+      await new Promise(r => setTimeout(r, 0));
+      expect(pool.getAgent("task-1")?.status).toBe("running");
+    });
+
+    it("rejects tasks that are still running", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+
+      await expect(pool.continueTask("task-1", "More")).rejects.toThrow("can only continue completed or failed agents");
+    });
+
+    it("rejects unknown tasks and tasks without a saved session", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await expect(pool.continueTask("missing", "More")).rejects.toThrow("Agent not found: missing");
+
+      await pool.submit(createTask("task-1"));
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      await expect(pool.continueTask("task-1", "More")).rejects.toThrow("no saved session");
+    });
+  });
+  describe("retry policy", () => {
+    const fail = async (taskId: string, outcome: TaskResult["outcome"] = "failed") => {
+      deferreds.get(taskId)!.resolve({ ...createResult(taskId, false), outcome });
+      await new Promise(r => setTimeout(r, 0));
+    };
+
+    it("retries a failed task without waking the parent", async () => {
+      const onRetry = vi.fn();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning, onRetry });
+      await pool.submit({ ...createTask("task-1"), retry: { maxAttempts: 2 } });
+
+      await fail("task-1");
+
+      expect(onFailed).not.toHaveBeenCalled();
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: "task-1", attempt: 2 }),
+        expect.objectContaining({ attempt: 1, outcome: "failed", error: "Test error" })
+      );
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(2);
+      expect(pool.getAgent("task-1")?.status).toBe("running");
+    });
+
+    it("runs the retry in the failed attempt's working directory", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit({ ...createTask("task-1"), cwd: "/repo/.worktrees/task-1", retry: { maxAttempts: 2 } });
+
+      await fail("task-1");
+
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(2);
+      expect(mockLifecycle.runTask.mock.calls[1][0]).toMatchObject({ id: "task-1", cwd: "/repo/.worktrees/task-1" });
+    });
+
+    it("reports the final failure once attempts are exhausted", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit({ ...createTask("task-1"), retry: { maxAttempts: 2 } });
+
+      await fail("task-1");
+      await fail("task-1");
+
+      expect(onFailed).toHaveBeenCalledTimes(1);
+      const info = pool.getAgent("task-1")!;
+      expect(info.status).toBe("failed");
+      expect(info.attempts.map(a => a.attempt)).toEqual([1, 2]);
+      expect(mockBudget.recordTask).toHaveBeenCalledTimes(2);
+    });
+
+    it("escalates to the next tier on each retry", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit({ ...createTask("task-1"), tier: "trivial-code", retry: { maxAttempts: 3, escalate: true } });
+
+      await fail("task-1");
+      await fail("task-1");
+
+      expect(mockLifecycle.runTask.mock.calls.map((c: any[]) => c[0].tier)).toEqual(["trivial-code", "light", "standard"]);
+      expect(pool.getAgent("task-1")?.tier).toBe("standard");
+
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(pool.getAgent("task-1")?.attempts.map(a => a.tier)).toEqual(["trivial-code", "light", "standard"]);
+    });
+
+    it("only retries the configured outcomes", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit({ ...createTask("task-1"), retry: { maxAttempts: 3 } });
+
+      await fail("task-1", "budget-exceeded");
+
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
+      expect(onFailed).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries budget-exceeded when asked to", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit({ ...createTask("task-1"), retry: { maxAttempts: 2, retryOn: ["budget-exceeded"] } });
+
+      await fail("task-1", "budget-exceeded");
+
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(2);
+      expect(onFailed).not.toHaveBeenCalled();
+    });
+
+    it("retries once onBeforeRetry admits it", async () => {
+      const onBeforeRetry = vi.fn(async () => {});
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning, onBeforeRetry });
+      await pool.submit({ ...createTask("task-1"), retry: { maxAttempts: 2 } });
+
+      await fail("task-1");
+
+      expect(onBeforeRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "task-1" }),
+        expect.objectContaining({ taskId: "task-1", attempt: 2 })
+      );
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(2);
+      expect(pool.getAgent("task-1")?.status).toBe("running");
+    });
+
+    it("fails the task when onBeforeRetry refuses the retry", async () => {
+      const onBeforeRetry = vi.fn(async () => {
+        throw new Error("Spend ceiling reached");
+      });
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning, onBeforeRetry });
+      await pool.submit({ ...createTask("task-1"), retry: { maxAttempts: 2 } });
+
+      await fail("task-1");
+
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
+      expect(onFailed).toHaveBeenCalledTimes(1);
+      const info = pool.getAgent("task-1")!;
+      expect(info.status).toBe("failed");
+      expect(info.attempt).toBe(1);
+      expect(info.result?.error).toBe("Test error (not retried: Spend ceiling reached)");
+    });
+
+    it("does not retry cancelled tasks", async () => {
+      const onCancelled = vi.fn();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning, onCancelled });
+      await pool.submit({ ...createTask("task-1"), retry: { maxAttempts: 3 } });
+
+      await pool.cancel("task-1");
+
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
+      expect(onCancelled).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe("priority", () => {
+    it("starts the highest priority queued task when a slot frees up", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await pool.submit({ ...createTask("deep"), priority: "low" });
+      await pool.submit({ ...createTask("fix"), priority: "urgent" });
+
+      expect(pool.getQueued().map(a => a.taskId)).toEqual(["fix", "deep"]);
+
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getAgent("fix")?.status).toBe("running");
+      expect(pool.getAgent("deep")?.status).toBe("queued");
+    });
+
+    it("reprioritizes queued tasks only", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2"));
+      await pool.submit(createTask("task-3"));
+
+      expect(pool.reprioritize("task-3", "high")).toBe(true);
+      expect(pool.getQueuePosition("task-3")).toBe(1);
+      expect(pool.getTask("task-3")?.priority).toBe("high");
+      expect(pool.reprioritize("task-1", "high")).toBe(false);
+    });
+  });
+  describe("dependencies", () => {
+    const dependent = (id: string, dependsOn: string[], extra?: Partial<TaskDefinition>): TaskDefinition => ({
+      ...createTask(id),
+      dependsOn,
+      ...extra,
+    });
+    const flush = () => new Promise(r => setTimeout(r, 0));
+
+    it("keeps a task blocked until its dependencies complete", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("api"));
+      const info = await pool.submit(dependent("client", ["api"]));
+
+      expect(info.status).toBe("blocked");
+      expect(pool.getBlockers("client")).toEqual(["api (running)"]);
+
+      deferreds.get("api")!.resolve(createResult("api"));
+      await flush();
+
+      expect(pool.getAgent("client")?.status).toBe("running");
+      expect(pool.getBlockers("client")).toEqual([]);
+    });
+
+    it("runs the prepare hook before queueing the released task", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("api"));
+      const prepare = vi.fn(async (task: TaskDefinition) => ({ ...task, cwd: "/repo/.worktrees/client" }));
+      await pool.submit(dependent("client", ["api"]), { prepare });
+
+      deferreds.get("api")!.resolve(createResult("api"));
+      await flush();
+
+      expect(prepare).toHaveBeenCalledTimes(1);
+      expect(mockLifecycle.runTask.mock.calls[1][0].cwd).toBe("/repo/.worktrees/client");
+    });
+
+    it("waits for the merge when waitForMerge is set", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("api"));
+      await pool.submit(dependent("client", ["api"], { waitForMerge: true }));
+
+      deferreds.get("api")!.resolve(createResult("api"));
+      await flush();
+      expect(pool.getAgent("client")?.status).toBe("blocked");
+      expect(pool.getBlockers("client")).toEqual(["api (not merged)"]);
+
+      pool.markMerged("api");
+      await flush();
+      expect(pool.getAgent("client")?.status).toBe("running");
+    });
+
+    it("fails dependents, transitively, when a dependency fails", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("api"));
+      await pool.submit(dependent("client", ["api"]));
+      await pool.submit(dependent("docs", ["client"]));
+
+      deferreds.get("api")!.resolve(createResult("api", false));
+      await flush();
+
+      expect(pool.getAgent("client")?.status).toBe("failed");
+      expect(pool.getAgent("client")?.result?.error).toBe("Dependency api failed");
+      expect(pool.getAgent("docs")?.result?.error).toBe("Dependency client failed");
+      expect(onFailed).toHaveBeenCalledTimes(3);
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails dependents when a dependency is cancelled", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("api"));
+      await pool.submit(dependent("client", ["api"]));
+
+      await pool.cancel("api");
+
+      expect(pool.getAgent("client")?.result?.error).toBe("Dependency api cancelled");
+    });
+
+    it("fails the task when prepare throws", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("api"));
+      await pool.submit(dependent("client", ["api"]), {
+        prepare: async () => { throw new Error("Merge conflicts in: src/api.ts"); },
+      });
+
+      deferreds.get("api")!.resolve(createResult("api"));
+      await flush();
+
+      expect(pool.getAgent("client")?.status).toBe("failed");
+      expect(pool.getAgent("client")?.result?.error).toBe("Merge conflicts in: src/api.ts");
+    });
+
+    it("can cancel a blocked task", async () => {
+      const onCancelled = vi.fn();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning, onCancelled });
+      await pool.submit(createTask("api"));
+      await pool.submit(dependent("client", ["api"]));
+
+      expect(await pool.cancel("client")).toBe(true);
+      deferreds.get("api")!.resolve(createResult("api"));
+      await flush();
+
+      expect(pool.getAgent("client")?.status).toBe("cancelled");
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("discards what prepare made for a task cancelled while it ran", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("api"));
+      let finishPrepare!: () => void;
+      const prepare = vi.fn((task: TaskDefinition) => new Promise<TaskDefinition>((resolve) => {
+        finishPrepare = () => resolve({ ...task, cwd: "/repo/.worktrees/client" });
+      }));
+      const discard = vi.fn(async () => undefined);
+      await pool.submit(dependent("client", ["api"]), { prepare, discard });
+
+      deferreds.get("api")!.resolve(createResult("api"));
+      await flush();
+      expect(prepare).toHaveBeenCalledTimes(1);
+
+      await pool.cancel("client");
+      finishPrepare();
+      await flush();
+
+      expect(discard).toHaveBeenCalledWith(expect.objectContaining({ cwd: "/repo/.worktrees/client" }));
+      expect(pool.getAgent("client")?.status).toBe("cancelled");
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects unknown or already failed dependencies", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await expect(pool.submit(dependent("client", ["missing"]))).rejects.toThrow("Unknown dependency: missing");
+
+      await pool.submit(createTask("api"));
+      deferreds.get("api")!.resolve(createResult("api", false));
+      await flush();
+
+      await expect(pool.submit(dependent("client", ["api"]))).rejects.toThrow("Dependency api is failed");
+    });
+  });
+  describe("resource locks", () => {
+    const locking = (id: string, resources: string[]): TaskDefinition => ({ ...createTask(id), resources });
+
+    it("queues a task whose resources overlap a running task even with spare capacity", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(locking("task-1", ["/repo/src/**"]));
+      const second = await pool.submit(locking("task-2", ["/repo/src/api.ts"]));
+      const third = await pool.submit(locking("task-3", ["/repo/docs/**"]));
+
+      expect(second.status).toBe("queued");
+      expect(third.status).toBe("running");
+      expect(pool.getWaitReason("task-2")).toBe("waiting for lock on /repo/src/api.ts (held by task-1)");
+    });
+
+    it("starts the waiting task once the lock is released", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(locking("task-1", ["/repo"]));
+      await pool.submit(locking("task-2", ["/repo/src/**"]));
+
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getAgent("task-2")?.status).toBe("running");
+    });
+
+    it("lets unlocked tasks overtake a locked one in the queue", async () => {
+      const pool = new AgentPool(2, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(locking("task-1", ["/repo/src/**"]));
+      await pool.submit(createTask("task-2"));
+      await pool.submit({ ...locking("task-3", ["/repo/src/**"]), priority: "high" });
+      await pool.submit(createTask("task-4"));
+
+      deferreds.get("task-2")!.resolve(createResult("task-2"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getAgent("task-3")?.status).toBe("queued");
+      expect(pool.getAgent("task-4")?.status).toBe("running");
+    });
+
+    it("reports waiting for capacity when no lock is involved", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2"));
+
+      expect(pool.getWaitReason("task-2")).toBe("waiting for capacity");
+      expect(pool.getWaitReason("task-1")).toBeUndefined();
+    });
+  });
+
+  describe("pool limits", () => {
+    const deep = (id: string): TaskDefinition => ({ ...createTask(id), tier: "deep" });
+
+    it("starts queued tasks immediately when maxConcurrent is raised", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2"));
+      await pool.submit(createTask("task-3"));
+
+      const limits = pool.setLimits({ maxConcurrent: 3 });
+
+      expect(limits.maxConcurrent).toBe(3);
+      expect(pool.runningCount()).toBe(3);
+      expect(pool.queuedCount()).toBe(0);
+    });
+
+    it("lets running tasks drain when maxConcurrent is lowered", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2"));
+      await pool.submit(createTask("task-3"));
+
+      pool.setLimits({ maxConcurrent: 1 });
+      const fourth = await pool.submit(createTask("task-4"));
+
+      expect(pool.runningCount()).toBe(3);
+      expect(fourth.status).toBe("queued");
+      expect(mockLifecycle.cancel).not.toHaveBeenCalled();
+
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      deferreds.get("task-2")!.resolve(createResult("task-2"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getAgent("task-4")?.status).toBe("queued");
+
+      deferreds.get("task-3")!.resolve(createResult("task-3"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getAgent("task-4")?.status).toBe("running");
+    });
+
+    it("caps concurrency per tier while other tiers keep running", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      pool.setLimits({ tierLimits: { deep: 1 } });
+
+      await pool.submit(deep("task-1"));
+      const second = await pool.submit(deep("task-2"));
+      const third = await pool.submit(createTask("task-3"));
+
+      expect(second.status).toBe("queued");
+      expect(third.status).toBe("running");
+      expect(pool.getWaitReason("task-2")).toBe("waiting for deep tier slot (1/1 running)");
+
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getAgent("task-2")?.status).toBe("running");
+    });
+
+    it("starts tier-capped tasks when the cap is removed", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      pool.setLimits({ tierLimits: { deep: 1 } });
+      await pool.submit(deep("task-1"));
+      await pool.submit(deep("task-2"));
+
+      const limits = pool.setLimits({ tierLimits: { deep: null } });
+
+      expect(limits.tierLimits).toEqual({});
+      expect(pool.getAgent("task-2")?.status).toBe("running");
+    });
+
+    it("rejects invalid limits without changing anything", () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+
+      expect(() => pool.setLimits({ maxConcurrent: 0 })).toThrow("Invalid maxConcurrent");
+      expect(() => pool.setLimits({ maxConcurrent: 2, tierLimits: { deep: 1.5 } })).toThrow("Invalid limit for tier deep");
+      expect(pool.getLimits()).toEqual({ maxConcurrent: 3, tierLimits: {} });
+    });
+  });
+
+  describe("restart recovery", () => {
+    const snapshotAfterRestart = async () => {
+      const before = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await before.submit(createTask("task-1"));
+      await before.submit({ ...createTask("task-2"), priority: "high" });
+      await before.submit({ ...createTask("task-3"), dependsOn: ["task-1"] });
+      return before.getSnapshot();
+    };
+
+    it("snapshots unfinished tasks in submission order", async () => {
+      const snapshot = await snapshotAfterRestart();
+
+      expect(snapshot.map(entry => [entry.task.id, entry.status])).toEqual([
+        ["task-1", "running"],
+        ["task-2", "queued"],
+        ["task-3", "blocked"],
+      ]);
+      expect(snapshot[1].task.priority).toBe("high");
+    });
+
+    it("keeps finished dependencies of unfinished tasks in the snapshot", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2"));
+      await pool.submit({ ...createTask("task-3"), dependsOn: ["task-1"], waitForMerge: true });
+
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      deferreds.get("task-2")!.resolve(createResult("task-2"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getSnapshot().map(entry => [entry.task.id, entry.status])).toEqual([
+        ["task-1", "completed"],
+        ["task-3", "blocked"],
+      ]);
+    });
+
+    it("re-queues queued tasks and marks running ones interrupted", async () => {
+      const snapshot = await snapshotAfterRestart();
+      mockLifecycle.runTask.mockClear();
+
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      for (const entry of snapshot) {
+        pool.restore(entry);
+      }
+
+      expect(pool.getAgent("task-1")?.status).toBe("interrupted");
+      expect(pool.getAgent("task-2")?.status).toBe("running");
+      expect(pool.getAgent("task-3")?.status).toBe("blocked");
+      expect(pool.getBlockers("task-3")).toEqual(["task-1 (interrupted)"]);
+      expect(mockLifecycle.runTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("resumes an interrupted task from its saved session", async () => {
+      const snapshot = await snapshotAfterRestart();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      pool.restore(snapshot[0]);
+
+      const info = pool.resumeInterrupted("task-1", "/sessions/task-1.jsonl", "Carry on");
+
+      expect(info.status).toBe("running");
+      expect(info.attempt).toBe(2);
+      expect(mockLifecycle.runTask).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: "task-1", prompt: "Carry on", resumeSessionFile: "/sessions/task-1.jsonl" }),
+        expect.any(Function),
+        expect.any(Object)
+      );
+    });
+
+    it("retries an interrupted task with its original prompt and releases dependents on success", async () => {
+      const snapshot = await snapshotAfterRestart();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      pool.restore(snapshot[0]);
+      pool.restore(snapshot[2]);
+
+      pool.retryInterrupted("task-1");
+      expect(mockLifecycle.runTask).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: "task-1", prompt: "Task task-1" }),
+        expect.any(Function),
+        expect.any(Object)
+      );
+
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(pool.getAgent("task-3")?.status).toBe("running");
+    });
+
+    it("discards an interrupted task with cancel, failing its dependents", async () => {
+      const snapshot = await snapshotAfterRestart();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      pool.restore(snapshot[0]);
+      pool.restore(snapshot[2]);
+
+      expect(await pool.cancel("task-1")).toBe(true);
+
+      expect(pool.getAgent("task-1")?.status).toBe("cancelled");
+      expect(pool.getAgent("task-3")?.result?.error).toBe("Dependency task-1 cancelled");
+    });
+
+    it("fails a restored blocked task whose dependency was not saved", async () => {
+      const snapshot = await snapshotAfterRestart();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+
+      const info = pool.restore(snapshot[2]);
+
+      expect(info.status).toBe("failed");
+      expect(info.result?.error).toBe("Dependency task-1 was lost on restart");
+    });
+
+    it("rejects resume and retry for tasks that are not interrupted", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+
+      expect(() => pool.retryInterrupted("task-1")).toThrow("Agent is running, can only resume or retry interrupted agents");
+      expect(() => pool.retryInterrupted("missing")).toThrow("Agent not found: missing");
+      expect(() => pool.restore({ task: createTask("task-1"), status: "queued", attempt: 1, attempts: [] }))
+        .toThrow("Agent already exists: task-1");
+    });
+
+    it("reports state changes as tasks start and finish", async () => {
+      const onStateChange = vi.fn();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning, onStateChange });
+
+      await pool.submit(createTask("task-1"));
+      expect(onStateChange).toHaveBeenCalled();
+
+      onStateChange.mockClear();
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+
+      expect(onStateChange).toHaveBeenCalled();
+      expect(pool.getSnapshot()).toEqual([]);
+    });
+  });
+
+  describe("rate limits", () => {
+    const runOptions = (taskId: string) =>
+      mockLifecycle.runTask.mock.calls.find((call: any[]) => call[0].id === taskId)[2];
+
+    it("holds back starts while the provider is at its request limit", async () => {
+      vi.useFakeTimers();
+      try {
+        const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+        pool.setRateLimits({ anthropic: { requestsPerMinute: 1 } });
+        await pool.submit(createTask("task-1"));
+        runOptions("task-1").onRequest(500);
+
+        const second = await pool.submit(createTask("task-2"));
+
+        expect(second.status).toBe("queued");
+        expect(pool.getWaitReason("task-2")).toBe("waiting for anthropic rate limit (60s)");
+
+        vi.advanceTimersByTime(60_000);
+        expect(pool.getAgent("task-2")?.status).toBe("running");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("pauses the provider and reports when a running task is throttled", async () => {
+      const onRateLimited = vi.fn();
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning, onRateLimited });
+      const first = await pool.submit(createTask("task-1"));
+
+      const event = { retry: 1, delayMs: 30_000, error: "429" };
+      runOptions("task-1").onRateLimited(event);
+      const second = await pool.submit(createTask("task-2"));
+
+      expect(onRateLimited).toHaveBeenCalledWith(first, event);
+      expect(second.status).toBe("queued");
+      expect(pool.getWaitReason("task-2")).toBe("waiting for anthropic rate limit (30s)");
+    });
+
+    it("does not hold back providers without limits", async () => {
+      const pool = new AgentPool(3, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      runOptions("task-1").onRequest(1_000_000);
+
+      expect((await pool.submit(createTask("task-2"))).status).toBe("running");
+    });
+  });
+
+  describe("batches", () => {
+    it("groups tasks by batch ID, including after a restart", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit({ ...createTask("task-1"), batchId: "batch-1" });
+      await pool.submit(createTask("task-2"));
+      await pool.submit({ ...createTask("task-3"), batchId: "batch-1" });
+
+      expect(pool.getBatch("batch-1").map(a => a.taskId)).toEqual(["task-1", "task-3"]);
+      expect(pool.getBatch("batch-2")).toEqual([]);
+
+      const restored = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      for (const entry of pool.getSnapshot()) {
+        restored.restore(entry);
+      }
+      expect(restored.getBatch("batch-1").map(a => a.taskId)).toEqual(["task-1", "task-3"]);
+    });
+  });
+
+  describe("event bus", () => {
+    const recordEvents = (pool: AgentPool) => {
+      const events: string[] = [];
+      pool.bus.onAny((type, payload) => {
+        events.push(`${type}:${"taskId" in payload ? payload.taskId : ""}`);
+      });
+      return events;
+    };
+
+    it("emits queued, started and completed for a task, then merged", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      const events = recordEvents(pool);
+      const completed = vi.fn();
+      pool.bus.on("completed", completed);
+
+      await pool.submit({ ...createTask("task-1"), batchId: "batch-1" });
+      deferreds.get("task-1")!.resolve(createResult("task-1"));
+      await new Promise(r => setTimeout(r, 0));
+      pool.markMerged("task-1");
+
+      expect(events).toEqual(["queued:task-1", "started:task-1", "completed:task-1", "merged:task-1"]);
+      expect(completed).toHaveBeenCalledWith(expect.objectContaining({
+        taskId: "task-1",
+        tier: "light",
+        attempt: 1,
+        batchId: "batch-1",
+        result: expect.objectContaining({ success: true }),
+      }));
+    });
+
+    it("emits blocked tasks as queued with their status", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      const queued = vi.fn();
+      pool.bus.on("queued", queued);
+
+      await pool.submit(createTask("task-1"));
+      await pool.submit({ ...createTask("task-2"), dependsOn: ["task-1"] });
+
+      expect(queued.mock.calls.map(([event]) => [event.taskId, event.status])).toEqual([
+        ["task-1", "queued"],
+        ["task-2", "blocked"],
+      ]);
+    });
+
+    it("emits failed, cancelled and discarded", async () => {
+      const pool = new AgentPool(2, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      await pool.submit(createTask("task-1"));
+      await pool.submit(createTask("task-2"));
+      const events = recordEvents(pool);
+      const failed = vi.fn();
+      pool.bus.on("failed", failed);
+
+      deferreds.get("task-1")!.resolve(createResult("task-1", false));
+      await pool.cancel("task-2");
+      pool.markDiscarded("task-2");
+
+      expect(events).toEqual(["failed:task-1", "cancelled:task-2", "discarded:task-2"]);
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ taskId: "task-1", error: "Test error" }));
+    });
+
+    it("forwards output, tool calls and budget warnings", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      const events = recordEvents(pool);
+      await pool.submit(createTask("task-1"));
+
+      const [, onOutput, options] = mockLifecycle.runTask.mock.calls[0];
+      onOutput("hello");
+      options.onToolCall("bash", { command: "ls" });
+      const warning: BudgetWarning = { type: "soft", tier: "light", taskId: "task-1", cost: 0.6, threshold: 0.5, message: "Over" };
+      options.onBudgetWarning(warning);
+
+      expect(events.slice(2)).toEqual(["output:task-1", "tool-call:task-1", "budget-warning:task-1"]);
+      expect(onWarning).toHaveBeenCalledWith(warning);
+    });
+
+    it("keeps notifying other subscribers when one throws", async () => {
+      const pool = new AgentPool(1, mockLifecycle, mockBudget, { onComplete, onFailed, onWarning });
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const started = vi.fn();
+      pool.bus.on("started", () => { throw new Error("bad subscriber"); });
+      pool.bus.on("started", started);
+
+      const info = await pool.submit(createTask("task-1"));
+
+      expect(info.status).toBe("running");
+      expect(started).toHaveBeenCalledTimes(1);
+      errorSpy.mockRestore();
+    });
+  });
 });
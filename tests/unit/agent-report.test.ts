@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { parseAgentReport, formatAgentReport, REPORT_INSTRUCTIONS } from "../../src/agent-report";
+import type { AgentReport } from "../../src/types";
+
+const fullReport: AgentReport = {
+  summary: "Added the auth endpoint",
+  filesTouched: ["src/auth.ts", "tests/auth.test.ts"],
+  testsRun: ["pnpm test — 12 passed"],
+  openQuestions: ["Should tokens expire?"],
+  confidence: "medium",
+  followUps: ["Add rate limiting"],
+};
+
+function wrap(json: string): string {
+  return `Done with the task.\n<report>\n${json}\n</report>`;
+}
+
+describe("parseAgentReport", () => {
+  it("parses a complete report", () => {
+    expect(parseAgentReport(wrap(JSON.stringify(fullReport)))).toEqual(fullReport);
+  });
+
+  it("returns undefined when there is no report", () => {
+    expect(parseAgentReport("I finished the task.")).toBeUndefined();
+  });
+
+  it("returns undefined for malformed JSON", () => {
+    expect(parseAgentReport(wrap("{ summary: oops"))).toBeUndefined();
+  });
+
+  it("returns undefined when the summary is missing", () => {
+    expect(parseAgentReport(wrap(JSON.stringify({ confidence: "high" })))).toBeUndefined();
+  });
+
+  it("uses the last report when several are present", () => {
+    const text = wrap(JSON.stringify({ summary: "draft" })) + "\n" + wrap(JSON.stringify({ summary: "final" }));
+    expect(parseAgentReport(text)?.summary).toBe("final");
+  });
+
+  it("defaults missing lists to empty arrays and drops non-string items", () => {
+    const report = parseAgentReport(wrap(JSON.stringify({
+      summary: "Partial",
+      confidence: "high",
+      filesTouched: ["a.ts", 42, null],
+    })));
+
+    expect(report).toEqual({
+      summary: "Partial",
+      filesTouched: ["a.ts"],
+      testsRun: [],
+      openQuestions: [],
+      confidence: "high",
+      followUps: [],
+    });
+  });
+
+  it("treats an unknown confidence as low", () => {
+    const report = parseAgentReport(wrap(JSON.stringify({ summary: "x", confidence: "very sure" })));
+    expect(report?.confidence).toBe("low");
+  });
+});
+
+describe("formatAgentReport", () => {
+  it("includes every non-empty section", () => {
+    const text = formatAgentReport(fullReport);
+
+    expect(text).toContain("Summary: Added the auth endpoint");
+    expect(text).toContain("Confidence: medium");
+    expect(text).toContain("  - src/auth.ts");
+    expect(text).toContain("  - pnpm test — 12 passed");
+    expect(text).toContain("  - Should tokens expire?");
+    expect(text).toContain("  - Add rate limiting");
+  });
+
+  it("omits empty sections", () => {
+    const text = formatAgentReport({ ...fullReport, openQuestions: [], followUps: [] });
+
+    expect(text).not.toContain("Open questions");
+    expect(text).not.toContain("Suggested follow-ups");
+  });
+});
+
+describe("REPORT_INSTRUCTIONS", () => {
+  it("contains an example that parses", () => {
+    expect(parseAgentReport(REPORT_INSTRUCTIONS)).toBeDefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { summarizeBatch, formatBatchSummary, formatBatchTable } from "../../src/batch";
+import type { AgentInfo, AgentStatus } from "../../src/agent-pool";
+
+const createAgent = (taskId: string, status: AgentStatus, extra: Partial<AgentInfo> = {}): AgentInfo => ({
+  taskId,
+  description: `Migrate ${taskId}`,
+  tier: "light",
+  status,
+  attempt: 1,
+  attempts: [],
+  batchId: "batch-1",
+  ...extra,
+});
+
+describe("summarizeBatch", () => {
+  it("counts statuses and sums attempt costs", () => {
+    const attempt = { attempt: 1, tier: "light" as const, outcome: "success" as const, costEstimate: 0.1, durationMs: 1000 };
+    const summary = summarizeBatch("batch-1", [
+      createAgent("a", "completed", { attempts: [attempt, attempt] }),
+      createAgent("b", "running"),
+      createAgent("c", "running"),
+    ]);
+
+    expect(summary.total).toBe(3);
+    expect(summary.counts).toEqual({ completed: 1, running: 2 });
+    expect(summary.done).toBe(false);
+    expect(summary.costEstimate).toBeCloseTo(0.2);
+    expect(formatBatchSummary(summary)).toBe("batch-1: 3 agents — 1 completed, 2 running ($0.20)");
+  });
+
+  it("is done once every agent is completed, failed or cancelled", () => {
+    const agents = [createAgent("a", "completed"), createAgent("b", "failed"), createAgent("c", "cancelled")];
+    expect(summarizeBatch("batch-1", agents).done).toBe(true);
+    expect(summarizeBatch("batch-1", []).done).toBe(false);
+  });
+});
+
+describe("formatBatchTable", () => {
+  it("shows the report summary of completed agents and the error of failed ones", () => {
+    const table = formatBatchTable([
+      createAgent("a", "completed", {
+        result: {
+          taskId: "a", success: true, output: "raw output", filesChanged: [],
+          tokenUsage: { input: 0, output: 0 }, costEstimate: 0, durationMs: 0,
+          report: { summary: "Converted 4 files", confidence: "high", filesTouched: [], testsRun: [], openQuestions: [], followUps: [] },
+        },
+      }),
+      createAgent("b", "failed", {
+        result: {
+          taskId: "b", success: false, output: "", filesChanged: [],
+          tokenUsage: { input: 0, output: 0 }, costEstimate: 0, durationMs: 0, error: "Tests failed",
+        },
+      }),
+      createAgent("c", "cancelled"),
+    ]);
+
+    expect(table).toBe([
+      "• a [completed] — Migrate a\n  Converted 4 files",
+      "• b [failed] — Migrate b\n  Error: Tests failed",
+      "• c [cancelled] — Migrate c",
+    ].join("\n"));
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { BudgetTracker } from "../../src/budget-tracker";
 import type { TaskResult, TaskTier } from "../../src/types";
-import { mkdirSync, rmSync, existsSync } from "fs";
+import { mkdirSync, rmSync, existsSync, readFileSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
 
@@ -80,6 +80,19 @@ describe("BudgetTracker", () => {
       expect(warning?.threshold).toBe(0.50);
       expect(warning?.message).toBeTruthy();
     });
+
+    it("adds a further attempt of the same task to its record", () => {
+      tracker.recordTask(createTaskResult("task-1", 0.30), "light");
+      const warning = tracker.recordTask(createTaskResult("task-1", 0.30), "light");
+
+      const record = tracker.getTaskRecord("task-1");
+      expect(record?.costEstimate).toBeCloseTo(0.60);
+      expect(record?.attempts).toBe(2);
+      expect(record?.tokenUsage?.input).toBe(2000);
+      expect(tracker.getTierSummary("light").taskCount).toBe(1);
+      // Threshold applies to the task's total spend
+      expect(warning?.type).toBe("soft");
+    });
   });
 
   describe("getTierSummary", () => {
@@ -142,6 +155,15 @@ describe("BudgetTracker", () => {
   });
 
   describe("persistence", () => {
+    it("save writes token usage into the history", async () => {
+      tracker.recordTask(createTaskResult("task-1", 0.25), "light");
+      await tracker.save();
+
+      const content = readFileSync(join(tempDir, "budget-history.jsonl"), "utf-8");
+      const record = JSON.parse(content.trim().split("\n")[0]);
+      expect(record.tokenUsage).toEqual({ input: 1000, output: 500 });
+    });
+
     it("save creates JSONL file with records", async () => {
       tracker.recordTask(createTaskResult("task-1", 0.25), "light");
       tracker.recordTask(createTaskResult("task-2", 0.30), "light");
@@ -196,6 +218,19 @@ describe("BudgetTracker", () => {
       expect(summary.taskCount).toBe(2);
       expect(summary.totalCost).toBe(0.55);
     });
+
+    it("save rewrites the history when a saved record was updated", async () => {
+      tracker.recordTask(createTaskResult("task-1", 0.25), "light");
+      await tracker.save();
+
+      tracker.recordTask(createTaskResult("task-1", 0.10), "light");
+      await tracker.save();
+
+      const content = readFileSync(join(tempDir, "budget-history.jsonl"), "utf-8");
+      const lines = content.trim().split("\n");
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]).costEstimate).toBeCloseTo(0.35);
+    });
   });
 
   describe("formatReport", () => {
@@ -218,4 +253,95 @@ describe("BudgetTracker", () => {
       expect(report).toContain("No tasks recorded");
     });
   });
+
+  describe("spend ceilings", () => {
+    it("reports no ceilings and no headroom until configured", () => {
+      expect(tracker.getCeilingStatus()).toEqual([]);
+      expect(tracker.getHeadroom()).toBeUndefined();
+      expect(tracker.checkCeilings(100)).toEqual([]);
+    });
+
+    it("counts recorded spend and reservations against each ceiling", () => {
+      tracker.setCeilings({ session: 2, daily: 5, onExceed: "refuse" });
+      tracker.recordTask(createTaskResult("task-1", 0.5), "light");
+      tracker.reserve("task-2", 1);
+
+      expect(tracker.getCeilingStatus()).toEqual([
+        { period: "session", limit: 2, spent: 0.5, reserved: 1, remaining: 0.5 },
+        { period: "daily", limit: 5, spent: 0.5, reserved: 1, remaining: 3.5 },
+      ]);
+      expect(tracker.getHeadroom()).toBe(0.5);
+      expect(tracker.checkCeilings(1).map(c => c.period)).toEqual(["session"]);
+      expect(tracker.checkCeilings(0.5)).toEqual([]);
+    });
+
+    it("releases a reservation once the task's spend is recorded or it is released", () => {
+      tracker.setCeilings({ session: 10, onExceed: "refuse" });
+      tracker.reserve("task-1", 2);
+      tracker.reserve("task-2", 3);
+
+      tracker.recordTask(createTaskResult("task-1", 1.5), "light");
+      tracker.release("task-2");
+
+      expect(tracker.getHeadroom()).toBe(8.5);
+    });
+
+    it("only counts spend since the start of the session, day and month", () => {
+      let now = new Date(2026, 2, 31, 23, 0).getTime();
+      const clocked = new BudgetTracker(tempDir, () => now);
+      clocked.setCeilings({ session: 100, daily: 100, monthly: 100, onExceed: "refuse" });
+      clocked.recordTask(createTaskResult("task-1", 4), "light");
+
+      // Past midnight into a new month: only the session still counts it
+      now = new Date(2026, 3, 1, 1, 0).getTime();
+      clocked.recordTask(createTaskResult("task-2", 1), "light");
+
+      expect(clocked.getCeilingStatus().map(c => [c.period, c.spent])).toEqual([
+        ["session", 5],
+        ["daily", 1],
+        ["monthly", 1],
+      ]);
+    });
+
+    it("counts each attempt of a task in the period it was spent", async () => {
+      let now = new Date(2026, 2, 31, 23, 0).getTime();
+      const clocked = new BudgetTracker(tempDir, () => now);
+      clocked.setCeilings({ session: 100, daily: 100, monthly: 100, onExceed: "refuse" });
+      clocked.recordTask(createTaskResult("task-1", 4), "light");
+
+      // A retry of the same task after midnight, in a new month
+      now = new Date(2026, 3, 1, 1, 0).getTime();
+      clocked.recordTask(createTaskResult("task-1", 1), "light");
+
+      expect(clocked.getTaskRecord("task-1")).toMatchObject({ costEstimate: 5, attempts: 2 });
+      expect(clocked.getCeilingStatus().map(c => [c.period, c.spent])).toEqual([
+        ["session", 5],
+        ["daily", 1],
+        ["monthly", 1],
+      ]);
+
+      // The split survives a reload
+      await clocked.save();
+      const reloaded = new BudgetTracker(tempDir, () => now);
+      await reloaded.load();
+      reloaded.setCeilings({ daily: 100, onExceed: "refuse" });
+      expect(reloaded.getCeilingStatus().map(c => [c.period, c.spent])).toEqual([["daily", 1]]);
+    });
+
+    it("expects the tier's average cost, or its soft threshold without history", () => {
+      expect(tracker.getExpectedCost("light")).toBe(0.5);
+
+      tracker.recordTask(createTaskResult("task-1", 0.2), "light");
+      tracker.recordTask(createTaskResult("task-2", 0.4), "light");
+
+      expect(tracker.getExpectedCost("light")).toBeCloseTo(0.3);
+    });
+
+    it("shows headroom in the report", () => {
+      tracker.setCeilings({ daily: 3, onExceed: "refuse" });
+      tracker.recordTask(createTaskResult("task-1", 1), "light");
+
+      expect(tracker.formatReport()).toContain("daily: $1.00 of $3.00 | Left: $2.00");
+    });
+  });
 });
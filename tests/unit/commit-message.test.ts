@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { appendTrailers, buildCommitMessage, type CommitMessageVars } from "../../src/commit-message";
+
+const vars: CommitMessageVars = {
+  taskId: "task-3",
+  description: "Add retry to fetch",
+  tier: "standard",
+  branch: "agent/task-3",
+  target: "main",
+  summary: "Retries failed requests up to three times.",
+  files: "src/fetch.ts, tests/fetch.test.ts",
+};
+
+describe("buildCommitMessage", () => {
+  it("renders the message and appends trailers after a blank line", () => {
+    const message = buildCommitMessage("{{description}}\n\n{{summary}}", ["Sirdar-Task: {{taskId}}", "Sirdar-Tier: {{tier}}"], vars);
+
+    expect(message).toBe(
+      "Add retry to fetch\n\nRetries failed requests up to three times.\n\nSirdar-Task: task-3\nSirdar-Tier: standard"
+    );
+  });
+
+  it("trims a message whose summary is empty", () => {
+    const message = buildCommitMessage("{{description}}\n\n{{summary}}", [], { ...vars, summary: "" });
+
+    expect(message).toBe("Add retry to fetch");
+  });
+
+  it("drops trailers that render without a value", () => {
+    const message = buildCommitMessage("{{description}}", ["Files: {{files}}", "Sirdar-Task: {{taskId}}"], { ...vars, files: "" });
+
+    expect(message).toBe("Add retry to fetch\n\nSirdar-Task: task-3");
+  });
+
+  it("throws on unknown placeholders", () => {
+    expect(() => buildCommitMessage("{{title}}", [], vars)).toThrow("Missing template variables: title");
+  });
+});
+
+describe("appendTrailers", () => {
+  it("adds a trailer block after a blank line", () => {
+    expect(appendTrailers("Fix the parser\n\nIt choked on tabs.\n", ["Sirdar-Task: task-3"])).toBe(
+      "Fix the parser\n\nIt choked on tabs.\n\nSirdar-Task: task-3"
+    );
+  });
+
+  it("joins an existing trailer block and skips trailers already there", () => {
+    const message = "Fix the parser\n\nSigned-off-by: Dev <dev@example.com>\nSirdar-Task: task-3";
+
+    expect(appendTrailers(message, ["Sirdar-Task: task-3", "Sirdar-Tier: light"])).toBe(`${message}\nSirdar-Tier: light`);
+    expect(appendTrailers(message, ["Sirdar-Task: task-3"])).toBe(message);
+  });
+});
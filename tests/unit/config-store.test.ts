@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ConfigStore, DEFAULT_CONFIG } from "../../src/config-store";
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+describe("ConfigStore", () => {
+  let tempDir: string;
+  let persistPath: string;
+  let store: ConfigStore;
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `config-store-test-${Date.now()}`);
+    mkdirSync(tempDir, { recursive: true });
+    persistPath = join(tempDir, "config.json");
+    store = new ConfigStore(persistPath);
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("uses defaults when no file exists", () => {
+    store.load();
+    expect(store.get()).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("persists pool limits across instances", () => {
+    store.setPoolLimits({ maxConcurrent: 5, tierLimits: { deep: 1 } });
+
+    const reloaded = new ConfigStore(persistPath);
+    reloaded.load();
+
+    expect(reloaded.get().pool).toEqual({ maxConcurrent: 5, tierLimits: { deep: 1 } });
+    expect(JSON.parse(readFileSync(persistPath, "utf-8")).pool.maxConcurrent).toBe(5);
+  });
+
+  it("keeps defaults for invalid values and unknown tiers", () => {
+    writeFileSync(persistPath, JSON.stringify({
+      pool: { maxConcurrent: 0, tierLimits: { deep: 2, complex: -1, huge: 4 } },
+    }));
+
+    store.load();
+
+    expect(store.get().pool).toEqual({ maxConcurrent: 3, tierLimits: { deep: 2 } });
+  });
+
+  it("loads per-provider rate limits, dropping invalid ones", () => {
+    writeFileSync(persistPath, JSON.stringify({
+      rateLimits: {
+        anthropic: { requestsPerMinute: 50, tokensPerMinute: 400000 },
+        openai: { requestsPerMinute: -1 },
+        google: "fast",
+      },
+    }));
+
+    store.load();
+
+    expect(store.get().rateLimits).toEqual({ anthropic: { requestsPerMinute: 50, tokensPerMinute: 400000 } });
+  });
+
+  it("loads spend ceilings, dropping invalid ones", () => {
+    writeFileSync(persistPath, JSON.stringify({
+      spendCeilings: { session: 5, daily: -2, monthly: "lots", onExceed: "ask" },
+    }));
+
+    store.load();
+
+    expect(store.get().spendCeilings).toEqual({ session: 5, onExceed: "ask" });
+  });
+
+  it("resolves merge settings with per-repo overrides", () => {
+    writeFileSync(persistPath, JSON.stringify({
+      merge: {
+        mode: "squash",
+        trailers: ["Sirdar-Task: {{taskId}}", "Reviewed-by: nobody"],
+        repos: { "/work/app": { mode: "branch-only", messageTemplate: "{{description}}" }, "/work/lib": { mode: "octopus" } },
+      },
+    }));
+
+    store.load();
+
+    expect(store.getMergeSettings("/work/app")).toMatchObject({
+      mode: "branch-only",
+      messageTemplate: "{{description}}",
+      trailers: ["Sirdar-Task: {{taskId}}", "Reviewed-by: nobody"],
+    });
+    expect(store.getMergeSettings("/work/lib")).toMatchObject({
+      mode: "squash",
+      messageTemplate: DEFAULT_CONFIG.merge.messageTemplate,
+      trailers: ["Sirdar-Task: {{taskId}}", "Reviewed-by: nobody"],
+    });
+  });
+
+  it("loads verification commands and auto-fix attempts, dropping invalid ones", () => {
+    writeFileSync(persistPath, JSON.stringify({
+      merge: {
+        verify: ["npm test", "npm run lint"],
+        autoFixAttempts: 2,
+        repos: { "/work/app": { verify: ["make check", 3], autoFixAttempts: -1 } },
+      },
+    }));
+
+    store.load();
+
+    expect(store.getMergeSettings("/work/lib")).toMatchObject({ verify: ["npm test", "npm run lint"], autoFixAttempts: 2 });
+    expect(store.getMergeSettings("/work/app")).toMatchObject({ verify: ["npm test", "npm run lint"], autoFixAttempts: 2 });
+  });
+
+  it("loads the prune policy, dropping invalid values", () => {
+    writeFileSync(persistPath, JSON.stringify({ prune: { autoAfterHours: 72, includeUnmerged: true } }));
+    store.load();
+    expect(store.get().prune).toEqual({ autoAfterHours: 72, includeUnmerged: true });
+
+    writeFileSync(persistPath, JSON.stringify({ prune: { autoAfterHours: -1, includeUnmerged: "yes" } }));
+    store.load();
+    expect(store.get().prune).toEqual({ includeUnmerged: false });
+  });
+
+  it("falls back to defaults on a corrupt file", () => {
+    writeFileSync(persistPath, "{ not json");
+    store.load();
+    expect(store.get()).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("returns copies that can't mutate the store", () => {
+    store.get().pool.tierLimits.deep = 1;
+    expect(store.get().pool.tierLimits).toEqual({});
+  });
+});
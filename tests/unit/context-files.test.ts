@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, symlinkSync } from "fs";
+import { basename, join } from "path";
+import { tmpdir } from "os";
+import {
+  resolveContextFiles,
+  loadContextFiles,
+  formatContextFiles,
+  MAX_CONTEXT_FILE_BYTES,
+  MAX_CONTEXT_TOTAL_BYTES,
+} from "../../src/context-files";
+
+describe("context files", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "context-files-test-"));
+    mkdirSync(join(tempDir, "src"));
+    writeFileSync(join(tempDir, "src", "api.ts"), "export const api = 1;\n");
+    writeFileSync(join(tempDir, "README.md"), "# Project");
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("resolveContextFiles", () => {
+    it("resolves paths relative to the working directory", () => {
+      const resolved = resolveContextFiles(["src/api.ts", "README.md"], tempDir);
+      expect(resolved).toEqual([join(tempDir, "src", "api.ts"), join(tempDir, "README.md")]);
+    });
+
+    it("names every missing path in one error", () => {
+      expect(() => resolveContextFiles(["src/api.ts", "missing.ts", "gone/also.ts"], tempDir))
+        .toThrow(/missing\.ts.*gone\/also\.ts/);
+    });
+
+    it("explains that uncommitted files are not in the worktree", () => {
+      expect(() => resolveContextFiles(["missing.ts"], tempDir)).toThrow("uncommitted");
+    });
+
+    it("rejects directories", () => {
+      expect(() => resolveContextFiles(["src"], tempDir)).toThrow("src (not a file)");
+    });
+
+    it("rejects paths that climb out of the working directory", () => {
+      writeFileSync(join(tempDir, "..", `${basename(tempDir)}-secret`), "token");
+      try {
+        expect(() => resolveContextFiles(["src/api.ts", `../${basename(tempDir)}-secret`, "src/../../x"], tempDir))
+          .toThrow(`Context files must be inside ${tempDir}: ../${basename(tempDir)}-secret, src/../../x`);
+      } finally {
+        rmSync(join(tempDir, "..", `${basename(tempDir)}-secret`), { force: true });
+      }
+    });
+
+    it("rejects absolute paths outside the working directory", () => {
+      expect(() => resolveContextFiles(["/etc/passwd"], tempDir)).toThrow(`Context files must be inside ${tempDir}: /etc/passwd`);
+      expect(resolveContextFiles([join(tempDir, "README.md")], tempDir)).toEqual([join(tempDir, "README.md")]);
+    });
+
+    it("rejects symlinks that lead outside the working directory", () => {
+      symlinkSync("/etc/passwd", join(tempDir, "passwd"));
+      expect(() => resolveContextFiles(["passwd"], tempDir)).toThrow("Context files must be inside");
+    });
+  });
+
+  describe("loadContextFiles", () => {
+    it("reads file contents", async () => {
+      const context = await loadContextFiles(["src/api.ts"], tempDir);
+
+      expect(context.files).toEqual([
+        { path: "src/api.ts", content: "export const api = 1;\n", truncated: false },
+      ]);
+      expect(context.omitted).toEqual([]);
+    });
+
+    it("truncates files over the per-file limit", async () => {
+      writeFileSync(join(tempDir, "big.txt"), "a".repeat(MAX_CONTEXT_FILE_BYTES + 100));
+
+      const context = await loadContextFiles(["big.txt"], tempDir);
+
+      expect(context.files[0].truncated).toBe(true);
+      expect(context.files[0].content.length).toBe(MAX_CONTEXT_FILE_BYTES);
+    });
+
+    it("omits files once the total limit is reached", async () => {
+      const count = MAX_CONTEXT_TOTAL_BYTES / MAX_CONTEXT_FILE_BYTES;
+      const names: string[] = [];
+      for (let i = 0; i <= count; i++) {
+        const name = `file-${i}.txt`;
+        writeFileSync(join(tempDir, name), "b".repeat(MAX_CONTEXT_FILE_BYTES));
+        names.push(name);
+      }
+
+      const context = await loadContextFiles(names, tempDir);
+
+      expect(context.files).toHaveLength(count);
+      expect(context.omitted).toEqual([names[count]]);
+    });
+  });
+
+  describe("formatContextFiles", () => {
+    it("wraps each file with its path", async () => {
+      const context = await loadContextFiles(["src/api.ts", "README.md"], tempDir);
+      const text = formatContextFiles(context);
+
+      expect(text).toContain('<file path="src/api.ts">\nexport const api = 1;\n</file>');
+      expect(text).toContain('<file path="README.md">\n# Project\n</file>');
+    });
+
+    it("marks truncated files and lists omitted ones", () => {
+      const text = formatContextFiles({
+        files: [{ path: "big.txt", content: "aaa", truncated: true }],
+        omitted: ["other.txt"],
+      });
+
+      expect(text).toContain('<file path="big.txt" truncated="true">');
+      expect(text).toContain("read the file for the rest");
+      expect(text).toContain("other.txt");
+    });
+
+    it("returns an empty string when there is nothing to include", () => {
+      expect(formatContextFiles({ files: [], omitted: [] })).toBe("");
+    });
+  });
+});
@@ -14,11 +14,11 @@ describe("Orchestrator Extension", () => {
     expect(typeof orchestrator).toBe("function");
   });
 
-  it("registers the expected tools (spawn_agent, check_agents, check_budget, log_reflection, review_agent, merge_agent)", () => {
+  it("registers the expected tools (spawn_agent, check_agents, check_budget, log_reflection, review_agent, merge_agent, cancel_agent, view_transcript, continue_agent, reprioritize_agent, set_pool_limits, recover_agent, spawn_agents, merge_batch, discard_batch, wait_for_agents, prune_agents)", () => {
     orchestrator(mockPi);
 
-    // Verify registerTool was called 6 times
-    expect(mockPi.registerTool).toHaveBeenCalledTimes(6);
+    // Verify registerTool was called 17 times
+    expect(mockPi.registerTool).toHaveBeenCalledTimes(17);
 
     // Extract the registered tool names
     const calls = (mockPi.registerTool as any).mock.calls;
@@ -30,18 +30,29 @@ describe("Orchestrator Extension", () => {
     expect(toolNames).toContain("log_reflection");
     expect(toolNames).toContain("review_agent");
     expect(toolNames).toContain("merge_agent");
+    expect(toolNames).toContain("cancel_agent");
+    expect(toolNames).toContain("view_transcript");
+    expect(toolNames).toContain("continue_agent");
+    expect(toolNames).toContain("reprioritize_agent");
+    expect(toolNames).toContain("set_pool_limits");
+    expect(toolNames).toContain("recover_agent");
+    expect(toolNames).toContain("spawn_agents");
+    expect(toolNames).toContain("merge_batch");
+    expect(toolNames).toContain("discard_batch");
+    expect(toolNames).toContain("wait_for_agents");
+    expect(toolNames).toContain("prune_agents");
   });
 
-  it("registers the expected commands (agents)", () => {
+  it("registers the expected commands (prune-agents, agents)", () => {
     orchestrator(mockPi);
 
     // Verify registerCommand was called
-    expect(mockPi.registerCommand).toHaveBeenCalledTimes(1);
+    expect(mockPi.registerCommand).toHaveBeenCalledTimes(2);
 
-    // Extract the registered command name
+    // Extract the registered command names
     const calls = (mockPi.registerCommand as any).mock.calls;
-    const commandName = calls[0][0];
+    const commandNames = calls.map((call: any) => call[0]);
 
-    expect(commandName).toBe("agents");
+    expect(commandNames).toEqual(["prune-agents", "agents"]);
   });
 });
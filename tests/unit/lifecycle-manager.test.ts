@@ -1,7 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { LifecycleManager } from "../../src/lifecycle-manager";
+import { TranscriptStore } from "../../src/transcript-store";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
 import { createMockSession, createMockSessionFactory } from "../mocks/mock-session";
 import type { TaskDefinition } from "../../src/types";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
 
 describe("LifecycleManager", () => {
   let mockAuthStorage: any;
@@ -139,6 +144,56 @@ describe("LifecycleManager", () => {
       expect(callArgs.sessionManager.sessionFile).toBeUndefined();
     });
 
+    it("persists the session under the transcript store when one is given", async () => {
+      const transcriptDir = mkdtempSync(join(tmpdir(), "lifecycle-transcripts-"));
+      try {
+        const mockSession = createMockSession();
+        const mockCreateSession = createMockSessionFactory(mockSession);
+        const manager = new LifecycleManager({
+          createSession: mockCreateSession,
+          transcriptStore: new TranscriptStore(transcriptDir),
+        });
+
+        const result = await manager.runTask({
+          id: "persisted-task",
+          prompt: "Do something",
+          tier: "light",
+          description: "Persisted task",
+        });
+
+        const callArgs = (mockCreateSession.mock.calls[0] as any[])[0];
+        const sessionFile = callArgs.sessionManager.getSessionFile();
+        expect(sessionFile.startsWith(join(transcriptDir, "persisted-task"))).toBe(true);
+        expect(result.transcriptPath).toBe(sessionFile);
+      } finally {
+        rmSync(transcriptDir, { recursive: true, force: true });
+      }
+    });
+
+    it("reopens the saved session when continuing a task", async () => {
+      const transcriptDir = mkdtempSync(join(tmpdir(), "lifecycle-transcripts-"));
+      try {
+        const store = new TranscriptStore(transcriptDir);
+        const saved = SessionManager.create("/repo", store.getSessionDir("continued-task"));
+        const mockCreateSession = createMockSessionFactory(createMockSession());
+        const manager = new LifecycleManager({ createSession: mockCreateSession, transcriptStore: store });
+
+        const result = await manager.runTask({
+          id: "continued-task",
+          prompt: "Fix the review comment",
+          tier: "light",
+          description: "Continued task",
+          resumeSessionFile: saved.getSessionFile(),
+        });
+
+        const callArgs = (mockCreateSession.mock.calls[0] as any[])[0];
+        expect(callArgs.sessionManager.getSessionFile()).toBe(saved.getSessionFile());
+        expect(result.transcriptPath).toBe(saved.getSessionFile());
+      } finally {
+        rmSync(transcriptDir, { recursive: true, force: true });
+      }
+    });
+
     it("includes working directory in system prompt", async () => {
       const mockSession = createMockSession();
       const mockCreateSession = createMockSessionFactory(mockSession);
@@ -521,5 +576,457 @@ describe("LifecycleManager", () => {
       expect(result.output.startsWith("B")).toBe(true);
       expect(result.output).toBe("B".repeat(5000)); // Last 5000 should be all "B"s
     });
+    it("accumulates token usage from assistant message events", async () => {
+      const mockSession = createMockSession({
+        usage: { input: 1200, output: 300, cacheRead: 5000, cacheWrite: 800 },
+        thinkingText: "x".repeat(400),
+      });
+      const mockCreateSession = createMockSessionFactory(mockSession);
+
+      const manager = new LifecycleManager({
+        createSession: mockCreateSession,
+        authStorage: mockAuthStorage,
+        modelRegistry: mockModelRegistry,
+      });
+
+      const task: TaskDefinition = {
+        id: "test-task",
+        prompt: "Do something",
+        tier: "light",
+        description: "Test task",
+      };
+
+      const result = await manager.runTask(task);
+
+      expect(result.tokenUsage).toEqual({
+        input: 1200,
+        output: 300,
+        cacheRead: 5000,
+        cacheWrite: 800,
+        thinking: 100,
+      });
+    });
+
+    it("converts token usage to dollars with the model price table", async () => {
+      const mockSession = createMockSession({
+        usage: { input: 1_000_000, output: 100_000 },
+      });
+      const mockCreateSession = createMockSessionFactory(mockSession);
+
+      const manager = new LifecycleManager({
+        createSession: mockCreateSession,
+        authStorage: mockAuthStorage,
+        modelRegistry: mockModelRegistry,
+      });
+
+      const task: TaskDefinition = {
+        id: "test-task",
+        prompt: "Do something",
+        tier: "standard", // claude-sonnet-4-5: $3 in, $15 out per million
+        description: "Test task",
+      };
+
+      const result = await manager.runTask(task);
+
+      expect(result.costEstimate).toBeCloseTo(3.0 + 1.5);
+    });
+
+    it("reports usage and cost on the error path too", async () => {
+      const mockSession = createMockSession({
+        usage: { input: 1000, output: 1000 },
+        shouldThrow: true,
+      });
+      const mockCreateSession = createMockSessionFactory(mockSession);
+
+      const manager = new LifecycleManager({
+        createSession: mockCreateSession,
+        authStorage: mockAuthStorage,
+        modelRegistry: mockModelRegistry,
+      });
+
+      const task: TaskDefinition = {
+        id: "test-task",
+        prompt: "Do something",
+        tier: "light",
+        description: "Test task",
+      };
+
+      const result = await manager.runTask(task);
+
+      expect(result.success).toBe(false);
+      expect(result.tokenUsage.input).toBe(1000);
+      expect(result.costEstimate).toBeGreaterThan(0);
+    });
+    describe("live budget enforcement", () => {
+      // light tier uses claude-sonnet-4-5 ($3 / million input tokens)
+      // with a $0.50 soft warning and a $1.00 hard flag
+      const task: TaskDefinition = {
+        id: "budget-task",
+        prompt: "Do something expensive",
+        tier: "light",
+        description: "Budget task",
+      };
+
+      it("notifies once when spend crosses the soft threshold", async () => {
+        const mockSession = createMockSession({ usage: { input: 200_000 } }); // $0.60
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const onBudgetWarning = vi.fn();
+        const result = await manager.runTask(task, undefined, { onBudgetWarning });
+
+        expect(result.success).toBe(true);
+        expect(onBudgetWarning).toHaveBeenCalledTimes(1);
+        expect(onBudgetWarning).toHaveBeenCalledWith(expect.objectContaining({
+          type: "soft",
+          taskId: "budget-task",
+        }));
+      });
+
+      it("counts spend from earlier attempts toward the thresholds", async () => {
+        const mockSession = createMockSession({ usage: { input: 100_000 }, promptDelay: 50 }); // $0.30
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const result = await manager.runTask(task, undefined, { priorCost: 0.9 });
+
+        expect(result.outcome).toBe("budget-exceeded");
+        // The result reports this attempt's own cost only
+        expect(result.costEstimate).toBeCloseTo(0.3);
+      });
+
+      it("aborts the session at the hard threshold when no hook is given", async () => {
+        const mockSession = createMockSession({ usage: { input: 400_000 }, promptDelay: 50 }); // $1.20
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const result = await manager.runTask(task);
+
+        expect(mockSession.abort).toHaveBeenCalled();
+        expect(result.success).toBe(false);
+        expect(result.outcome).toBe("budget-exceeded");
+        expect(result.error).toContain("Budget exceeded");
+        expect(result.costEstimate).toBeCloseTo(1.2);
+      });
+
+      it("aborts when onHardLimit declines to continue", async () => {
+        const mockSession = createMockSession({ usage: { input: 400_000 }, promptDelay: 50 });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const onHardLimit = vi.fn(async () => false);
+        const result = await manager.runTask(task, undefined, { onHardLimit });
+
+        expect(onHardLimit).toHaveBeenCalledWith(expect.objectContaining({ type: "hard" }));
+        expect(mockSession.abort).toHaveBeenCalled();
+        expect(result.outcome).toBe("budget-exceeded");
+      });
+
+      it("keeps running when onHardLimit allows it", async () => {
+        const mockSession = createMockSession({ usage: { input: 400_000 }, promptDelay: 50 });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const onHardLimit = vi.fn(async () => true);
+        const result = await manager.runTask(task, undefined, { onHardLimit });
+
+        expect(mockSession.abort).not.toHaveBeenCalled();
+        expect(result.success).toBe(true);
+        expect(result.outcome).toBe("success");
+      });
+
+      it("marks timeouts with a timeout outcome", async () => {
+        const mockSession = createMockSession({ promptDelay: 200 });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const result = await manager.runTask({ ...task, timeoutMs: 50 });
+
+        expect(result.outcome).toBe("timeout");
+      });
+    });
+    describe("cancel", () => {
+      it("aborts a running task and resolves with a cancelled outcome", async () => {
+        const mockSession = createMockSession({ promptDelay: 200 });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const task: TaskDefinition = {
+          id: "cancel-task",
+          prompt: "Do something slow",
+          tier: "light",
+          description: "Cancel task",
+        };
+
+        const resultPromise = manager.runTask(task);
+        await new Promise(r => setTimeout(r, 20));
+
+        expect(manager.cancel("cancel-task")).toBe(true);
+        const result = await resultPromise;
+
+        expect(mockSession.abort).toHaveBeenCalled();
+        expect(result.success).toBe(false);
+        expect(result.outcome).toBe("cancelled");
+        expect(result.error).toBe("Task cancelled");
+      });
+
+      it("returns false for tasks that are not running", async () => {
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(createMockSession()),
+        });
+
+        expect(manager.cancel("unknown-task")).toBe(false);
+      });
+
+      it("returns false once the task has finished", async () => {
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(createMockSession()),
+        });
+
+        await manager.runTask({
+          id: "done-task",
+          prompt: "Do something",
+          tier: "light",
+          description: "Done task",
+        });
+
+        expect(manager.cancel("done-task")).toBe(false);
+      });
+    });
+    describe("contextFiles", () => {
+      let tempDir: string;
+
+      beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), "lifecycle-context-test-"));
+        writeFileSync(join(tempDir, "api.ts"), "export const api = 1;\n");
+      });
+
+      afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it("preloads context files ahead of the task prompt", async () => {
+        const mockSession = createMockSession();
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        await manager.runTask({
+          id: "context-task",
+          prompt: "Write the client",
+          tier: "light",
+          description: "Context task",
+          cwd: tempDir,
+          contextFiles: ["api.ts"],
+        });
+
+        const prompt = (mockSession.prompt as any).mock.calls[0][0] as string;
+        expect(prompt).toContain('<file path="api.ts">');
+        expect(prompt).toContain("export const api = 1;");
+        expect(prompt.endsWith("Write the client")).toBe(true);
+      });
+
+      it("fails without creating a session when a context file is missing", async () => {
+        const mockSession = createMockSession();
+        const mockCreateSession = createMockSessionFactory(mockSession);
+        const manager = new LifecycleManager({ createSession: mockCreateSession });
+
+        const result = await manager.runTask({
+          id: "context-task",
+          prompt: "Write the client",
+          tier: "light",
+          description: "Context task",
+          cwd: tempDir,
+          contextFiles: ["missing.ts"],
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("missing.ts");
+        expect(mockCreateSession).not.toHaveBeenCalled();
+      });
+    });
+    describe("final report", () => {
+      it("asks for a structured report in the system prompt", async () => {
+        const mockSession = createMockSession();
+        const mockCreateSession = createMockSessionFactory(mockSession);
+        const manager = new LifecycleManager({ createSession: mockCreateSession });
+
+        await manager.runTask({
+          id: "report-task",
+          prompt: "Do something",
+          tier: "light",
+          description: "Report task",
+        });
+
+        const callArgs = (mockCreateSession.mock.calls[0] as any[])[0];
+        const systemPrompt = await callArgs.resourceLoader.getSystemPrompt();
+        expect(systemPrompt).toContain("<report>");
+      });
+
+      it("parses the report into the result and fills filesChanged", async () => {
+        const report = {
+          summary: "Fixed the typo",
+          filesTouched: ["README.md"],
+          testsRun: [],
+          openQuestions: [],
+          confidence: "high",
+          followUps: [],
+        };
+        const mockSession = createMockSession({
+          outputText: `All done.\n<report>${JSON.stringify(report)}</report>`,
+        });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+
+        const result = await manager.runTask({
+          id: "report-task",
+          prompt: "Do something",
+          tier: "light",
+          description: "Report task",
+        });
+
+        expect(result.report).toEqual(report);
+        expect(result.filesChanged).toEqual(["README.md"]);
+      });
+
+      it("leaves report undefined when the agent did not produce one", async () => {
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(createMockSession()),
+        });
+
+        const result = await manager.runTask({
+          id: "report-task",
+          prompt: "Do something",
+          tier: "light",
+          description: "Report task",
+        });
+
+        expect(result.report).toBeUndefined();
+        expect(result.filesChanged).toEqual([]);
+      });
+    });
+
+    it("reports each tool the agent starts running", async () => {
+      const mockSession = createMockSession({
+        toolCalls: [
+          { toolName: "read", args: { path: "src/index.ts" } },
+          { toolName: "bash", args: { command: "npm test" } },
+        ],
+      });
+      const manager = new LifecycleManager({ createSession: createMockSessionFactory(mockSession) });
+      const onToolCall = vi.fn();
+
+      await manager.runTask({ id: "tool-task", prompt: "Do it", tier: "light", description: "Tools" }, undefined, { onToolCall });
+
+      expect(onToolCall.mock.calls).toEqual([
+        ["read", { path: "src/index.ts" }],
+        ["bash", { command: "npm test" }],
+      ]);
+    });
+
+    describe("rate limits", () => {
+      const task: TaskDefinition = {
+        id: "throttled-task",
+        prompt: "Do something",
+        tier: "light",
+        description: "Throttled task",
+      };
+      const backoff = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+      it("retries a throttled turn with a continue prompt after backing off", async () => {
+        const mockSession = createMockSession({ rateLimitedPrompts: 1 });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+          backoff,
+        });
+        const onRateLimited = vi.fn();
+
+        const result = await manager.runTask(task, undefined, { onRateLimited });
+
+        expect(result.success).toBe(true);
+        expect(mockSession.prompt).toHaveBeenCalledTimes(2);
+        expect((mockSession.prompt as any).mock.calls[1][0]).toContain("rate limited");
+        expect(onRateLimited).toHaveBeenCalledWith(expect.objectContaining({
+          retry: 1,
+          error: "429 rate_limit_error: Too many requests",
+        }));
+      });
+
+      it("fails the task once retries are exhausted", async () => {
+        const mockSession = createMockSession({ rateLimitedPrompts: 5 });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+          backoff,
+        });
+
+        const result = await manager.runTask(task);
+
+        expect(result.success).toBe(false);
+        expect(result.outcome).toBe("failed");
+        expect(result.error).toBe("Rate limited after 2 retries: 429 rate_limit_error: Too many requests");
+        expect(mockSession.prompt).toHaveBeenCalledTimes(3);
+      });
+
+      it("does not retry turns that ended with other errors", async () => {
+        const mockSession = createMockSession({ rateLimitedPrompts: 1, rateLimitMessage: "context too long" });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+          backoff,
+        });
+
+        await manager.runTask(task);
+
+        expect(mockSession.prompt).toHaveBeenCalledTimes(1);
+      });
+
+      it("honours a retry-after hint longer than the backoff", async () => {
+        const mockSession = createMockSession({ rateLimitedPrompts: 1, rateLimitMessage: "Rate limit reached, retry after 20ms" });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+          backoff,
+        });
+        const onRateLimited = vi.fn();
+
+        await manager.runTask(task, undefined, { onRateLimited });
+
+        expect(onRateLimited.mock.calls[0][0].delayMs).toBe(20);
+      });
+
+      it("stops backing off when the task is cancelled", async () => {
+        const mockSession = createMockSession({ rateLimitedPrompts: 1 });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+          backoff: { maxRetries: 2, baseDelayMs: 60000, maxDelayMs: 60000 },
+        });
+
+        const run = manager.runTask(task, undefined, {
+          onRateLimited: () => manager.cancel(task.id),
+        });
+        const result = await run;
+
+        expect(result.outcome).toBe("cancelled");
+        expect(mockSession.prompt).toHaveBeenCalledTimes(1);
+      });
+
+      it("reports each request's tokens", async () => {
+        const mockSession = createMockSession({ usage: { input: 300, output: 200 } });
+        const manager = new LifecycleManager({
+          createSession: createMockSessionFactory(mockSession),
+        });
+        const onRequest = vi.fn();
+
+        await manager.runTask(task, undefined, { onRequest });
+
+        expect(onRequest).toHaveBeenCalledWith(500);
+      });
+    });
   });
 });
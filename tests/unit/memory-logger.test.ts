@@ -95,6 +95,32 @@ describe("MemoryLogger", () => {
       expect(summary).toContain("$0.15");
     });
 
+    it("includes token counts", () => {
+      const result = createTestResult({ tokenUsage: { input: 1000, output: 500 } });
+      const summary = logger.formatTaskSummary(result, "light", "claude-sonnet-4-5");
+      
+      expect(summary).toContain("1000 in / 500 out tokens");
+    });
+
+    it("uses the report summary as the description when present", () => {
+      const result = createTestResult({
+        output: "long streamed output...",
+        report: {
+          summary: "Added auth endpoint",
+          filesTouched: [],
+          testsRun: [],
+          openQuestions: ["Token expiry?"],
+          confidence: "medium",
+          followUps: [],
+        },
+      });
+      const summary = logger.formatTaskSummary(result, "light", "claude-sonnet-4-5");
+      
+      expect(summary).toContain('"Added auth endpoint"');
+      expect(summary).not.toContain("long streamed output");
+      expect(summary).toContain("confidence: medium, 1 open question(s)");
+    });
+
     it("includes error message for failed tasks", () => {
       const result = createTestResult({ 
         success: false, 
@@ -154,6 +180,18 @@ describe("MemoryLogger", () => {
       expect(entries[0].metadata!.costEstimate).toBe(0.25);
       expect(entries[0].metadata!.durationMs).toBe(12000);
     });
+
+    it("includes token usage in metadata", async () => {
+      const result = createTestResult({
+        tokenUsage: { input: 2000, output: 700, cacheRead: 300, cacheWrite: 0, thinking: 120 },
+      });
+      await logger.logTaskCompletion(result, "standard", "claude-sonnet-4-5");
+      
+      const entries = await logger.readTodayEntries();
+      expect(entries[0].metadata!.tokenUsage).toEqual({
+        input: 2000, output: 700, cacheRead: 300, cacheWrite: 0, thinking: 120,
+      });
+    });
   });
 
   describe("logReflection", () => {
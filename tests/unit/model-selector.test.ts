@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { selectModel, getBudgetThresholds, getExpectedDuration } from "../../src/model-selector";
+import { selectModel, getBudgetThresholds, getExpectedDuration, getNextTier } from "../../src/model-selector";
 import type { TaskTier, ModelSelection, BudgetThresholds, TaskDefinition, TaskResult } from "../../src/types";
 
 describe("selectModel", () => {
@@ -231,3 +231,20 @@ describe("getExpectedDuration", () => {
     expect(result.label).toBe("~3 min");
   });
 });
+
+describe("getNextTier", () => {
+  it("escalates to the next more capable tier", () => {
+    expect(getNextTier("trivial-simple")).toBe("trivial-code");
+    expect(getNextTier("trivial-code")).toBe("light");
+    expect(getNextTier("light")).toBe("standard");
+    expect(getNextTier("complex")).toBe("deep");
+  });
+
+  it("returns undefined for deep", () => {
+    expect(getNextTier("deep")).toBeUndefined();
+  });
+
+  it("throws for invalid tier", () => {
+    expect(() => getNextTier("invalid" as any)).toThrow("Invalid task tier");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { PoolStateStore, type PersistedTask } from "../../src/pool-state-store";
+import { mkdirSync, rmSync, existsSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+
+describe("PoolStateStore", () => {
+  let tempDir: string;
+  let persistPath: string;
+  let store: PoolStateStore;
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `pool-state-test-${Date.now()}`);
+    mkdirSync(tempDir, { recursive: true });
+    persistPath = join(tempDir, "pool-state.json");
+    store = new PoolStateStore(persistPath);
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const createEntry = (id: string, status: PersistedTask["status"]): PersistedTask => ({
+    task: { id, prompt: `Task ${id}`, tier: "light", description: `Task ${id} description` },
+    status,
+    attempt: 1,
+    attempts: [],
+  });
+
+  it("returns an empty list when nothing was saved", () => {
+    expect(store.load()).toEqual([]);
+  });
+
+  it("round-trips tasks with their worktrees in order", () => {
+    const running: PersistedTask = {
+      ...createEntry("task-1", "running"),
+      startTime: 1000,
+      worktree: {
+        taskId: "task-1",
+        worktreePath: "/wt/task-1",
+        branchName: "agent/task-1",
+        repoPath: "/repo",
+        baseRef: "release/1.x",
+        baseSha: "abc123",
+      },
+    };
+    const blocked: PersistedTask = { ...createEntry("task-2", "blocked"), useWorktree: true, baseRef: "release/1.x" };
+
+    store.save([running, blocked]);
+
+    expect(new PoolStateStore(persistPath).load()).toEqual([running, blocked]);
+  });
+
+  it("replaces the previous state on save", () => {
+    store.save([createEntry("task-1", "queued")]);
+    store.save([]);
+
+    expect(store.load()).toEqual([]);
+  });
+
+  it("creates the data directory if needed", () => {
+    const nested = new PoolStateStore(join(tempDir, "nested", "pool-state.json"));
+    nested.save([createEntry("task-1", "queued")]);
+
+    expect(nested.load()).toHaveLength(1);
+  });
+
+  it("ignores corrupt files and unknown versions", () => {
+    writeFileSync(persistPath, "{ not json");
+    expect(store.load()).toEqual([]);
+
+    writeFileSync(persistPath, JSON.stringify({ version: 2, tasks: [createEntry("task-1", "queued")] }));
+    expect(store.load()).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { getModelPricing, estimateCost, emptyTokenUsage } from "../../src/pricing";
+import { selectModel } from "../../src/model-selector";
+import type { TaskTier } from "../../src/types";
+
+describe("getModelPricing", () => {
+  it("has pricing for every model selected by a tier", () => {
+    const tiers: TaskTier[] = ["trivial-simple", "trivial-code", "light", "standard", "complex", "deep"];
+    for (const tier of tiers) {
+      const { modelId } = selectModel(tier);
+      expect(getModelPricing(modelId)).toBeDefined();
+    }
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(getModelPricing("some-unknown-model")).toBeUndefined();
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices input and output tokens per million", () => {
+    const cost = estimateCost("claude-sonnet-4-5", { input: 1_000_000, output: 1_000_000 });
+    expect(cost).toBeCloseTo(18.0);
+  });
+
+  it("includes cache read and write tokens", () => {
+    const cost = estimateCost("claude-sonnet-4-5", {
+      input: 0,
+      output: 0,
+      cacheRead: 1_000_000,
+      cacheWrite: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(0.30 + 3.75);
+  });
+
+  it("does not bill thinking tokens on top of output", () => {
+    const withoutThinking = estimateCost("claude-opus-4-5", { input: 1000, output: 2000 });
+    const withThinking = estimateCost("claude-opus-4-5", { input: 1000, output: 2000, thinking: 1500 });
+    expect(withThinking).toBe(withoutThinking);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(estimateCost("some-unknown-model", { input: 100, output: 100 })).toBeUndefined();
+  });
+
+  it("returns 0 for empty usage", () => {
+    expect(estimateCost("claude-haiku-4-5", emptyTokenUsage())).toBe(0);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { findStaleAgents, formatStaleAgents, formatAge, formatBytes } from "../../src/prune";
+import type { AgentInfo, AgentStatus } from "../../src/agent-pool";
+import type { AgentMetadata } from "../../src/agent-metadata-store";
+import type { AgentArtifacts } from "../../src/worktree-manager";
+
+const HOUR = 3_600_000;
+const NOW = 100 * HOUR;
+
+const artifacts = (taskId: string, extra: Partial<AgentArtifacts> = {}): AgentArtifacts => ({
+  taskId,
+  repoPath: "/repo",
+  worktreePath: `/repo/.worktrees/${taskId}`,
+  branchName: `agent/${taskId}`,
+  ...extra,
+});
+
+const createAgent = (taskId: string, status: AgentStatus, extra: Partial<AgentInfo> = {}): AgentInfo => ({
+  taskId,
+  description: `Task ${taskId}`,
+  tier: "standard",
+  status,
+  attempt: 1,
+  attempts: [],
+  ...extra,
+});
+
+const createMetadata = (taskId: string, status: AgentMetadata["status"], completedAt: number): AgentMetadata => ({
+  taskId,
+  description: `Saved ${taskId}`,
+  tier: "standard",
+  branchName: `agent/${taskId}`,
+  repoPath: "/repo",
+  status,
+  completedAt,
+});
+
+const anyAge = { olderThanMs: 0, includeUnmerged: false };
+
+describe("findStaleAgents", () => {
+  it("classifies failed, cancelled and orphaned agents and skips live ones", () => {
+    const stale = findStaleAgents(
+      [artifacts("failed"), artifacts("cancelled"), artifacts("orphan", { merged: true }), artifacts("running"), artifacts("interrupted")],
+      [
+        createAgent("failed", "failed", { endTime: NOW - HOUR }),
+        createAgent("cancelled", "cancelled", { endTime: NOW - HOUR }),
+        createAgent("running", "running"),
+        createAgent("interrupted", "interrupted"),
+      ],
+      [],
+      anyAge,
+      NOW
+    );
+
+    expect(stale.map(item => [item.taskId, item.reason])).toEqual([
+      ["failed", "failed"],
+      ["cancelled", "cancelled"],
+      ["orphan", "orphaned"],
+    ]);
+  });
+
+  it("only includes unmerged completed agents when asked", () => {
+    const metadata = [createMetadata("done", "completed", NOW - HOUR)];
+
+    expect(findStaleAgents([artifacts("done")], [], metadata, anyAge, NOW)).toEqual([]);
+    expect(findStaleAgents([artifacts("done")], [], metadata, { ...anyAge, includeUnmerged: true }, NOW)).toMatchObject([
+      { taskId: "done", reason: "unmerged", description: "Saved done" },
+    ]);
+  });
+
+  it("treats an unknown task's unmerged branch as unmerged work", () => {
+    const items = [
+      artifacts("handoff", { worktreePath: undefined, merged: false }),
+      artifacts("landed", { worktreePath: undefined, merged: true }),
+      artifacts("untold", { worktreePath: undefined }),
+    ];
+
+    expect(findStaleAgents(items, [], [], anyAge, NOW).map(item => [item.taskId, item.reason])).toEqual([
+      ["landed", "orphaned"],
+    ]);
+    expect(findStaleAgents(items, [], [], { ...anyAge, includeUnmerged: true }, NOW).map(item => [item.taskId, item.reason])).toEqual([
+      ["handoff", "unmerged"],
+      ["landed", "orphaned"],
+      ["untold", "unmerged"],
+    ]);
+  });
+
+  it("never prunes an unknown task's unmerged branch unattended", () => {
+    const stale = findStaleAgents(
+      [artifacts("handoff", { merged: false }), artifacts("done")],
+      [],
+      [createMetadata("done", "completed", NOW - HOUR)],
+      { ...anyAge, includeUnmerged: true, unattended: true },
+      NOW
+    );
+
+    expect(stale.map(item => [item.taskId, item.reason])).toEqual([["done", "unmerged"]]);
+  });
+
+  it("ages unknown worktrees by their directory, not the branch's base commit", () => {
+    const stale = findStaleAgents(
+      [
+        artifacts("fresh", { lastCommitAt: NOW - 90 * HOUR, worktreeModifiedAt: NOW - 60_000, merged: true }),
+        artifacts("abandoned", { lastCommitAt: NOW - 90 * HOUR, worktreeModifiedAt: NOW - 30 * HOUR, merged: true }),
+      ],
+      [],
+      [],
+      { olderThanMs: 24 * HOUR, includeUnmerged: false },
+      NOW
+    );
+
+    expect(stale.map(item => [item.taskId, item.ageMs])).toEqual([["abandoned", 30 * HOUR]]);
+  });
+
+  it("ages from completion, falling back to the last commit, and sorts oldest first", () => {
+    const stale = findStaleAgents(
+      [artifacts("recent"), artifacts("old", { lastCommitAt: NOW - 50 * HOUR, merged: true }), artifacts("saved")],
+      [createAgent("recent", "failed", { endTime: NOW - 2 * HOUR })],
+      [createMetadata("saved", "failed", NOW - 30 * HOUR)],
+      { olderThanMs: 24 * HOUR, includeUnmerged: false },
+      NOW
+    );
+
+    expect(stale.map(item => [item.taskId, item.ageMs])).toEqual([
+      ["old", 50 * HOUR],
+      ["saved", 30 * HOUR],
+    ]);
+  });
+});
+
+describe("formatStaleAgents", () => {
+  it("lists each agent with its age and size, and a total", () => {
+    const text = formatStaleAgents([
+      { ...artifacts("a"), reason: "failed", ageMs: 51 * HOUR, description: "Fix tests", sizeBytes: 3 * 1024 * 1024 },
+      { taskId: "b", repoPath: "/repo", branchName: "agent/b", reason: "orphaned", ageMs: 90_000 },
+    ]);
+
+    expect(text).toBe([
+      "• a [failed] 2d3h — Fix tests (worktree 3.0 MB, branch)",
+      "• b [orphaned] 1m30s (branch)",
+      "2 stale agents, 3.0 MB on disk",
+    ].join("\n"));
+  });
+});
+
+describe("formatAge", () => {
+  it("uses days and hours, hours and minutes, or a short duration", () => {
+    expect(formatAge(51 * HOUR)).toBe("2d3h");
+    expect(formatAge(5 * HOUR + 12 * 60_000)).toBe("5h12m");
+    expect(formatAge(45_000)).toBe("45s");
+  });
+});
+
+describe("formatBytes", () => {
+  it("picks the largest unit under 1024", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(5 * 1024 ** 3)).toBe("5.0 GB");
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { isRateLimitError, parseRetryAfter, getBackoffDelay, RateLimiter } from "../../src/rate-limit";
+
+describe("isRateLimitError", () => {
+  it("recognises throttling messages", () => {
+    expect(isRateLimitError("429 Too Many Requests")).toBe(true);
+    expect(isRateLimitError("rate_limit_error: Number of request tokens has exceeded your per-minute rate limit")).toBe(true);
+    expect(isRateLimitError("Overloaded")).toBe(true);
+  });
+
+  it("ignores other errors", () => {
+    expect(isRateLimitError("prompt is too long")).toBe(false);
+    expect(isRateLimitError("request id 14290 failed")).toBe(false);
+    expect(isRateLimitError(undefined)).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and milliseconds", () => {
+    expect(parseRetryAfter("Rate limited, retry after 20s")).toBe(20000);
+    expect(parseRetryAfter("retry-after: 1.5")).toBe(1500);
+    expect(parseRetryAfter("retry after 250ms")).toBe(250);
+  });
+
+  it("returns undefined without a hint", () => {
+    expect(parseRetryAfter("429 Too Many Requests")).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  const options = { baseDelayMs: 1000, maxDelayMs: 8000 };
+
+  it("doubles per attempt with half the delay jittered", () => {
+    expect(getBackoffDelay(1, options, () => 0)).toBe(500);
+    expect(getBackoffDelay(1, options, () => 0.5)).toBe(750);
+    expect(getBackoffDelay(3, options, () => 0)).toBe(2000);
+  });
+
+  it("caps the delay", () => {
+    expect(getBackoffDelay(10, options, () => 1)).toBe(8000);
+  });
+});
+
+describe("RateLimiter", () => {
+  const clock = (start = 0) => {
+    let time = start;
+    return { now: () => time, advance: (ms: number) => { time += ms; } };
+  };
+
+  it("never holds back providers without a limit", () => {
+    const limiter = new RateLimiter({ openai: { requestsPerMinute: 1 } });
+    limiter.record("anthropic", 1_000_000);
+    expect(limiter.getWaitMs("anthropic")).toBe(0);
+  });
+
+  it("waits for the oldest request to leave the window at the request limit", () => {
+    const time = clock();
+    const limiter = new RateLimiter({ anthropic: { requestsPerMinute: 2 } }, time.now);
+
+    limiter.record("anthropic", 10);
+    time.advance(10_000);
+    limiter.record("anthropic", 10);
+    time.advance(5_000);
+
+    expect(limiter.getWaitMs("anthropic")).toBe(45_000);
+    time.advance(45_000);
+    expect(limiter.getWaitMs("anthropic")).toBe(0);
+  });
+
+  it("waits until enough tokens leave the window at the token limit", () => {
+    const time = clock();
+    const limiter = new RateLimiter({ anthropic: { tokensPerMinute: 1000 } }, time.now);
+
+    limiter.record("anthropic", 600);
+    time.advance(20_000);
+    limiter.record("anthropic", 300);
+    time.advance(10_000);
+    limiter.record("anthropic", 300);
+
+    // 1200 tokens: dropping the first request brings it under the limit
+    expect(limiter.getWaitMs("anthropic")).toBe(30_000);
+  });
+
+  it("holds back a paused provider even without limits", () => {
+    const time = clock();
+    const limiter = new RateLimiter({}, time.now);
+
+    limiter.pause("anthropic", 8000);
+    limiter.pause("anthropic", 2000);
+
+    expect(limiter.getWaitMs("anthropic")).toBe(8000);
+  });
+});
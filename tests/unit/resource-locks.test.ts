@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { resourcesOverlap, findLockConflict } from "../../src/resource-locks";
+import type { TaskDefinition } from "../../src/types";
+
+describe("resourcesOverlap", () => {
+  it("matches identical paths", () => {
+    expect(resourcesOverlap("/repo/src/api.ts", "/repo/src/api.ts")).toBe(true);
+  });
+
+  it("treats a directory as covering everything beneath it", () => {
+    expect(resourcesOverlap("/repo", "/repo/src/api.ts")).toBe(true);
+    expect(resourcesOverlap("/repo/src/", "/repo/src/api.ts")).toBe(true);
+  });
+
+  it("does not confuse sibling paths that share a prefix", () => {
+    expect(resourcesOverlap("/repo/src", "/repo/src-old/api.ts")).toBe(false);
+    expect(resourcesOverlap("/repo-a", "/repo-b")).toBe(false);
+  });
+
+  it("matches a path against a glob", () => {
+    expect(resourcesOverlap("/repo/src/**/*.ts", "/repo/src/api/client.ts")).toBe(true);
+    expect(resourcesOverlap("/repo/src/*.ts", "/repo/src/api/client.ts")).toBe(false);
+    expect(resourcesOverlap("/repo/src/**/*.ts", "/repo/docs/guide.md")).toBe(false);
+  });
+
+  it("treats a directory as overlapping globs rooted inside it", () => {
+    expect(resourcesOverlap("/repo", "/repo/src/**")).toBe(true);
+  });
+
+  it("treats globs with related directories as overlapping", () => {
+    expect(resourcesOverlap("/repo/src/**", "/repo/src/api/*.ts")).toBe(true);
+    expect(resourcesOverlap("/repo/src/**", "/repo/docs/**")).toBe(false);
+  });
+});
+
+describe("findLockConflict", () => {
+  const running = (id: string, resources?: string[]): TaskDefinition => ({
+    id,
+    prompt: "p",
+    tier: "light",
+    description: id,
+    resources,
+  });
+
+  it("returns the first requested key held by a running task", () => {
+    const conflict = findLockConflict(
+      ["/repo/docs/**", "/repo/src/api.ts"],
+      [running("task-1"), running("task-2", ["/repo/src/**"])]
+    );
+
+    expect(conflict).toEqual({ key: "/repo/src/api.ts", heldBy: "task-2", heldKey: "/repo/src/**" });
+  });
+
+  it("returns undefined when nothing overlaps or no resources are declared", () => {
+    expect(findLockConflict(["/repo/docs/**"], [running("task-1", ["/repo/src/**"])])).toBeUndefined();
+    expect(findLockConflict(undefined, [running("task-1", ["/repo"])])).toBeUndefined();
+  });
+});
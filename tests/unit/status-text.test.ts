@@ -33,4 +33,12 @@ describe("getAgentStatusText", () => {
   it("shows singular 'to review' for 1 diff", () => {
     expect(getAgentStatusText(0, 0, 1)).toBe("🤖 1 to review (Ctrl+Shift+A)");
   });
+
+  it("appends spend headroom when a ceiling is configured", () => {
+    expect(getAgentStatusText(2, 0, 0, 3.456)).toBe("🤖 2 running · 💰 $3.46 left");
+  });
+
+  it("shows headroom alone when no agents are active, never below zero", () => {
+    expect(getAgentStatusText(0, 0, 0, -1)).toBe("💰 $0.00 left");
+  });
 });
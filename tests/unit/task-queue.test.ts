@@ -2,7 +2,7 @@ import { describe, it, expect } from "vitest";
 import type { TaskDefinition } from "../../src/types";
 
 // We'll implement this next
-import { TaskQueue } from "../../src/task-queue";
+import { TaskQueue, AGING_INTERVAL_MS } from "../../src/task-queue";
 
 describe("TaskQueue", () => {
   const createTask = (id: string): TaskDefinition => ({
@@ -119,4 +119,62 @@ describe("TaskQueue", () => {
     expect(removed).toBe(false);
     expect(queue.size()).toBe(1);
   });
+  describe("priority", () => {
+    const withPriority = (id: string, priority: TaskDefinition["priority"]): TaskDefinition => ({
+      ...createTask(id),
+      priority,
+    });
+
+    it("dequeues higher priority tasks first", () => {
+      const queue = new TaskQueue();
+      queue.enqueue(withPriority("deep-1", "low"));
+      queue.enqueue(createTask("normal-1"));
+      queue.enqueue(withPriority("fix", "urgent"));
+
+      expect(queue.dequeue()?.id).toBe("fix");
+      expect(queue.dequeue()?.id).toBe("normal-1");
+      expect(queue.dequeue()?.id).toBe("deep-1");
+    });
+
+    it("keeps FIFO order within a priority", () => {
+      const queue = new TaskQueue();
+      queue.enqueue(withPriority("a", "high"));
+      queue.enqueue(withPriority("b", "high"));
+
+      expect(queue.getAll().map(t => t.id)).toEqual(["a", "b"]);
+    });
+
+    it("ages waiting tasks so low priority work is not starved", () => {
+      let now = 0;
+      const queue = new TaskQueue(() => now);
+      queue.enqueue(withPriority("old-low", "low"));
+
+      now = 2 * AGING_INTERVAL_MS;
+      queue.enqueue(withPriority("new-high", "high"));
+
+      // low (0) + 2 levels of aging ties with high (2); the older task wins
+      expect(queue.peek()?.id).toBe("old-low");
+    });
+
+    it("reports queue position in dequeue order", () => {
+      const queue = new TaskQueue();
+      queue.enqueue(createTask("task-1"));
+      queue.enqueue(withPriority("task-2", "high"));
+
+      expect(queue.position("task-2")).toBe(1);
+      expect(queue.position("task-1")).toBe(2);
+      expect(queue.position("missing")).toBeUndefined();
+    });
+
+    it("reprioritize moves a queued task", () => {
+      const queue = new TaskQueue();
+      queue.enqueue(createTask("task-1"));
+      queue.enqueue(createTask("task-2"));
+
+      expect(queue.reprioritize("task-2", "urgent")).toBe(true);
+      expect(queue.position("task-2")).toBe(1);
+      expect(queue.peek()?.priority).toBe("urgent");
+      expect(queue.reprioritize("missing", "low")).toBe(false);
+    });
+  });
 });
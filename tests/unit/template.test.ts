@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate } from "../../src/template";
+
+describe("renderTemplate", () => {
+  it("fills placeholders from the item", () => {
+    expect(renderTemplate("Migrate {{package}} to {{ target }}", { package: "api", target: "ESM" }))
+      .toBe("Migrate api to ESM");
+  });
+
+  it("names every missing variable", () => {
+    expect(() => renderTemplate("{{a}} {{b}} {{a}} {{c}}", { b: "x" }))
+      .toThrow("Missing template variables: a, c");
+  });
+
+  it("leaves text without placeholders alone", () => {
+    expect(renderTemplate("Run the tests", {})).toBe("Run the tests");
+  });
+});
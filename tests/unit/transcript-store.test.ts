@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import {
+  TranscriptStore,
+  paginateTranscript,
+  formatTranscriptEntry,
+  formatTranscriptPage,
+  type TranscriptEntry,
+} from "../../src/transcript-store";
+
+function writeSession(store: TranscriptStore, taskId: string): string {
+  const manager = SessionManager.create("/repo", store.getSessionDir(taskId));
+  manager.appendMessage({ role: "user", content: "Fix the bug", timestamp: 1 });
+  manager.appendMessage({
+    role: "assistant",
+    content: [
+      { type: "thinking", thinking: "Look at the parser first" },
+      { type: "text", text: "Reading the parser." },
+      { type: "toolCall", id: "call-1", name: "read", arguments: { path: "src/parser.ts" } },
+    ],
+    api: "anthropic-messages",
+    provider: "anthropic",
+    model: "claude-haiku-4-5",
+    usage: {
+      input: 10,
+      output: 5,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 15,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    },
+    stopReason: "toolUse",
+    timestamp: 2,
+  } as any);
+  manager.appendMessage({
+    role: "toolResult",
+    toolCallId: "call-1",
+    toolName: "read",
+    content: [{ type: "text", text: "ENOENT: no such file" }],
+    isError: true,
+    timestamp: 3,
+  });
+  return manager.getSessionFile()!;
+}
+
+function entries(count: number): TranscriptEntry[] {
+  return Array.from({ length: count }, (_, i) => ({ kind: "assistant" as const, text: `message ${i + 1}` }));
+}
+
+describe("TranscriptStore", () => {
+  let tempDir: string;
+  let store: TranscriptStore;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "transcript-store-test-"));
+    store = new TranscriptStore(tempDir);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("puts each task's session in its own directory", () => {
+    expect(store.getSessionDir("task-1")).toBe(join(tempDir, "task-1"));
+  });
+
+  it("finds the transcript file written by the session manager", () => {
+    const path = writeSession(store, "task-1");
+    expect(store.find("task-1")).toBe(path);
+  });
+
+  it("refuses task IDs that would lead outside the transcript root", () => {
+    for (const taskId of ["../x", "a/b", "..", "/etc"]) {
+      expect(() => store.find(taskId)).toThrow("Invalid task ID");
+    }
+  });
+
+  it("returns undefined for tasks without a transcript", () => {
+    expect(store.find("missing")).toBeUndefined();
+    expect(store.load("missing")).toBeUndefined();
+  });
+
+  it("flattens messages, thinking, tool calls and tool results", () => {
+    writeSession(store, "task-1");
+
+    expect(store.load("task-1")).toEqual([
+      { kind: "user", text: "Fix the bug", timestamp: 1 },
+      { kind: "thinking", text: "Look at the parser first", timestamp: 2 },
+      { kind: "assistant", text: "Reading the parser.", timestamp: 2 },
+      { kind: "tool-call", text: '{"path":"src/parser.ts"}', toolName: "read", timestamp: 2 },
+      { kind: "tool-result", text: "ENOENT: no such file", toolName: "read", isError: true, timestamp: 3 },
+    ]);
+  });
+});
+
+describe("paginateTranscript", () => {
+  it("returns the requested page", () => {
+    const page = paginateTranscript(entries(45), 2, 20);
+
+    expect(page.page).toBe(2);
+    expect(page.totalPages).toBe(3);
+    expect(page.totalEntries).toBe(45);
+    expect(page.entries[0].text).toBe("message 21");
+    expect(page.entries).toHaveLength(20);
+  });
+
+  it("clamps out-of-range pages", () => {
+    expect(paginateTranscript(entries(45), 10, 20).page).toBe(3);
+    expect(paginateTranscript(entries(45), 0, 20).page).toBe(1);
+  });
+
+  it("has one empty page for an empty transcript", () => {
+    const page = paginateTranscript([], 1);
+    expect(page.totalPages).toBe(1);
+    expect(page.entries).toEqual([]);
+  });
+});
+
+describe("formatting", () => {
+  it("labels tool calls and failed tool results", () => {
+    expect(formatTranscriptEntry({ kind: "tool-call", text: "{}", toolName: "bash" })).toBe("🔧 bash({})");
+    expect(formatTranscriptEntry({ kind: "tool-result", text: "boom", toolName: "bash", isError: true }))
+      .toBe("❌ bash result:\nboom");
+  });
+
+  it("truncates very long entries", () => {
+    const text = formatTranscriptEntry({ kind: "assistant", text: "x".repeat(5000) });
+    expect(text).toContain("[... 3000 more characters]");
+  });
+
+  it("shows the position and how to continue", () => {
+    const text = formatTranscriptPage("task-1", paginateTranscript(entries(45), 1, 20));
+
+    expect(text).toContain("Transcript for task-1 — page 1/3 (45 entries)");
+    expect(text).toContain("message 20");
+    expect(text).toContain("(Use page 2 to continue)");
+  });
+
+  it("reports an empty transcript", () => {
+    expect(formatTranscriptPage("task-1", paginateTranscript([], 1))).toBe("Transcript for task-1 is empty.");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import { TranscriptViewer } from "../../src/transcript-viewer";
+import type { TranscriptEntry } from "../../src/transcript-store";
+
+const LEFT = "\x1b[D";
+const RIGHT = "\x1b[C";
+const DOWN = "\x1b[B";
+const ESCAPE = "\x1b";
+
+function entries(count: number): TranscriptEntry[] {
+  return Array.from({ length: count }, (_, i) => ({ kind: "assistant" as const, text: `message ${i + 1}` }));
+}
+
+describe("TranscriptViewer", () => {
+  it("renders the first page with a header and footer", () => {
+    const viewer = new TranscriptViewer("task-1", entries(5), vi.fn(), vi.fn(), 30, 2);
+    const lines = viewer.render(80);
+
+    expect(lines[0]).toContain("Transcript: task-1 — page 1/3 (5 entries)");
+    expect(lines.join("\n")).toContain("message 1");
+    expect(lines.join("\n")).not.toContain("message 3");
+    expect(lines[lines.length - 1]).toContain("esc close");
+  });
+
+  it("moves between pages with the arrow keys", () => {
+    const requestRender = vi.fn();
+    const viewer = new TranscriptViewer("task-1", entries(5), vi.fn(), requestRender, 30, 2);
+
+    viewer.handleInput(RIGHT);
+    expect(viewer.render(80).join("\n")).toContain("message 3");
+
+    viewer.handleInput(LEFT);
+    expect(viewer.render(80).join("\n")).toContain("message 1");
+    expect(requestRender).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not go past the last page", () => {
+    const viewer = new TranscriptViewer("task-1", entries(3), vi.fn(), vi.fn(), 30, 2);
+
+    viewer.handleInput(RIGHT);
+    viewer.handleInput(RIGHT);
+
+    expect(viewer.render(80)[0]).toContain("page 2/2");
+  });
+
+  it("scrolls within a page that is taller than the view", () => {
+    const viewer = new TranscriptViewer("task-1", entries(10), vi.fn(), vi.fn(), 4, 10);
+    viewer.render(80);
+
+    viewer.handleInput(DOWN);
+    viewer.handleInput(DOWN);
+
+    const body = viewer.render(80).slice(2, 6).join("\n");
+    expect(body).not.toContain("message 1\n");
+    expect(body).toContain("message 2");
+  });
+
+  it("closes on escape", () => {
+    const onClose = vi.fn();
+    const viewer = new TranscriptViewer("task-1", entries(1), onClose);
+
+    viewer.handleInput(ESCAPE);
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
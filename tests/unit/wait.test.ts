@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { isTerminal, getWaitCadence, formatDuration, formatEta, formatWaitProgress, formatOutcomeTable } from "../../src/wait";
+import type { AgentInfo, AgentStatus } from "../../src/agent-pool";
+
+const createAgent = (taskId: string, status: AgentStatus, extra: Partial<AgentInfo> = {}): AgentInfo => ({
+  taskId,
+  description: `Task ${taskId}`,
+  tier: "standard",
+  status,
+  attempt: 1,
+  attempts: [],
+  ...extra,
+});
+
+describe("isTerminal", () => {
+  it("is true only for completed, failed and cancelled agents", () => {
+    expect(isTerminal(createAgent("a", "completed"))).toBe(true);
+    expect(isTerminal(createAgent("a", "cancelled"))).toBe(true);
+    expect(isTerminal(createAgent("a", "interrupted"))).toBe(false);
+    expect(isTerminal(createAgent("a", "queued"))).toBe(false);
+  });
+});
+
+describe("getWaitCadence", () => {
+  it("follows the soonest poll hint among unfinished agents", () => {
+    const cadence = getWaitCadence([
+      createAgent("a", "running", { tier: "complex" }),
+      createAgent("b", "queued", { tier: "light" }),
+      createAgent("c", "completed", { tier: "trivial-simple" }),
+    ]);
+    expect(cadence).toEqual({ pollMs: 4000, progressMs: 60000 });
+  });
+
+  it("checks less often for slower tiers", () => {
+    expect(getWaitCadence([createAgent("a", "running", { tier: "deep" })])).toEqual({ pollMs: 20000, progressMs: 300000 });
+    expect(getWaitCadence([createAgent("a", "running", { tier: "trivial-simple" })])).toEqual({ pollMs: 1000, progressMs: 15000 });
+  });
+});
+
+describe("formatDuration", () => {
+  it("uses seconds under a minute and minutes above", () => {
+    expect(formatDuration(45_400)).toBe("45s");
+    expect(formatDuration(185_000)).toBe("3m05s");
+    expect(formatDuration(-10)).toBe("0s");
+  });
+});
+
+describe("formatEta", () => {
+  it("counts down from the tier's expected duration", () => {
+    const agent = createAgent("a", "running", { startTime: 0 });
+    expect(formatEta(agent, 60_000)).toBe("ETA ~2m00s");
+  });
+
+  it("reports running agents past their expected duration", () => {
+    const agent = createAgent("a", "running", { startTime: 0 });
+    expect(formatEta(agent, 200_000)).toBe("over the expected ~3 min by 20s");
+  });
+
+  it("gives the full duration for agents that haven't started", () => {
+    expect(formatEta(createAgent("a", "queued"))).toBe("~3 min once started");
+  });
+});
+
+describe("formatWaitProgress", () => {
+  it("counts finished agents and lists the rest with ETAs", () => {
+    const progress = formatWaitProgress([
+      createAgent("a", "completed"),
+      createAgent("b", "running", { startTime: 0, tier: "trivial-code" }),
+    ], 10_000);
+
+    expect(progress).toBe("1/2 done\n• b [running] — Task b (ETA ~20s)");
+  });
+});
+
+describe("formatOutcomeTable", () => {
+  it("shows cost of all attempts, duration and diff stats", () => {
+    const attempt = { attempt: 1, tier: "standard" as const, outcome: "failed" as const, costEstimate: 0.25, durationMs: 1000 };
+    const table = formatOutcomeTable([
+      {
+        agent: createAgent("a", "completed", { startTime: 0, endTime: 90_000, attempts: [attempt, { ...attempt, attempt: 2, outcome: "success" }] }),
+        diffStats: { fileCount: 3, insertions: 40, deletions: 2 },
+      },
+      { agent: createAgent("b", "cancelled") },
+    ]);
+
+    expect(table.split("\n")).toEqual([
+      "| Task | Status | Cost | Duration | Diff |",
+      "|---|---|---|---|---|",
+      "| a | completed | $0.50 | 1m30s | 3 files, +40/-2 |",
+      "| b | cancelled | $0.00 | - | - |",
+    ]);
+  });
+});
@@ -1,15 +1,23 @@
 import { describe, it, expect, vi } from "vitest";
-import { WorktreeManager, type ExecFunction } from "../../src/worktree-manager";
+import {
+  WorktreeManager,
+  validateBranchName,
+  validateRevision,
+  validateTaskId,
+  type ExecFunction,
+} from "../../src/worktree-manager";
 
 /**
  * Mock exec helper that records calls and returns configurable responses
  */
 function createMockExec(responses?: Map<string, { stdout: string; stderr: string; code: number }>) {
-  const calls: Array<{ command: string; options?: { cwd?: string } }> = [];
+  const calls: Array<{ command: string; file: string; args: string[]; options?: { cwd?: string } }> = [];
   const defaultResponse = { stdout: "", stderr: "", code: 0 };
 
-  const exec = vi.fn(async (command: string, options?: { cwd?: string }) => {
-    calls.push({ command, options });
+  const exec = vi.fn(async (file: string, args: string[], options?: { cwd?: string }) => {
+    // Joined for readable substring matching; assert on args where spacing matters
+    const command = [file, ...args].join(" ");
+    calls.push({ command, file, args, options });
     // Match on command substring
     for (const [key, response] of responses ?? []) {
       if (command.includes(key)) return response;
@@ -82,6 +90,188 @@ describe("WorktreeManager", () => {
         "Not a git repository"
       );
     });
+
+    it("throws without running git when the signal is already aborted", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        manager.createWorktree("task-1", "/path/to/repo", controller.signal)
+      ).rejects.toThrow("Worktree creation aborted");
+      expect(calls).toHaveLength(0);
+    });
+
+    it("stops before git worktree add when aborted mid-setup", async () => {
+      const controller = new AbortController();
+      const calls: string[] = [];
+      const exec = vi.fn(async (file: string, args: string[]) => {
+        const command = [file, ...args].join(" ");
+        calls.push(command);
+        if (command.includes("git rev-parse")) controller.abort();
+        return { stdout: "", stderr: "", code: 0 };
+      }) as ExecFunction;
+      const manager = new WorktreeManager(exec);
+
+      await expect(
+        manager.createWorktree("task-1", "/path/to/repo", controller.signal)
+      ).rejects.toThrow("Worktree creation aborted");
+      expect(calls.some((c) => c.includes("git worktree add"))).toBe(false);
+    });
+
+    it("removes the worktree if aborted while it was being created", async () => {
+      const controller = new AbortController();
+      const calls: string[] = [];
+      const exec = vi.fn(async (file: string, args: string[]) => {
+        const command = [file, ...args].join(" ");
+        calls.push(command);
+        if (command.includes("git worktree add")) controller.abort();
+        return { stdout: "", stderr: "", code: 0 };
+      }) as ExecFunction;
+      const manager = new WorktreeManager(exec);
+
+      await expect(
+        manager.createWorktree("task-1", "/path/to/repo", controller.signal)
+      ).rejects.toThrow("Worktree creation aborted");
+      expect(calls.some((c) => c.includes("git worktree remove .worktrees/task-1"))).toBe(true);
+      expect(calls.some((c) => c.includes("git branch -D agent/task-1"))).toBe(true);
+    });
+  });
+
+  describe("createWorktree from a base ref", () => {
+    it("branches from the given ref", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      await manager.createWorktree("task-2", "/path/to/repo", undefined, "agent/task-1");
+
+      const worktreeCall = calls.find((c) => c.command.includes("git worktree add"));
+      expect(worktreeCall?.command).toContain("-b agent/task-2 agent/task-1");
+    });
+
+    it("throws when the base ref cannot be checked out", async () => {
+      const { exec } = createMockExec(new Map([
+        ["git worktree add", { stdout: "", stderr: "fatal: invalid reference: agent/gone", code: 128 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      await expect(
+        manager.createWorktree("task-2", "/path/to/repo", undefined, "agent/gone")
+      ).rejects.toThrow("Failed to create worktree from agent/gone");
+    });
+
+    it("throws when git can't add the worktree, even without a base ref", async () => {
+      const { exec, calls } = createMockExec(new Map([
+        ["git worktree add", { stdout: "", stderr: "fatal: a branch named 'agent/task-1' already exists", code: 128 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      await expect(manager.createWorktree("task-1", "/path/to/repo"))
+        .rejects.toThrow("Failed to create worktree: fatal: a branch named 'agent/task-1' already exists");
+      expect(calls.some((c) => c.command.includes("git rev-parse HEAD"))).toBe(false);
+    });
+
+    it("records the base ref and the commit the worktree started at", async () => {
+      const { exec, calls } = createMockExec(new Map([
+        ["git rev-parse HEAD", { stdout: "abc123\n", stderr: "", code: 0 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      const info = await manager.createWorktree("task-2", "/path/to/repo", undefined, "develop");
+
+      expect(calls.find((c) => c.command === "git rev-parse HEAD")?.options?.cwd).toBe("/path/to/repo/.worktrees/task-2");
+      expect(info.baseRef).toBe("develop");
+      expect(info.baseSha).toBe("abc123");
+    });
+  });
+
+  describe("merge-base and merge target", () => {
+    const info = {
+      taskId: "task-4",
+      worktreePath: "/path/to/repo/.worktrees/task-4",
+      branchName: "agent/task-4",
+      repoPath: "/path/to/repo",
+    };
+
+    it("diffs from the merge-base of the recorded base commit and the branch", async () => {
+      const { exec, calls } = createMockExec(new Map([
+        ["git merge-base", { stdout: "def456\n", stderr: "", code: 0 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      const base = await manager.getMergeBase({ ...info, baseSha: "abc123" });
+
+      expect(base).toBe("def456");
+      expect(calls[0].command).toBe("git merge-base abc123 agent/task-4");
+    });
+
+    it("falls back to the default branch without a recorded base commit", async () => {
+      const { exec, calls } = createMockExec(new Map([
+        ["git symbolic-ref", { stdout: "refs/remotes/origin/master\n", stderr: "", code: 0 }],
+        ["git merge-base", { stdout: "", stderr: "fatal: Not a valid object name", code: 128 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      const base = await manager.getMergeBase(info);
+
+      expect(calls.some((c) => c.command === "git merge-base master agent/task-4")).toBe(true);
+      expect(base).toBe("master");
+    });
+
+    it("merges into the base ref when it is a local branch", async () => {
+      const { exec } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      expect(await manager.getMergeTarget({ ...info, baseRef: "feature/search" })).toBe("feature/search");
+    });
+
+    it("merges into the default branch when the base ref is not a branch", async () => {
+      const { exec } = createMockExec(new Map([
+        ["git show-ref --verify", { stdout: "", stderr: "", code: 1 }],
+        ["git symbolic-ref", { stdout: "refs/remotes/origin/main\n", stderr: "", code: 0 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      expect(await manager.getMergeTarget({ ...info, baseRef: "v1.2.0" })).toBe("main");
+    });
+  });
+
+  describe("mergeBranchInto", () => {
+    const info = {
+      taskId: "task-3",
+      worktreePath: "/path/to/repo/.worktrees/task-3",
+      branchName: "agent/task-3",
+      repoPath: "/path/to/repo",
+    };
+
+    it("merges the branch inside the worktree", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeBranchInto(info, "agent/task-2");
+
+      const mergeCall = calls.find((c) => c.command.includes("git merge --no-edit agent/task-2"));
+      expect(mergeCall?.options?.cwd).toBe(info.worktreePath);
+      // The repo's configured identity makes the merge commit
+      expect(mergeCall?.file).toBe("git");
+      expect(calls.some((c) => c.args.some((arg) => arg.startsWith("GIT_AUTHOR_") || arg.startsWith("GIT_COMMITTER_")))).toBe(false);
+      expect(result).toEqual({ success: true, mergedBranch: "agent/task-2" });
+    });
+
+    it("aborts and reports conflicting files", async () => {
+      const { exec, calls } = createMockExec(new Map([
+        ["git merge --no-edit", { stdout: "", stderr: "CONFLICT", code: 1 }],
+        ["--diff-filter=U", { stdout: "src/api.ts\0", stderr: "", code: 0 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeBranchInto(info, "agent/task-2");
+
+      expect(result.success).toBe(false);
+      expect(result.conflictFiles).toEqual(["src/api.ts"]);
+      expect(calls.some((c) => c.command === "git merge --abort")).toBe(true);
+    });
   });
 
   describe("getDiff", () => {
@@ -151,7 +341,7 @@ index 123..456 789
   describe("getChangedFiles", () => {
     it("parses git diff --name-only output into array", async () => {
       const responses = new Map([
-        ["git diff HEAD --name-only", { stdout: "src/file1.ts\nsrc/file2.ts\nREADME.md", stderr: "", code: 0 }],
+        ["git diff HEAD --name-only", { stdout: "src/file1.ts\0src/file2.ts\0README.md", stderr: "", code: 0 }],
       ]);
       const { exec } = createMockExec(responses);
       const manager = new WorktreeManager(exec);
@@ -185,9 +375,9 @@ index 123..456 789
       expect(files).toEqual([]);
     });
 
-    it("filters empty lines from output", async () => {
+    it("filters empty entries from output", async () => {
       const responses = new Map([
-        ["git diff HEAD --name-only", { stdout: "src/file1.ts\n\n\nsrc/file2.ts\n\n", stderr: "", code: 0 }],
+        ["git diff HEAD --name-only", { stdout: "src/file1.ts\0\0\0src/file2.ts\0\0", stderr: "", code: 0 }],
       ]);
       const { exec } = createMockExec(responses);
       const manager = new WorktreeManager(exec);
@@ -263,6 +453,92 @@ index 123..456 789
     });
   });
 
+  describe("pruning", () => {
+    it("lists agent worktrees and branches by task ID", async () => {
+      const responses = new Map([
+        ["git worktree list --porcelain", {
+          stdout: [
+            "worktree /path/to/repo\nHEAD aaa\nbranch refs/heads/main",
+            "worktree /path/to/repo/.worktrees/task-1\nHEAD bbb\nbranch refs/heads/agent/task-1",
+            "worktree /path/to/repo/.worktrees/task-2\nHEAD ccc\nbranch refs/heads/agent/task-2\nprunable gitdir file points to non-existent location",
+            "worktree /elsewhere/checkout\nHEAD ddd\ndetached",
+          ].join("\n\n") + "\n",
+          stderr: "",
+          code: 0,
+        }],
+        ["--merged=main", { stdout: "task-3\n", stderr: "", code: 0 }],
+        ["git for-each-ref", { stdout: "task-1\u00001700000000\ntask-3\u00001700003600\n", stderr: "", code: 0 }],
+      ]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const artifacts = await manager.listAgentArtifacts("/path/to/repo");
+
+      expect(artifacts).toEqual([
+        {
+          taskId: "task-1",
+          repoPath: "/path/to/repo",
+          worktreePath: "/path/to/repo/.worktrees/task-1",
+          branchName: "agent/task-1",
+          lastCommitAt: 1700000000000,
+          merged: false,
+        },
+        { taskId: "task-2", repoPath: "/path/to/repo", worktreePath: "/path/to/repo/.worktrees/task-2" },
+        { taskId: "task-3", repoPath: "/path/to/repo", branchName: "agent/task-3", lastCommitAt: 1700003600000, merged: true },
+      ]);
+      expect(calls.find((c) => c.command.includes("--merged"))?.args)
+        .toEqual(["for-each-ref", "--merged=main", "--format=%(refname:strip=3)", "refs/heads/agent/"]);
+    });
+
+    it("reads each agent worktree's modification time", async () => {
+      const responses = new Map([
+        ["git worktree list --porcelain", {
+          stdout: "worktree /path/to/repo/.worktrees/task-1\nHEAD bbb\nbranch refs/heads/agent/task-1\n",
+          stderr: "",
+          code: 0,
+        }],
+        ["date -r", { stdout: "1700000100\n", stderr: "", code: 0 }],
+      ]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const [artifacts] = await manager.listAgentArtifacts("/path/to/repo");
+
+      expect(artifacts.worktreeModifiedAt).toBe(1700000100000);
+      expect(calls.find((c) => c.file === "date")?.args).toEqual(["-r", "/path/to/repo/.worktrees/task-1", "+%s"]);
+    });
+
+    it("measures disk usage in bytes", async () => {
+      const responses = new Map([
+        ["du -sk", { stdout: "2048\t/path/to/repo/.worktrees/task-1\n", stderr: "", code: 0 }],
+      ]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      expect(await manager.getDiskUsage("/path/to/repo/.worktrees/task-1")).toBe(2048 * 1024);
+      expect(calls[0].args).toEqual(["-sk", "--", "/path/to/repo/.worktrees/task-1"]);
+    });
+
+    it("returns undefined disk usage when du fails", async () => {
+      const responses = new Map([
+        ["du -sk", { stdout: "", stderr: "No such file or directory", code: 1 }],
+      ]);
+      const { exec } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      expect(await manager.getDiskUsage("/gone")).toBeUndefined();
+    });
+
+    it("runs git worktree prune in the repo", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      await manager.pruneWorktrees("/path/to/repo");
+
+      expect(calls[0]).toMatchObject({ args: ["worktree", "prune"], options: { cwd: "/path/to/repo" } });
+    });
+  });
+
   describe("isGitRepo", () => {
     it("returns true when git rev-parse succeeds", async () => {
       const responses = new Map([
@@ -355,7 +631,7 @@ index 123..456 789
       repoPath: "/path/to/repo",
     };
 
-    it("runs git rebase with target and branch", async () => {
+    it("rebases the branch onto the target in its worktree", async () => {
       const { exec, calls } = createMockExec();
       const manager = new WorktreeManager(exec);
 
@@ -363,8 +639,8 @@ index 123..456 789
 
       const rebaseCall = calls.find((c) => c.command.includes("git rebase"));
       expect(rebaseCall).toBeDefined();
-      expect(rebaseCall?.command).toContain("git rebase main agent/task-1");
-      expect(rebaseCall?.options?.cwd).toBe("/path/to/repo");
+      expect(rebaseCall?.command).toContain("git rebase main");
+      expect(rebaseCall?.options?.cwd).toBe(testInfo.worktreePath);
     });
 
     it("checks out target branch after successful rebase", async () => {
@@ -403,6 +679,38 @@ index 123..456 789
       });
     });
 
+    it("keeps the branch and worktree when the fast-forward fails", async () => {
+      const responses = new Map([
+        ["git merge agent/task-1 --ff-only", { stdout: "", stderr: "fatal: Not possible to fast-forward, aborting.", code: 128 }],
+      ]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main");
+
+      expect(result).toMatchObject({
+        success: false,
+        mergedBranch: "agent/task-1",
+        error: "Fast-forward of main failed: fatal: Not possible to fast-forward, aborting.",
+      });
+      expect(calls.some((c) => c.command.includes("git worktree remove"))).toBe(false);
+      expect(calls.some((c) => c.command.includes("git branch -D"))).toBe(false);
+    });
+
+    it("keeps the branch when the target can't be checked out", async () => {
+      const responses = new Map([
+        ["git checkout main", { stdout: "", stderr: "error: Your local changes would be overwritten", code: 1 }],
+      ]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main");
+
+      expect(result).toMatchObject({ success: false, error: "Checkout of main failed: error: Your local changes would be overwritten" });
+      expect(calls.some((c) => c.command.includes("--ff-only"))).toBe(false);
+      expect(calls.some((c) => c.command.includes("git branch -D"))).toBe(false);
+    });
+
     it("calls cleanup after successful rebase and merge", async () => {
       const { exec, calls } = createMockExec();
       const manager = new WorktreeManager(exec);
@@ -417,107 +725,594 @@ index 123..456 789
       expect(branchDelete).toBeDefined();
     });
 
-    it("attempts conflict resolution when rebase fails", async () => {
+    const conflictResponses = (continueCode: number, conflicts = "src/file1.ts\0src/file2.ts\0") => new Map([
+      ["git rebase --continue", { stdout: "", stderr: continueCode ? "still conflicts" : "", code: continueCode }],  // More specific first
+      ["git rebase --abort", { stdout: "", stderr: "", code: 0 }],
+      ["git rebase", { stdout: "", stderr: "CONFLICT", code: 1 }],
+      ["git diff --name-only --diff-filter=U", { stdout: conflicts, stderr: "", code: 0 }],
+    ]);
+
+    it("aborts and reports conflicting files by default", async () => {
+      const { exec, calls } = createMockExec(conflictResponses(0));
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main");
+
+      expect(result).toEqual({
+        success: false,
+        mergedBranch: "agent/task-1",
+        conflictFiles: ["src/file1.ts", "src/file2.ts"],
+        resolutions: [
+          { file: "src/file1.ts", resolution: "unresolved" },
+          { file: "src/file2.ts", resolution: "unresolved" },
+        ],
+        error: "Rebase conflicts, merge aborted",
+      });
+      expect(calls.some((c) => c.command.includes("git checkout --"))).toBe(false);
+      expect(calls.some((c) => c.command.includes("--ff-only"))).toBe(false);
+      const rebaseAbort = calls.find((c) => c.command.includes("git rebase --abort"));
+      expect(rebaseAbort?.options?.cwd).toBe(testInfo.worktreePath);
+    });
+
+    it("reports a rebase that failed without conflicts", async () => {
       const responses = new Map([
-        ["git rebase --continue", { stdout: "", stderr: "", code: 0 }],  // More specific first
         ["git rebase --abort", { stdout: "", stderr: "", code: 0 }],
-        ["git rebase", { stdout: "", stderr: "CONFLICT", code: 1 }],
-        ["git checkout --theirs", { stdout: "", stderr: "", code: 0 }],
-        ["git add -A", { stdout: "", stderr: "", code: 0 }],
+        ["git rebase", { stdout: "", stderr: "error: cannot rebase: You have unstaged changes.\n", code: 1 }],
+      ]);
+      const { exec } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { strategy: "prefer-agent" });
+
+      expect(result).toEqual({
+        success: false,
+        mergedBranch: "agent/task-1",
+        error: "Rebase failed: error: cannot rebase: You have unstaged changes.",
+      });
+    });
+
+    it("takes the agent's version of only the conflicting files with prefer-agent", async () => {
+      const { exec, calls } = createMockExec(conflictResponses(0));
+      const manager = new WorktreeManager(exec);
+
+      await manager.mergeWorktree(testInfo, "main", { strategy: "prefer-agent" });
+
+      const checkouts = calls.filter((c) => c.command.startsWith("git checkout --")).map((c) => c.command);
+      expect(checkouts).toEqual([
+        "git checkout --theirs -- src/file1.ts",
+        "git checkout --theirs -- src/file2.ts",
       ]);
+      expect(calls.some((c) => c.command === "git checkout --theirs .")).toBe(false);
+      expect(calls.some((c) => c.command.includes("git rebase --continue"))).toBe(true);
+    });
+
+    it("takes the target's version with prefer-target and completes the merge", async () => {
+      const { exec, calls } = createMockExec(conflictResponses(0, "src/file1.ts\0"));
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { strategy: "prefer-target" });
+
+      expect(calls.some((c) => c.command === "git checkout --ours -- src/file1.ts")).toBe(true);
+      expect(calls.some((c) => c.command.includes("git merge agent/task-1 --ff-only"))).toBe(true);
+      expect(result).toEqual({
+        success: true,
+        mergedBranch: "agent/task-1",
+        resolutions: [{ file: "src/file1.ts", resolution: "target" }],
+      });
+    });
+
+    it("removes a file the preferred side deleted", async () => {
+      const responses = conflictResponses(0, "src/gone.ts\0");
+      responses.set("git checkout --theirs", { stdout: "", stderr: "does not have their version", code: 1 });
       const { exec, calls } = createMockExec(responses);
       const manager = new WorktreeManager(exec);
 
-      await manager.mergeWorktree(testInfo, "main");
+      const result = await manager.mergeWorktree(testInfo, "main", { strategy: "prefer-agent" });
 
-      const checkoutTheirs = calls.find((c) => c.command.includes("git checkout --theirs ."));
-      const gitAdd = calls.find((c) => c.command.includes("git add -A"));
-      const rebaseContinue = calls.find((c) => c.command.includes("git rebase --continue"));
+      expect(calls.some((c) => c.command === "git rm -q -- src/gone.ts")).toBe(true);
+      expect(result.success).toBe(true);
+    });
 
-      expect(checkoutTheirs).toBeDefined();
-      expect(gitAdd).toBeDefined();
-      expect(rebaseContinue).toBeDefined();
+    it("aborts with the remaining conflicts when they cannot be resolved", async () => {
+      const { exec, calls } = createMockExec(conflictResponses(1));
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { strategy: "prefer-agent" });
+
+      expect(calls.some((c) => c.command.includes("git rebase --abort"))).toBe(true);
+      expect(result.success).toBe(false);
+      expect(result.conflictFiles).toEqual(["src/file1.ts", "src/file2.ts"]);
+      expect(result.error).toBe("Rebase conflicts could not be resolved");
+    });
+
+    it("hands conflicts to the resolver inside the agent's worktree", async () => {
+      let resolved = false;
+      const exec = vi.fn(async (file: string, args: string[], options?: { cwd?: string }) => {
+        const command = [file, ...args].join(" ");
+        const inWorktree = options?.cwd === testInfo.worktreePath;
+        if (command.includes("git diff --name-only --diff-filter=U")) {
+          return { stdout: resolved ? "" : "src/file1.ts\0", stderr: "", code: 0 };
+        }
+        // The repo rebase conflicts until the worktree rebase has been resolved
+        if (command.includes("git rebase main") && !resolved) {
+          return { stdout: "", stderr: "CONFLICT", code: 1 };
+        }
+        return { stdout: "", stderr: "", code: 0 };
+      }) as ExecFunction;
+      const resolver = vi.fn(async () => {
+        resolved = true;
+        return true;
+      });
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { strategy: "resolver-agent", resolver });
+
+      expect(resolver).toHaveBeenCalledWith({ info: testInfo, target: "main", files: ["src/file1.ts"] });
+      expect((exec as any).mock.calls.some(([, args, options]: [string, string[], { cwd?: string }]) =>
+        args.join(" ").endsWith("git rebase main") && options?.cwd === testInfo.worktreePath
+      )).toBe(true);
+      expect(result).toEqual({
+        success: true,
+        mergedBranch: "agent/task-1",
+        resolutions: [{ file: "src/file1.ts", resolution: "resolver" }],
+      });
+    });
+
+    it("fails when the resolver gives up", async () => {
+      const { exec, calls } = createMockExec(conflictResponses(0, "src/file1.ts\0"));
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", {
+        strategy: "resolver-agent",
+        resolver: async () => false,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.resolutions).toEqual([{ file: "src/file1.ts", resolution: "unresolved" }]);
+      expect(calls.some((c) => c.command.includes("git rebase --abort") && c.options?.cwd === testInfo.worktreePath)).toBe(true);
+      expect(calls.some((c) => c.command.includes("--ff-only"))).toBe(false);
     });
 
-    it("completes merge after successful conflict resolution", async () => {
+    it("uses getDefaultBranch when targetBranch not provided", async () => {
       const responses = new Map([
-        ["git rebase --continue", { stdout: "", stderr: "", code: 0 }],  // More specific first
-        ["git rebase --abort", { stdout: "", stderr: "", code: 0 }],
-        ["git rebase", { stdout: "", stderr: "CONFLICT", code: 1 }],
-        ["git checkout --theirs", { stdout: "", stderr: "", code: 0 }],
-        ["git add -A", { stdout: "", stderr: "", code: 0 }],
+        ["git symbolic-ref refs/remotes/origin/HEAD", { stdout: "refs/remotes/origin/main\n", stderr: "", code: 0 }],
       ]);
       const { exec, calls } = createMockExec(responses);
       const manager = new WorktreeManager(exec);
 
-      const result = await manager.mergeWorktree(testInfo, "main");
+      await manager.mergeWorktree(testInfo);
 
-      // Should checkout target and ff-merge after successful conflict resolution
-      const checkoutCall = calls.find((c) => c.command.includes("git checkout main"));
-      const mergeCall = calls.find((c) => c.command.includes("git merge agent/task-1 --ff-only"));
+      // Should call symbolic-ref to get default branch
+      const symbolicRefCall = calls.find((c) => c.command.includes("git symbolic-ref"));
+      expect(symbolicRefCall).toBeDefined();
 
-      expect(checkoutCall).toBeDefined();
-      expect(mergeCall).toBeDefined();
-      expect(result.success).toBe(true);
+      // Should rebase onto main
+      const rebaseCall = calls.find((c) => c.command.includes("git rebase"));
+      expect(rebaseCall?.command).toContain("git rebase main");
     });
+  });
 
-    it("aborts rebase when conflict resolution fails", async () => {
+  describe("merge modes", () => {
+    const testInfo = {
+      taskId: "task-1",
+      worktreePath: "/path/to/repo/.worktrees/task-1",
+      branchName: "agent/task-1",
+      repoPath: "/path/to/repo",
+    };
+
+    it("adds trailers to each rebased commit, keeping its author, and moves the branch", async () => {
       const responses = new Map([
-        ["git rebase --continue", { stdout: "", stderr: "still conflicts", code: 1 }],  // More specific first
-        ["git rebase --abort", { stdout: "", stderr: "", code: 0 }],
-        ["git rebase", { stdout: "", stderr: "CONFLICT", code: 1 }],
-        ["git checkout --theirs", { stdout: "", stderr: "", code: 0 }],
-        ["git add -A", { stdout: "", stderr: "", code: 0 }],
-        ["git diff --name-only --diff-filter=U", { stdout: "src/file1.ts\nsrc/file2.ts\n", stderr: "", code: 0 }],
+        ["git rev-list --reverse main..agent/task-1", { stdout: "c1\nc2\n", stderr: "", code: 0 }],
+        ["git rev-parse main", { stdout: "base\n", stderr: "", code: 0 }],
+        ["git rev-parse agent/task-1", { stdout: "tip\n", stderr: "", code: 0 }],
+        ["git show -s", { stdout: "tree1\u0000Dev\u0000dev@example.com\u00001700000000 +0000\u0000Fix the parser\n", stderr: "", code: 0 }],
+        ["commit-tree", { stdout: "rewritten\n", stderr: "", code: 0 }],
       ]);
       const { exec, calls } = createMockExec(responses);
       const manager = new WorktreeManager(exec);
 
+      const result = await manager.mergeWorktree(testInfo, "main", { trailers: ["Sirdar-Task: task-1"] });
+
+      const commitTrees = calls.filter((c) => c.args.includes("commit-tree"));
+      expect(commitTrees.map((c) => c.args)).toEqual([
+        ["GIT_AUTHOR_NAME=Dev", "GIT_AUTHOR_EMAIL=dev@example.com", "GIT_AUTHOR_DATE=1700000000 +0000",
+          "git", "commit-tree", "tree1", "-p", "base", "-m", "Fix the parser\n\nSirdar-Task: task-1"],
+        ["GIT_AUTHOR_NAME=Dev", "GIT_AUTHOR_EMAIL=dev@example.com", "GIT_AUTHOR_DATE=1700000000 +0000",
+          "git", "commit-tree", "tree1", "-p", "rewritten", "-m", "Fix the parser\n\nSirdar-Task: task-1"],
+      ]);
+      expect(calls.find((c) => c.args[0] === "update-ref")?.args).toEqual(["update-ref", "refs/heads/agent/task-1", "rewritten", "tip"]);
+      expect(result.success).toBe(true);
+    });
+
+    it("rebases with the repo's committer identity", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
       await manager.mergeWorktree(testInfo, "main");
 
-      const rebaseAbort = calls.find((c) => c.command.includes("git rebase --abort"));
-      expect(rebaseAbort).toBeDefined();
-      expect(rebaseAbort?.options?.cwd).toBe("/path/to/repo");
+      const rebase = calls.find((c) => c.args.includes("rebase"));
+      expect(rebase?.args.some((arg) => arg.startsWith("GIT_COMMITTER"))).toBe(false);
+    });
+
+    it("squashes the branch into one commit with the message", async () => {
+      const responses = new Map([["git diff --cached --quiet", { stdout: "", stderr: "", code: 1 }]]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "squash", message: "Fix it's bug" });
+
+      expect(calls.some((c) => c.command === "git merge --squash agent/task-1")).toBe(true);
+      expect(calls.some((c) => c.file === "git" && c.args.join("|") === "commit|-m|Fix it's bug")).toBe(true);
+      expect(calls.some((c) => c.command.includes("git rebase"))).toBe(false);
+      expect(result).toEqual({ success: true, mergedBranch: "agent/task-1" });
+    });
+
+    it("skips the squash commit when the branch changed nothing", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "squash", message: "Nothing" });
+
+      expect(calls.some((c) => c.command.startsWith("git commit"))).toBe(false);
+      expect(result.success).toBe(true);
+    });
+
+    it("doesn't squash onto another branch when the target can't be checked out", async () => {
+      const responses = new Map([["git checkout main", { stdout: "", stderr: "error: pathspec 'main' did not match", code: 1 }]]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "squash", message: "Fix" });
+
+      expect(calls.some((c) => c.command.includes("git merge --squash"))).toBe(false);
+      expect(calls.some((c) => c.command.includes("git branch -D"))).toBe(false);
+      expect(result).toMatchObject({ success: false, error: "Checkout of main failed: error: pathspec 'main' did not match" });
     });
 
-    it("returns success:false with conflictFiles when rebase cannot be resolved", async () => {
+    it("leaves a dirty checkout alone when the target can't be checked out", async () => {
       const responses = new Map([
-        ["git rebase --continue", { stdout: "", stderr: "still conflicts", code: 1 }],  // More specific first
-        ["git rebase --abort", { stdout: "", stderr: "", code: 0 }],
-        ["git rebase", { stdout: "", stderr: "CONFLICT", code: 1 }],
-        ["git checkout --theirs", { stdout: "", stderr: "", code: 0 }],
-        ["git add -A", { stdout: "", stderr: "", code: 0 }],
-        ["git diff --name-only --diff-filter=U", { stdout: "src/file1.ts\nsrc/file2.ts\n", stderr: "", code: 0 }],
+        ["git checkout main", { stdout: "", stderr: "error: Your local changes to the following files would be overwritten by checkout:\n\tsrc/app.ts", code: 1 }],
       ]);
-      const { exec } = createMockExec(responses);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "merge-commit", message: "Merge", strategy: "prefer-agent" });
+
+      expect(result).toMatchObject({ success: false, error: expect.stringContaining("Checkout of main failed: error: Your local changes") });
+      expect(calls.some((c) => c.command.includes("git reset --merge"))).toBe(false);
+      expect(calls.some((c) => c.command.includes("git diff --name-only --diff-filter=U"))).toBe(false);
+      expect(calls.some((c) => c.command.includes("git merge"))).toBe(false);
+    });
+
+    it("creates a --no-ff merge commit and cleans up", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      await manager.mergeWorktree(testInfo, "main", { mode: "merge-commit", message: "Merge task-1" });
+
+      expect(calls.some((c) => c.args.join("|") === "merge|--no-ff|-m|Merge task-1|agent/task-1")).toBe(true);
+      expect(calls.some((c) => c.command.includes("git branch -D agent/task-1"))).toBe(true);
+    });
+
+    it("requires a message for commit-writing modes", async () => {
+      const { exec } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      await expect(manager.mergeWorktree(testInfo, "main", { mode: "squash" }))
+        .rejects.toThrow("A commit message is required for squash merges");
+    });
+
+    it("only removes the worktree for branch-only", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "branch-only" });
+
+      expect(calls.map((c) => c.command)).toEqual(["git worktree remove .worktrees/task-1 --force"]);
+      expect(result).toEqual({ success: true, mergedBranch: "agent/task-1" });
+    });
+
+    it("recreates the worktree of a handed-off branch before rebasing it", async () => {
+      let removed = false;
+      const calls: string[] = [];
+      const exec = vi.fn(async (file: string, args: string[], options?: { cwd?: string }) => {
+        const command = [file, ...args].join(" ");
+        calls.push(`${command} @ ${options?.cwd}`);
+        if (command.startsWith("git worktree remove")) removed = true;
+        if (command.startsWith("git worktree add")) removed = false;
+        if (command === `test -d ${testInfo.worktreePath}`) return { stdout: "", stderr: "", code: removed ? 1 : 0 };
+        return { stdout: "", stderr: "", code: 0 };
+      }) as ExecFunction;
       const manager = new WorktreeManager(exec);
 
+      expect(await manager.mergeWorktree(testInfo, "main", { mode: "branch-only" })).toMatchObject({ success: true });
       const result = await manager.mergeWorktree(testInfo, "main");
 
+      expect(result).toMatchObject({ success: true });
+      const add = calls.indexOf("git worktree add .worktrees/task-1 agent/task-1 @ /path/to/repo");
+      expect(add).toBeGreaterThan(-1);
+      expect(add).toBeLessThan(calls.indexOf(`env GIT_EDITOR=true git rebase main @ ${testInfo.worktreePath}`));
+    });
+
+    it("reports a handed-off branch whose worktree can't be recreated", async () => {
+      const responses = new Map([
+        ["test -d", { stdout: "", stderr: "", code: 1 }],
+        ["git worktree add", { stdout: "", stderr: "fatal: invalid reference: agent/task-1", code: 128 }],
+      ]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "squash", message: "Add search" });
+
       expect(result).toEqual({
         success: false,
         mergedBranch: "agent/task-1",
-        conflictFiles: ["src/file1.ts", "src/file2.ts"],
-        error: "Rebase conflicts could not be resolved",
+        error: "Could not recreate the worktree for agent/task-1: fatal: invalid reference: agent/task-1",
       });
+      expect(calls.some((c) => c.command.includes("git merge"))).toBe(false);
     });
 
-    it("uses getDefaultBranch when targetBranch not provided", async () => {
+    it("resets the target and reports conflicts by default", async () => {
       const responses = new Map([
-        ["git symbolic-ref refs/remotes/origin/HEAD", { stdout: "refs/remotes/origin/main\n", stderr: "", code: 0 }],
+        ["git merge --no-ff", { stdout: "", stderr: "CONFLICT", code: 1 }],
+        ["git diff --name-only --diff-filter=U", { stdout: "src/file1.ts\0", stderr: "", code: 0 }],
       ]);
       const { exec, calls } = createMockExec(responses);
       const manager = new WorktreeManager(exec);
 
-      await manager.mergeWorktree(testInfo);
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "merge-commit", message: "Merge" });
 
-      // Should call symbolic-ref to get default branch
-      const symbolicRefCall = calls.find((c) => c.command.includes("git symbolic-ref"));
-      expect(symbolicRefCall).toBeDefined();
+      expect(calls.some((c) => c.command === "git reset --merge" && c.options?.cwd === testInfo.repoPath)).toBe(true);
+      expect(result.success).toBe(false);
+      expect(result.conflictFiles).toEqual(["src/file1.ts"]);
+      expect(result.error).toBe("Merge conflicts, merge aborted");
+    });
 
-      // Should rebase onto main
-      const rebaseCall = calls.find((c) => c.command.includes("git rebase"));
-      expect(rebaseCall?.command).toContain("git rebase main");
+    it("resolves conflicts by merging the target into the branch first", async () => {
+      let prepared = false;
+      const exec = vi.fn(async (file: string, args: string[], options?: { cwd?: string }) => {
+        const command = [file, ...args].join(" ");
+        const inWorktree = options?.cwd === testInfo.worktreePath;
+        if (command.includes("git diff --name-only --diff-filter=U")) {
+          return { stdout: prepared ? "" : "src/file1.ts\0", stderr: "", code: 0 };
+        }
+        if (command.includes("git merge --squash") && !prepared) {
+          return { stdout: "", stderr: "CONFLICT", code: 1 };
+        }
+        if (command.includes("git merge --no-edit main") && inWorktree) {
+          return { stdout: "", stderr: "CONFLICT", code: 1 };
+        }
+        if (command.includes("git commit --no-edit") && inWorktree) {
+          prepared = true;
+        }
+        if (command === "git diff --cached --quiet") {
+          return { stdout: "", stderr: "", code: 1 };
+        }
+        return { stdout: "", stderr: "", code: 0 };
+      }) as ExecFunction;
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", {
+        mode: "squash",
+        message: "Squashed",
+        strategy: "prefer-agent",
+      });
+
+      // In the worktree the agent's side is "ours"
+      expect((exec as any).mock.calls.some(([file, args, options]: [string, string[], { cwd?: string }]) =>
+        file === "git" && args.join(" ") === "checkout --ours -- src/file1.ts" && options?.cwd === testInfo.worktreePath
+      )).toBe(true);
+      expect(result).toEqual({
+        success: true,
+        mergedBranch: "agent/task-1",
+        resolutions: [{ file: "src/file1.ts", resolution: "agent" }],
+      });
+    });
+  });
+
+  describe("verification", () => {
+    const testInfo = {
+      taskId: "task-1",
+      worktreePath: "/path/to/repo/.worktrees/task-1",
+      branchName: "agent/task-1",
+      repoPath: "/path/to/repo",
+    };
+
+    it("runs each command in the worktree after the rebase, before the fast-forward", async () => {
+      const responses = new Map([["npm test", { stdout: "12 passed", stderr: "", code: 0 }]]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { verify: ["npm test", "npx tsc --noEmit"] });
+
+      const commands = calls.map((c) => c.command);
+      expect(calls.filter((c) => c.file === "bash").map((c) => [c.args, c.options?.cwd])).toEqual([
+        [["-c", "npm test"], testInfo.worktreePath],
+        [["-c", "npx tsc --noEmit"], testInfo.worktreePath],
+      ]);
+      expect(commands.findIndex((c) => c.includes("git rebase main"))).toBeLessThan(commands.indexOf("bash -c npm test"));
+      expect(commands.indexOf("bash -c npx tsc --noEmit")).toBeLessThan(commands.indexOf("git checkout main"));
+      expect(result.success).toBe(true);
+      expect(result.verification).toEqual({
+        success: true,
+        checks: [
+          { command: "npm test", success: true, output: "12 passed" },
+          { command: "npx tsc --noEmit", success: true, output: "" },
+        ],
+      });
+    });
+
+    it("blocks the merge at the first failing command", async () => {
+      const responses = new Map([["npm test", { stdout: "1 failed", stderr: "AssertionError", code: 1 }]]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { verify: ["npm test", "npm run lint"] });
+
+      expect(calls.some((c) => c.command === "bash -c npm run lint")).toBe(false);
+      expect(calls.some((c) => c.command.includes("git checkout main"))).toBe(false);
+      expect(calls.some((c) => c.command.includes("git branch -D"))).toBe(false);
+      expect(result).toEqual({
+        success: false,
+        mergedBranch: "agent/task-1",
+        verification: {
+          success: false,
+          checks: [{ command: "npm test", success: false, output: "1 failed\nAssertionError" }],
+        },
+        error: "Verification failed: npm test",
+      });
+    });
+
+    it("merges the target into the branch before verifying a squash", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "squash", message: "Add search", verify: ["npm test"] });
+
+      const commands = calls.map((c) => c.command);
+      const mergeIn = calls.findIndex((c) => c.command.includes("git merge --no-edit main"));
+      expect(calls[mergeIn]?.options?.cwd).toBe(testInfo.worktreePath);
+      expect(mergeIn).toBeLessThan(commands.indexOf("bash -c npm test"));
+      expect(commands.indexOf("bash -c npm test")).toBeLessThan(commands.findIndex((c) => c.includes("git merge --squash")));
+      expect(result).toMatchObject({ success: true, verification: { success: true } });
+    });
+
+    it("reports conflicts merging the target in before verifying, by default", async () => {
+      const responses = new Map([
+        ["git merge --no-edit main", { stdout: "", stderr: "CONFLICT", code: 1 }],
+        ["git diff --name-only --diff-filter=U", { stdout: "src/a.ts\0", stderr: "", code: 0 }],
+      ]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "merge-commit", message: "Merge", verify: ["npm test"] });
+
+      expect(result).toMatchObject({
+        success: false,
+        conflictFiles: ["src/a.ts"],
+        resolutions: [{ file: "src/a.ts", resolution: "unresolved" }],
+        error: "Merge conflicts, merge aborted",
+      });
+      expect(calls.some((c) => c.command === "git merge --abort")).toBe(true);
+      expect(calls.some((c) => c.file === "bash")).toBe(false);
+    });
+
+    it("verifies before handing off a branch", async () => {
+      const responses = new Map([["make check", { stdout: "", stderr: "", code: 2 }]]);
+      const { exec, calls } = createMockExec(responses);
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { mode: "branch-only", verify: ["make check"] });
+
+      expect(result.success).toBe(false);
+      expect(calls.some((c) => c.command.includes("git worktree remove"))).toBe(false);
+    });
+  });
+
+  describe("argument safety", () => {
+    const testInfo = {
+      taskId: "task-1",
+      worktreePath: "/path/to/repo/.worktrees/task-1",
+      branchName: "agent/task-1",
+      repoPath: "/path/to/repo",
+    };
+    const hostileFiles = [
+      "$(touch pwned).ts",
+      "it's \"quoted\".ts",
+      "`id`; rm -rf ~",
+      "-rf",
+      "with space/and\nnewline.ts",
+    ];
+
+    it("accepts generated task IDs and rejects path or option lookalikes", () => {
+      expect(() => validateTaskId("task-1700000000000-abc123")).not.toThrow();
+      for (const taskId of ["", "../escape", "a/b", "-rf", ".hidden", "a b", "task;rm -rf ~", "x.lock", "a..b", "a."]) {
+        expect(() => validateTaskId(taskId)).toThrow("Invalid task ID");
+      }
+    });
+
+    it("rejects branch names git would refuse or read as an option", () => {
+      expect(() => validateBranchName("agent/task-1")).not.toThrow();
+      expect(() => validateBranchName("feature/search-v2")).not.toThrow();
+      for (const name of ["", "--upload-pack=evil", "a..b", "a b", "a~1", "a:b", "refs/@{x}", "a/.b", "a.lock", "a/", "a\nb"]) {
+        expect(() => validateBranchName(name)).toThrow("Invalid branch name");
+      }
+    });
+
+    it("allows revision expressions but not options or whitespace", () => {
+      for (const revision of ["HEAD~2", "v1.2.0^{}", "origin/main", "0123abcd"]) {
+        expect(() => validateRevision(revision)).not.toThrow();
+      }
+      for (const revision of ["", "--output=/tmp/x", "main extra", "main\n"]) {
+        expect(() => validateRevision(revision)).toThrow("Invalid git revision");
+      }
+    });
+
+    it("refuses a hostile task ID before running anything", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      await expect(manager.createWorktree("../../etc", "/path/to/repo")).rejects.toThrow("Invalid task ID");
+      await expect(manager.createWorktree("task-1", "/path/to/repo", undefined, "--orphan")).rejects.toThrow("Invalid git revision");
+      expect(calls).toEqual([]);
+    });
+
+    it("refuses to merge a hostile target branch", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+
+      await expect(manager.mergeWorktree(testInfo, "main;rm -rf ~")).rejects.toThrow("Invalid branch name");
+      expect(calls).toEqual([]);
+    });
+
+    it("passes a repo path with spaces and quotes as one argument", async () => {
+      const { exec, calls } = createMockExec();
+      const manager = new WorktreeManager(exec);
+      const repoPath = "/home/me/it's a $REPO";
+
+      await manager.createWorktree("task-1", repoPath);
+
+      expect(calls.find((c) => c.file === "mkdir")?.args).toEqual(["-p", `${repoPath}/.worktrees`]);
+      expect(calls.every((c) => c.file !== "bash" && c.file !== "sh")).toBe(true);
+    });
+
+    it("parses hostile changed file names from NUL-separated output", async () => {
+      const { exec, calls } = createMockExec(new Map([
+        ["git diff HEAD --name-only", { stdout: hostileFiles.join("\0") + "\0", stderr: "", code: 0 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      const files = await manager.getChangedFiles(testInfo);
+
+      expect(files).toEqual(hostileFiles);
+      expect(calls[0].args).toContain("-z");
+    });
+
+    it("resolves hostile conflicting files as single arguments after --", async () => {
+      const { exec, calls } = createMockExec(new Map([
+        ["git rebase --continue", { stdout: "", stderr: "", code: 0 }],
+        ["git rebase", { stdout: "", stderr: "CONFLICT", code: 1 }],
+        ["--diff-filter=U", { stdout: hostileFiles.join("\0") + "\0", stderr: "", code: 0 }],
+      ]));
+      const manager = new WorktreeManager(exec);
+
+      const result = await manager.mergeWorktree(testInfo, "main", { strategy: "prefer-agent" });
+
+      const checkouts = calls.filter((c) => c.args[0] === "checkout" && c.args[1] === "--theirs").map((c) => c.args);
+      expect(checkouts).toEqual(hostileFiles.map((file) => ["checkout", "--theirs", "--", file]));
+      const adds = calls.filter((c) => c.args[0] === "add").map((c) => c.args);
+      expect(adds).toEqual(hostileFiles.map((file) => ["add", "--", file]));
+      expect(result.resolutions?.map((r) => r.file)).toEqual(hostileFiles);
+    });
+
+    it("passes a commit message with shell syntax verbatim", async () => {
+      const { exec, calls } = createMockExec(new Map([["git diff --cached --quiet", { stdout: "", stderr: "", code: 1 }]]));
+      const manager = new WorktreeManager(exec);
+      const message = "Fix $(rm -rf ~) and `id`\n\nSirdar-Task: task-1";
+
+      await manager.mergeWorktree(testInfo, "main", { mode: "squash", message });
+
+      expect(calls.find((c) => c.args[0] === "commit")?.args).toEqual(["commit", "-m", message]);
     });
   });
 });